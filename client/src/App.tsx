@@ -8,6 +8,7 @@ import Home from "./pages/Home";
 import ChatInterface from "./pages/ChatInterface";
 import Integrations from "./pages/Integrations";
 import Login from "./pages/Login";
+import SharedConversation from "./pages/SharedConversation";
 import { useAuth } from "@/_core/hooks/useAuth";
 
 function Router() {
@@ -25,11 +26,12 @@ function Router() {
     );
   }
 
-  // Show login page if not authenticated
+  // Show login page if not authenticated (public share links excepted)
   if (!isAuthenticated) {
     return (
       <Switch>
         <Route path={"/login"} component={Login} />
+        <Route path={"/shared/:token"} component={SharedConversation} />
         <Route component={Login} />
       </Switch>
     );
@@ -43,6 +45,7 @@ function Router() {
       <Route path={"/chat/:conversationId"} component={ChatInterface} />
       <Route path={"/chat"} component={ChatInterface} />
       <Route path={"/integrations"} component={Integrations} />
+      <Route path={"/shared/:token"} component={SharedConversation} />
       <Route path={"/404"} component={NotFound} />
       {/* Final fallback route */}
       <Route component={NotFound} />
@@ -1,16 +1,28 @@
+import type { ReactNode } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ExternalLink } from "lucide-react";
 import { Streamdown } from "streamdown";
-import type { ChatMessageData, ExpertiseMode } from "@shared/types";
+import type { ChatMessageData, ExpertiseMode, SharedMessageData } from "@shared/types";
 import { EXPERTISE_MODES } from "@shared/types";
 
 interface ChatMessageProps {
-  message: ChatMessageData;
+  message: ChatMessageData | SharedMessageData;
+  /** Controls shown next to the badges of an assistant message */
+  actions?: ReactNode;
 }
 
-export function ChatMessage({ message }: ChatMessageProps) {
+const CONFIDENCE_LABELS = {
+  high: "High confidence",
+  medium: "Medium confidence",
+  low: "Low confidence",
+};
+
+export function ChatMessage({ message, actions }: ChatMessageProps) {
   const isUser = message.sender === "user";
+  const response = message.response;
+  // Single LLM answers already contain their steps; agent answers list them separately
+  const steps = response?.steps.filter((step) => !message.content.includes(step)) ?? [];
 
   return (
     <div className={`flex gap-3 ${isUser ? "justify-end" : "justify-start"}`}>
@@ -29,16 +41,67 @@ export function ChatMessage({ message }: ChatMessageProps) {
         {/* Mode badge and sources for assistant messages */}
         {!isUser && (
           <div className="mt-3 space-y-2">
-            {message.mode && (
+            {(message.mode || response || actions) && (
               <div className="flex items-center gap-2">
-                <Badge variant="outline" className="text-xs">
-                  {EXPERTISE_MODES[message.mode as ExpertiseMode]?.label || message.mode}
-                </Badge>
+                {message.mode && (
+                  <Badge variant="outline" className="text-xs">
+                    {EXPERTISE_MODES[message.mode as ExpertiseMode]?.label || message.mode}
+                  </Badge>
+                )}
+                {response && (
+                  <Badge
+                    variant="outline"
+                    className="text-xs"
+                    title={response.confidence_reasons.join("\n")}
+                  >
+                    {CONFIDENCE_LABELS[response.confidence]}
+                  </Badge>
+                )}
+                {actions && <div className="ml-auto">{actions}</div>}
               </div>
             )}
 
-            {/* Sources */}
-            {message.sources && message.sources.length > 0 && (
+            {steps.length > 0 && (
+              <ol className="list-decimal pl-5 text-sm space-y-1">
+                {steps.map((step, idx) => (
+                  <li key={idx}>{step}</li>
+                ))}
+              </ol>
+            )}
+
+            {response && response.limitations.length > 0 && (
+              <ul className="text-xs text-slate-600 dark:text-slate-400 space-y-1">
+                {response.limitations.map((limitation, idx) => (
+                  <li key={idx}>{limitation}</li>
+                ))}
+              </ul>
+            )}
+
+            {/* Citations, by section, when the structured answer was saved */}
+            {response && response.citations.length > 0 ? (
+              <div className="space-y-2">
+                <p className="text-xs font-semibold text-slate-600 dark:text-slate-400">
+                  Sources:
+                </p>
+                <div className="space-y-1">
+                  {response.citations.map((citation, idx) => (
+                    <a
+                      key={idx}
+                      href={citation.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-2 text-xs text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 break-all"
+                    >
+                      <span className="truncate flex-1">
+                        {citation.title}
+                        {citation.section && citation.section !== "General" && ` – ${citation.section}`}
+                      </span>
+                      <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                    </a>
+                  ))}
+                </div>
+              </div>
+            ) : message.sources && message.sources.length > 0 && (
               <div className="space-y-2">
                 <p className="text-xs font-semibold text-slate-600 dark:text-slate-400">
                   Sources:
@@ -65,6 +128,16 @@ export function ChatMessage({ message }: ChatMessageProps) {
                 </div>
               </div>
             )}
+
+            {response && response.suggested_searches.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {response.suggested_searches.map((search) => (
+                  <Badge key={search} variant="secondary" className="text-xs">
+                    {search}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { trpc } from "@/lib/trpc";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+type ExportFormat = "pdf" | "docx" | "markdown";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  pdf: "PDF",
+  docx: "Word (DOCX)",
+  markdown: "Markdown",
+};
+
+interface ExportConversationMenuProps {
+  conversationId: number;
+  /** Export only this answer and its question */
+  messageId?: number;
+}
+
+/**
+ * Export a conversation, or one answer, and open the download link
+ */
+export function ExportConversationMenu({ conversationId, messageId }: ExportConversationMenuProps) {
+  const exportMutation = trpc.conversationExport.create.useMutation({
+    onSuccess: (file) => {
+      window.open(file.url, "_blank", "noopener,noreferrer");
+      toast.success(`Exported ${file.fileName}`);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {messageId === undefined ? (
+          <Button size="sm" variant="outline" disabled={exportMutation.isPending}>
+            {exportMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export
+          </Button>
+        ) : (
+          <Button size="sm" variant="ghost" className="h-6 px-2" disabled={exportMutation.isPending} title="Export this answer">
+            {exportMutation.isPending ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <Download className="h-3 w-3" />
+            )}
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem
+            key={format}
+            className="cursor-pointer"
+            onClick={() => exportMutation.mutate({ conversationId, format, messageId })}
+          >
+            {FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
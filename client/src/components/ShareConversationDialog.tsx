@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { Copy, Link2, Loader2, Share2, X } from "lucide-react";
+import { toast } from "sonner";
+
+type SharePermission = "view" | "edit" | "admin";
+
+const PERMISSION_LABELS: Record<SharePermission, string> = {
+  view: "Can view",
+  edit: "Can ask",
+  admin: "Can manage",
+};
+
+/** Public link lifetimes offered, in days; 0 never expires */
+const LINK_EXPIRY_OPTIONS: Array<{ days: number; label: string }> = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 0, label: "Never expires" },
+];
+
+interface ShareConversationDialogProps {
+  conversationId: number;
+}
+
+/**
+ * Share a conversation by email and change or remove collaborators' permissions,
+ * or create and revoke public read-only links
+ */
+export function ShareConversationDialog({ conversationId }: ShareConversationDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [permission, setPermission] = useState<SharePermission>("view");
+
+  const utils = trpc.useUtils();
+  const { data: shares, isLoading } = trpc.chat.listShares.useQuery(
+    { conversationId },
+    { enabled: isOpen }
+  );
+
+  const onChanged = () => utils.chat.listShares.invalidate({ conversationId });
+  const onError = (error: { message: string }) => toast.error(error.message);
+
+  const shareMutation = trpc.chat.shareConversation.useMutation({
+    onSuccess: () => {
+      setEmail("");
+      onChanged();
+      toast.success("Conversation shared");
+    },
+    onError,
+  });
+  const updateMutation = trpc.chat.updateShare.useMutation({ onSuccess: onChanged, onError });
+  const removeMutation = trpc.chat.removeShare.useMutation({ onSuccess: onChanged, onError });
+
+  const [linkExpiry, setLinkExpiry] = useState("30");
+  const { data: links } = trpc.shareLinks.list.useQuery({ conversationId }, { enabled: isOpen });
+  const onLinksChanged = () => utils.shareLinks.list.invalidate({ conversationId });
+  const createLinkMutation = trpc.shareLinks.create.useMutation({
+    onSuccess: (link) => {
+      onLinksChanged();
+      copyLink(link.token!);
+    },
+    onError,
+  });
+  const revokeLinkMutation = trpc.shareLinks.revoke.useMutation({ onSuccess: onLinksChanged, onError });
+
+  const handleShare = () => {
+    if (!email.trim()) {
+      toast.error("Please enter an email address");
+      return;
+    }
+    shareMutation.mutate({ conversationId, email: email.trim(), permission });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Share2 className="h-4 w-4 mr-2" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share conversation</DialogTitle>
+          <DialogDescription>
+            People you share with can read this conversation; give them more access to let them ask questions or manage sharing.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleShare()}
+              placeholder="colleague@example.com"
+            />
+            <PermissionSelect value={permission} onChange={setPermission} />
+            <Button onClick={handleShare} disabled={shareMutation.isPending}>
+              {shareMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Share
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : shares && shares.length > 0 ? (
+            <ul className="divide-y">
+              {shares.map((share) => (
+                <li key={share.userId} className="flex items-center gap-2 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{share.name || share.email}</p>
+                    {share.name && (
+                      <p className="text-xs text-slate-500 truncate">{share.email}</p>
+                    )}
+                  </div>
+                  <PermissionSelect
+                    value={share.permission}
+                    onChange={(value) =>
+                      updateMutation.mutate({ conversationId, userId: share.userId, permission: value })
+                    }
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeMutation.mutate({ conversationId, userId: share.userId })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              This conversation is not shared with anyone yet.
+            </p>
+          )}
+
+          <div className="border-t pt-4 space-y-3">
+            <div>
+              <p className="text-sm font-medium">Public links</p>
+              <p className="text-xs text-slate-500">
+                Anyone with a link can read this conversation without an account.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Select value={linkExpiry} onValueChange={setLinkExpiry}>
+                <SelectTrigger size="sm" className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LINK_EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.days} value={String(option.days)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={createLinkMutation.isPending}
+                onClick={() =>
+                  createLinkMutation.mutate({
+                    conversationId,
+                    expiresInDays: Number(linkExpiry) || undefined,
+                  })
+                }
+              >
+                <Link2 className="h-4 w-4 mr-2" />
+                Create link
+              </Button>
+            </div>
+            {links && links.length > 0 && (
+              <ul className="divide-y">
+                {links.map((link) => (
+                  <li key={link.id} className="flex items-center gap-2 py-2">
+                    <div className="flex-1 min-w-0 text-xs text-slate-600 dark:text-slate-400">
+                      <p>
+                        Created {new Date(link.createdAt).toLocaleDateString()} ·{" "}
+                        {link.expiresAt
+                          ? `expires ${new Date(link.expiresAt).toLocaleDateString()}`
+                          : "never expires"}
+                      </p>
+                      <p>
+                        {link.views} {link.views === 1 ? "view" : "views"}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={() => copyLink(link.token!)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => revokeLinkMutation.mutate({ conversationId, linkId: link.id })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function copyLink(token: string) {
+  navigator.clipboard.writeText(`${window.location.origin}/shared/${token}`);
+  toast.success("Link copied to clipboard");
+}
+
+function PermissionSelect({
+  value,
+  onChange,
+}: {
+  value: SharePermission;
+  onChange: (value: SharePermission) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as SharePermission)}>
+      <SelectTrigger size="sm" className="w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(PERMISSION_LABELS) as SharePermission[]).map((p) => (
+          <SelectItem key={p} value={p}>
+            {PERMISSION_LABELS[p]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -3,12 +3,17 @@ import { useParams, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ChatMessage } from "@/components/ChatMessage";
 import { ChatInput } from "@/components/ChatInput";
+import { ShareConversationDialog } from "@/components/ShareConversationDialog";
+import { ExportConversationMenu } from "@/components/ExportConversationMenu";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { trpc } from "@/lib/trpc";
-import { Loader2, Plus, Trash2, Edit2 } from "lucide-react";
-import type { ExpertiseMode, ChatMessageData } from "@shared/types";
+import { TRPCClientError } from "@trpc/client";
+import { Loader2, Plus, Trash2, Edit2, Users } from "lucide-react";
+import { toast } from "sonner";
+import type { ChatPipeline, ExpertiseMode, ChatMessageData } from "@shared/types";
 import { DISCLAIMERS } from "@shared/types";
 
 export default function ChatInterface() {
@@ -35,12 +40,13 @@ export default function ChatInterface() {
     { enabled: isAuthenticated }
   );
 
-  const sendMessageMutation = trpc.chat.sendMessage.useMutation({
-    onSuccess: () => {
-      // Refetch conversation to get updated messages
-      utils.chat.getConversation.invalidate();
-    },
-  });
+  const { data: sharedWithMe } = trpc.chat.getSharedWithMe.useQuery(
+    undefined,
+    { enabled: isAuthenticated }
+  );
+
+  // Message being answered and the answer streamed so far, null when idle
+  const [streaming, setStreaming] = useState<{ question: string; answer: string } | null>(null);
 
   const createConversationMutation = trpc.chat.createConversation.useMutation({
     onSuccess: (newConv) => {
@@ -50,6 +56,7 @@ export default function ChatInterface() {
 
   const deleteConversationMutation = trpc.chat.deleteConversation.useMutation({
     onSuccess: () => {
+      utils.chat.listConversations.invalidate();
       navigate("/chat");
     },
   });
@@ -58,26 +65,61 @@ export default function ChatInterface() {
     onSuccess: () => {
       setEditingTitle(false);
       utils.chat.getConversation.invalidate();
+      utils.chat.listConversations.invalidate();
+    },
+  });
+
+  const setPipelineMutation = trpc.chat.setPipeline.useMutation({
+    onSuccess: () => {
+      utils.chat.getConversation.invalidate();
     },
   });
 
   // Auto-scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [conversation?.messages]);
+  }, [conversation?.messages, streaming]);
 
   const handleSendMessage = async (content: string, mode?: ExpertiseMode) => {
     if (!conversationId) return;
 
+    const id = parseInt(conversationId);
+    setStreaming({ question: content, answer: "" });
+
+    // Budgets and quotas come with a localised explanation
+    const handleError = (error: unknown) => {
+      console.error("Failed to send message:", error);
+      if (error instanceof TRPCClientError && error.data?.usageNotices) toast.error(error.message);
+      setStreaming(null);
+      utils.chat.getConversation.invalidate();
+    };
+
+    // The mutation saves the question; the subscription follows the answer and resumes after reconnects
+    let turnId: string;
     try {
-      await sendMessageMutation.mutateAsync({
-        conversationId: parseInt(conversationId),
-        content,
-        mode,
-      });
+      ({ turnId } = await utils.client.chat.startStream.mutate({ conversationId: id, content, mode }));
     } catch (error) {
-      console.error("Failed to send message:", error);
+      handleError(error);
+      return;
     }
+
+    const subscription = utils.client.chat.streamMessage.subscribe(
+      { conversationId: id, turnId },
+      {
+        onData: ({ data: event }) => {
+          if (event.type === "token") {
+            setStreaming((current) => current && { ...current, answer: current.answer + event.token });
+          } else if (event.type === "response") {
+            event.response.usage_notices.forEach((notice) => toast.warning(notice.message));
+          } else if (event.type === "done") {
+            subscription.unsubscribe();
+            // Refetch conversation to replace the streamed text with the saved message
+            utils.chat.getConversation.invalidate().finally(() => setStreaming(null));
+          }
+        },
+        onError: handleError,
+      }
+    );
   };
 
   const handleCreateConversation = async () => {
@@ -160,114 +202,226 @@ export default function ChatInterface() {
     );
   }
 
+  // What the user's role lets them do; the server checks it again
+  const { role } = conversation;
+  const canAsk = role !== "view";
+  const canManage = role === "admin" || role === "owner";
+
   return (
-    <div className="flex flex-col h-screen bg-slate-50 dark:bg-slate-950">
-      {/* Header */}
-      <div className="border-b bg-white dark:bg-slate-900 px-6 py-4">
-        <div className="flex items-center justify-between">
-          <div className="flex-1">
-            {editingTitle ? (
-              <div className="flex gap-2">
-                <input
-                  type="text"
-                  value={newTitle}
-                  onChange={(e) => setNewTitle(e.target.value)}
-                  className="px-2 py-1 border rounded"
-                  autoFocus
-                />
-                <Button size="sm" onClick={handleRenameConversation}>
-                  Save
-                </Button>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => setEditingTitle(false)}
+    <div className="flex h-screen bg-slate-50 dark:bg-slate-950">
+      {/* Sidebar */}
+      <aside className="w-64 shrink-0 border-r bg-white dark:bg-slate-900 overflow-y-auto p-4 space-y-6">
+        <div>
+          <h2 className="text-xs font-semibold uppercase text-slate-500 mb-2">Conversations</h2>
+          <ul className="space-y-1">
+            {conversations?.map((c) => (
+              <li key={c.id}>
+                <button
+                  onClick={() => navigate(`/chat/${c.id}`)}
+                  className={`w-full text-left text-sm truncate rounded px-2 py-1 hover:bg-slate-100 dark:hover:bg-slate-800 ${
+                    c.id === conversation.conversation.id ? "bg-slate-100 dark:bg-slate-800 font-medium" : ""
+                  }`}
                 >
-                  Cancel
-                </Button>
-              </div>
-            ) : (
-              <div className="flex items-center gap-2">
-                <h1 className="text-xl font-semibold">{conversation.conversation.title}</h1>
+                  {c.title || "New Conversation"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {sharedWithMe && sharedWithMe.length > 0 && (
+          <div>
+            <h2 className="text-xs font-semibold uppercase text-slate-500 mb-2 flex items-center gap-1">
+              <Users className="h-3 w-3" />
+              Shared with me
+            </h2>
+            <ul className="space-y-1">
+              {sharedWithMe.map(({ conversation: c, owner, share }) => (
+                <li key={c.id}>
+                  <button
+                    onClick={() => navigate(`/chat/${c.id}`)}
+                    className={`w-full text-left rounded px-2 py-1 hover:bg-slate-100 dark:hover:bg-slate-800 ${
+                      c.id === conversation.conversation.id ? "bg-slate-100 dark:bg-slate-800" : ""
+                    }`}
+                  >
+                    <span className="block text-sm truncate">{c.title || "New Conversation"}</span>
+                    <span className="block text-xs text-slate-500 truncate">
+                      {owner?.name || owner?.email || "Unknown owner"} · {share.permission}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </aside>
+
+      <div className="flex flex-col flex-1 min-w-0">
+        {/* Header */}
+        <div className="border-b bg-white dark:bg-slate-900 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex-1">
+              {editingTitle ? (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newTitle}
+                    onChange={(e) => setNewTitle(e.target.value)}
+                    className="px-2 py-1 border rounded"
+                    autoFocus
+                  />
+                  <Button size="sm" onClick={handleRenameConversation}>
+                    Save
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setEditingTitle(false)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <h1 className="text-xl font-semibold">{conversation.conversation.title}</h1>
+                  {canAsk && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setEditingTitle(true);
+                        setNewTitle(conversation.conversation.title || "");
+                      }}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Select
+                value={conversation.conversation.pipeline}
+                disabled={!canManage}
+                onValueChange={(pipeline) =>
+                  setPipelineMutation.mutate({
+                    conversationId: conversation.conversation.id,
+                    pipeline: pipeline as ChatPipeline,
+                  })
+                }
+              >
+                <SelectTrigger size="sm" className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="single">Single LLM</SelectItem>
+                  <SelectItem value="agents">Agent pipeline</SelectItem>
+                </SelectContent>
+              </Select>
+              {canManage && <ShareConversationDialog conversationId={conversation.conversation.id} />}
+              <ExportConversationMenu conversationId={conversation.conversation.id} />
+              <Button size="sm" variant="outline" onClick={handleCreateConversation}>
+                <Plus className="h-4 w-4 mr-2" />
+                New
+              </Button>
+              {role === "owner" && (
                 <Button
                   size="sm"
-                  variant="ghost"
-                  onClick={() => {
-                    setEditingTitle(true);
-                    setNewTitle(conversation.conversation.title || "");
-                  }}
+                  variant="destructive"
+                  onClick={handleDeleteConversation}
                 >
-                  <Edit2 className="h-4 w-4" />
+                  <Trash2 className="h-4 w-4" />
                 </Button>
-              </div>
-            )}
-          </div>
-
-          <div className="flex gap-2">
-            <Button size="sm" variant="outline" onClick={handleCreateConversation}>
-              <Plus className="h-4 w-4 mr-2" />
-              New
-            </Button>
-            <Button
-              size="sm"
-              variant="destructive"
-              onClick={handleDeleteConversation}
-            >
-              <Trash2 className="h-4 w-4" />
-            </Button>
+              )}
+            </div>
           </div>
         </div>
-      </div>
 
-      {/* Messages area */}
-      <div className="flex-1 overflow-y-auto p-6 space-y-4">
-        {conversation.messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full">
-            <Card className="p-8 text-center max-w-md">
-              <h3 className="text-lg font-semibold mb-2">Start the conversation</h3>
-              <p className="text-slate-600 dark:text-slate-400">
-                Ask any questions about Luxembourg HR procedures, employment law, or AI support programs.
-              </p>
-            </Card>
-          </div>
-        ) : (
-          <>
-            {conversation.messages.map((message) => {
-              const typedMessage = {
-                ...message,
-                mode: message.mode as any,
-              };
-              return <ChatMessage key={message.id} message={typedMessage} />;
-            })}
-            {sendMessageMutation.isPending && (
-              <div className="flex gap-3">
-                <div className="max-w-2xl">
-                  <div className="rounded-lg px-4 py-3 bg-slate-100 dark:bg-slate-800">
-                    <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
-                    Generating response...
+        {/* Messages area */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {conversation.messages.length === 0 && !streaming ? (
+            <div className="flex items-center justify-center h-full">
+              <Card className="p-8 text-center max-w-md">
+                <h3 className="text-lg font-semibold mb-2">Start the conversation</h3>
+                <p className="text-slate-600 dark:text-slate-400">
+                  Ask any questions about Luxembourg HR procedures, employment law, or AI support programs.
+                </p>
+              </Card>
+            </div>
+          ) : (
+            <>
+              {conversation.messages.map((message) => {
+                const typedMessage = {
+                  ...message,
+                  mode: message.mode as any,
+                };
+                return (
+                  <ChatMessage
+                    key={message.id}
+                    message={typedMessage}
+                    actions={
+                      message.sender === "assistant" && (
+                        <ExportConversationMenu conversationId={conversation.conversation.id} messageId={message.id} />
+                      )
+                    }
+                  />
+                );
+              })}
+              {streaming && (
+                <ChatMessage
+                  message={{
+                    id: -1,
+                    conversationId: conversation.conversation.id,
+                    sender: "user",
+                    content: streaming.question,
+                    sources: [],
+                    createdAt: new Date(),
+                  }}
+                />
+              )}
+              {streaming?.answer && (
+                <ChatMessage
+                  message={{
+                    id: -2,
+                    conversationId: conversation.conversation.id,
+                    sender: "assistant",
+                    content: streaming.answer,
+                    sources: [],
+                    createdAt: new Date(),
+                  }}
+                />
+              )}
+              {streaming?.answer === "" && (
+                <div className="flex gap-3">
+                  <div className="max-w-2xl">
+                    <div className="rounded-lg px-4 py-3 bg-slate-100 dark:bg-slate-800">
+                      <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                      Generating response...
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
-            <div ref={messagesEndRef} />
-          </>
+              )}
+              <div ref={messagesEndRef} />
+            </>
+          )}
+        </div>
+
+        {/* Disclaimer */}
+        {conversation.messages.length > 0 && (
+          <div className="px-6 py-3 bg-blue-50 dark:bg-blue-950 border-t text-xs text-blue-900 dark:text-blue-100">
+            <strong>Disclaimer:</strong> {DISCLAIMERS.general}
+          </div>
         )}
-      </div>
 
-      {/* Disclaimer */}
-      {conversation.messages.length > 0 && (
-        <div className="px-6 py-3 bg-blue-50 dark:bg-blue-950 border-t text-xs text-blue-900 dark:text-blue-100">
-          <strong>Disclaimer:</strong> {DISCLAIMERS.general}
+        {/* Input area */}
+        <div className="border-t bg-white dark:bg-slate-900 px-6 py-4">
+          <ChatInput
+            onSendMessage={handleSendMessage}
+            isLoading={streaming !== null}
+            disabled={!conversationId || !canAsk}
+          />
         </div>
-      )}
-
-      {/* Input area */}
-      <div className="border-t bg-white dark:bg-slate-900 px-6 py-4">
-        <ChatInput
-          onSendMessage={handleSendMessage}
-          isLoading={sendMessageMutation.isPending}
-          disabled={!conversationId}
-        />
       </div>
     </div>
   );
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from "react";
+import { useParams } from "wouter";
+import { Card } from "@/components/ui/card";
+import { ChatMessage } from "@/components/ChatMessage";
+import { trpc } from "@/lib/trpc";
+import { Loader2 } from "lucide-react";
+import { DISCLAIMERS, MODE_DISCLAIMERS } from "@shared/types";
+
+/**
+ * Read-only view of a conversation opened from a public share link
+ */
+export default function SharedConversation() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: shared, isLoading, error } = trpc.shareLinks.view.useQuery(
+    { token: token || "" },
+    { enabled: !!token, retry: false, refetchOnWindowFocus: false }
+  );
+
+  // Count the opening once per page load, not on every fetch of the view
+  const recordView = trpc.shareLinks.recordView.useMutation();
+  const recordedToken = useRef<string | null>(null);
+  useEffect(() => {
+    if (!shared || !token || recordedToken.current === token) return;
+    recordedToken.current = token;
+    recordView.mutate({ token });
+  }, [shared, token]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Card className="p-8 text-center max-w-md">
+          <h2 className="text-xl font-semibold mb-4">Link unavailable</h2>
+          <p className="text-slate-600 dark:text-slate-400">
+            {error?.message || "This link is invalid or has expired"}
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  // Mode-specific disclaimers of the answers in the conversation
+  const modeDisclaimers = Array.from(
+    new Set(shared.messages.flatMap((m) => (m.sender === "assistant" && m.mode ? [m.mode] : [])))
+  ).map((mode) => MODE_DISCLAIMERS[mode]);
+
+  return (
+    <div className="flex flex-col min-h-screen bg-slate-50 dark:bg-slate-950">
+      {/* Header */}
+      <div className="border-b bg-white dark:bg-slate-900 px-6 py-4">
+        <h1 className="text-xl font-semibold">{shared.title}</h1>
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Shared conversation (read-only)
+          {shared.expiresAt && ` · available until ${new Date(shared.expiresAt).toLocaleDateString()}`}
+        </p>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 p-6 space-y-4 max-w-4xl w-full mx-auto">
+        {shared.messages.map((message) => (
+          <ChatMessage key={message.id} message={message} />
+        ))}
+      </div>
+
+      {/* Disclaimers */}
+      <div className="px-6 py-3 bg-blue-50 dark:bg-blue-950 border-t text-xs text-blue-900 dark:text-blue-100 space-y-1">
+        <p>
+          <strong>Disclaimer:</strong> {DISCLAIMERS.general}
+        </p>
+        {modeDisclaimers.map((disclaimer) => (
+          <p key={disclaimer}>{disclaimer}</p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+CREATE TABLE `knowledgeBase` (
+	`id` varchar(128) NOT NULL,
+	`url` varchar(2048) NOT NULL,
+	`title` varchar(512) NOT NULL,
+	`section` varchar(255) NOT NULL,
+	`category` varchar(128) NOT NULL,
+	`language` varchar(10) NOT NULL,
+	`content` mediumtext NOT NULL,
+	`lastUpdated` timestamp NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `knowledgeBase_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `knowledgeBaseChunks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` varchar(128) NOT NULL,
+	`chunkIndex` int NOT NULL,
+	`content` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `knowledgeBaseChunks_id` PRIMARY KEY(`id`),
+	CONSTRAINT `knowledgeBaseChunks_document_chunk_idx` UNIQUE(`documentId`,`chunkIndex`)
+);
+--> statement-breakpoint
+CREATE TABLE `knowledgeBaseLanguages` (
+	`code` varchar(10) NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `knowledgeBaseLanguages_code` PRIMARY KEY(`code`)
+);
+--> statement-breakpoint
+ALTER TABLE `knowledgeBase` ADD CONSTRAINT `knowledgeBase_language_knowledgeBaseLanguages_code_fk` FOREIGN KEY (`language`) REFERENCES `knowledgeBaseLanguages`(`code`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `knowledgeBaseChunks` ADD CONSTRAINT `knowledgeBaseChunks_documentId_knowledgeBase_id_fk` FOREIGN KEY (`documentId`) REFERENCES `knowledgeBase`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
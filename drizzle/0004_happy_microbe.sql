@@ -0,0 +1,31 @@
+CREATE TABLE `crawlPages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`url` varchar(2048) NOT NULL,
+	`urlHash` varchar(64) NOT NULL,
+	`category` varchar(128) NOT NULL,
+	`language` varchar(10) NOT NULL,
+	`etag` varchar(255),
+	`lastModified` varchar(64),
+	`contentHash` varchar(64),
+	`lastStatus` enum('changed','unchanged','failed'),
+	`lastError` text,
+	`lastFetchedAt` timestamp,
+	`lastChangedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `crawlPages_id` PRIMARY KEY(`id`),
+	CONSTRAINT `crawlPages_urlHash_unique` UNIQUE(`urlHash`)
+);
+--> statement-breakpoint
+CREATE TABLE `crawlRuns` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`status` enum('running','completed','failed') NOT NULL DEFAULT 'running',
+	`fetched` int NOT NULL DEFAULT 0,
+	`unchanged` int NOT NULL DEFAULT 0,
+	`changed` int NOT NULL DEFAULT 0,
+	`failed` int NOT NULL DEFAULT 0,
+	`errors` text,
+	`startedAt` timestamp NOT NULL DEFAULT (now()),
+	`finishedAt` timestamp,
+	CONSTRAINT `crawlRuns_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,20 @@
+CREATE TABLE `legalArticles` (
+	`id` varchar(128) NOT NULL,
+	`eliUri` varchar(512) NOT NULL,
+	`url` varchar(2048) NOT NULL,
+	`documentTitle` varchar(512) NOT NULL,
+	`articleNumber` varchar(32) NOT NULL,
+	`livre` varchar(512),
+	`titre` varchar(512),
+	`chapitre` varchar(512),
+	`section` varchar(1024),
+	`content` mediumtext NOT NULL,
+	`language` varchar(10) NOT NULL,
+	`versionDate` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `legalArticles_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `legalArticles_eliUri_idx` ON `legalArticles` (`eliUri`);--> statement-breakpoint
+CREATE INDEX `legalArticles_articleNumber_idx` ON `legalArticles` (`articleNumber`);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `retrievalCache` (
+	`queryHash` varchar(64) NOT NULL,
+	`source` enum('guichet','legal','mixed') NOT NULL,
+	`results` mediumtext NOT NULL,
+	`ttlHours` int NOT NULL,
+	`cachedAt` timestamp NOT NULL DEFAULT (now()),
+	`lastAccessedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `retrievalCache_queryHash` PRIMARY KEY(`queryHash`)
+);
+--> statement-breakpoint
+CREATE INDEX `retrievalCache_lastAccessedAt_idx` ON `retrievalCache` (`lastAccessedAt`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `messageSources` ADD `evidenceId` varchar(128);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `conversations` ADD `pipeline` enum('single','agents') DEFAULT 'single' NOT NULL;--> statement-breakpoint
+ALTER TABLE `messageSources` ADD `section` varchar(255);--> statement-breakpoint
+ALTER TABLE `messageSources` ADD `snippet` text;
\ No newline at end of file
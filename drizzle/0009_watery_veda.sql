@@ -0,0 +1,22 @@
+CREATE TABLE `llmUsage` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`messageId` int,
+	`conversationId` int,
+	`userId` int,
+	`externalSiteKey` varchar(128),
+	`profile` enum('router','specialist','synthesis') NOT NULL,
+	`provider` varchar(64) NOT NULL,
+	`model` varchar(128) NOT NULL,
+	`promptTokens` int NOT NULL,
+	`completionTokens` int NOT NULL,
+	`estimatedCost` double NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `llmUsage_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `llmUsage` ADD CONSTRAINT `llmUsage_messageId_messages_id_fk` FOREIGN KEY (`messageId`) REFERENCES `messages`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `llmUsage` ADD CONSTRAINT `llmUsage_conversationId_conversations_id_fk` FOREIGN KEY (`conversationId`) REFERENCES `conversations`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `llmUsage` ADD CONSTRAINT `llmUsage_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `llmUsage_createdAt_idx` ON `llmUsage` (`createdAt`);--> statement-breakpoint
+CREATE INDEX `llmUsage_externalSiteKey_idx` ON `llmUsage` (`externalSiteKey`);--> statement-breakpoint
+CREATE INDEX `llmUsage_conversationId_idx` ON `llmUsage` (`conversationId`);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `usageLimits` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int,
+	`externalSiteKey` varchar(128),
+	`monthlyTokenBudget` int,
+	`monthlyCostBudget` double,
+	`dailyMessageQuota` int,
+	`warningRatio` double,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `usageLimits_id` PRIMARY KEY(`id`),
+	CONSTRAINT `usageLimits_userId_unique` UNIQUE(`userId`),
+	CONSTRAINT `usageLimits_externalSiteKey_unique` UNIQUE(`externalSiteKey`)
+);
+--> statement-breakpoint
+ALTER TABLE `usageLimits` ADD CONSTRAINT `usageLimits_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `auditLogs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int,
+	`conversationId` int,
+	`messageId` int,
+	`externalSiteKey` varchar(128),
+	`pipeline` enum('single','agents') NOT NULL,
+	`question` text NOT NULL,
+	`language` varchar(10) NOT NULL,
+	`intent` varchar(32) NOT NULL,
+	`plan` text,
+	`response` mediumtext NOT NULL,
+	`agentsCalled` varchar(255) NOT NULL,
+	`costTokens` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `auditLogs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `auditLogs` ADD CONSTRAINT `auditLogs_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `auditLogs` ADD CONSTRAINT `auditLogs_conversationId_conversations_id_fk` FOREIGN KEY (`conversationId`) REFERENCES `conversations`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `auditLogs` ADD CONSTRAINT `auditLogs_messageId_messages_id_fk` FOREIGN KEY (`messageId`) REFERENCES `messages`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `auditLogs_createdAt_idx` ON `auditLogs` (`createdAt`);--> statement-breakpoint
+CREATE INDEX `auditLogs_intent_language_idx` ON `auditLogs` (`intent`,`language`);
\ No newline at end of file
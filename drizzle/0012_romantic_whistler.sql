@@ -0,0 +1,4 @@
+ALTER TABLE `conversationShares` MODIFY COLUMN `sharedWithUserId` int;--> statement-breakpoint
+ALTER TABLE `conversationShares` ADD `token` varchar(64);--> statement-breakpoint
+ALTER TABLE `conversationShares` ADD `expiresAt` timestamp;--> statement-breakpoint
+ALTER TABLE `conversationShares` ADD CONSTRAINT `conversationShares_token_unique` UNIQUE(`token`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `messages` ADD `response` mediumtext;
\ No newline at end of file
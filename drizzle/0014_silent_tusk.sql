@@ -0,0 +1,2 @@
+ALTER TABLE `messages` ADD `senderUserId` int;--> statement-breakpoint
+ALTER TABLE `messages` ADD CONSTRAINT `messages_senderUserId_users_id_fk` FOREIGN KEY (`senderUserId`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE `legalCorpusRevision` (
+	`id` int NOT NULL,
+	`revision` int NOT NULL DEFAULT 0,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `legalCorpusRevision_id` PRIMARY KEY(`id`)
+);
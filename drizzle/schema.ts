@@ -1,4 +1,15 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import {
+  double,
+  index,
+  int,
+  mediumtext,
+  mysqlEnum,
+  mysqlTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -35,6 +46,8 @@ export const conversations = mysqlTable("conversations", {
   externalSiteKey: varchar("externalSiteKey", { length: 128 }),
   title: varchar("title", { length: 255 }).default("New Conversation"),
   language: varchar("language", { length: 10 }).default("en"),
+  /** Answering pipeline: single LLM call ("single") or orchestrator + specialist agents ("agents") */
+  pipeline: mysqlEnum("pipeline", ["single", "agents"]).default("single").notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -52,8 +65,12 @@ export const messages = mysqlTable("messages", {
     .notNull()
     .references(() => conversations.id, { onDelete: "cascade" }),
   sender: mysqlEnum("sender", ["user", "assistant", "system"]).notNull(),
+  /** User messages: who asked, which on a shared conversation may not be its owner */
+  senderUserId: int("senderUserId").references(() => users.id, { onDelete: "set null" }),
   content: text("content").notNull(),
   mode: mysqlEnum("mode", ["procedural", "legal", "ai_innovation"]),
+  /** Assistant messages: the full structured answer with its evidence (ChatResponse JSON) */
+  response: mediumtext("response"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -72,6 +89,11 @@ export const messageSources = mysqlTable("messageSources", {
   sourceTitle: varchar("sourceTitle", { length: 255 }).notNull(),
   sourceUrl: varchar("sourceUrl", { length: 2048 }).notNull(),
   sourceType: mysqlEnum("sourceType", ["guichet", "official", "other"]).default("other"),
+  /** Stable evidence_id of the cited passage (knowledge base document or legal article id) */
+  evidenceId: varchar("evidenceId", { length: 128 }),
+  /** Section and snippet of the evidence, so citations can be rebuilt from stored sources */
+  section: varchar("section", { length: 255 }),
+  snippet: text("snippet"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -89,7 +111,7 @@ export const integrations = mysqlTable("integrations", {
     .references(() => users.id, { onDelete: "cascade" }),
   siteName: varchar("siteName", { length: 255 }).notNull(),
   siteKey: varchar("siteKey", { length: 128 }).notNull().unique(),
-  config: text("config"), // JSON: { primaryColor, logo, defaultLanguage, defaultMode }
+  config: text("config"), // JSON: { primaryColor, logo, defaultLanguage, defaultMode, defaultPipeline }
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -132,19 +154,289 @@ export type InsertUserPreference = typeof userPreferences.$inferInsert;
 
 /**
  * Conversation sharing table for managing shared access to conversations.
- * Allows conversation owners to explicitly share conversations with other users.
+ * Allows conversation owners to explicitly share conversations with other users,
+ * or with anyone holding a public link: link shares have a token instead of a user
+ * and are always read-only.
  */
 export const conversationShares = mysqlTable("conversationShares", {
   id: int("id").autoincrement().primaryKey(),
   conversationId: int("conversationId")
     .notNull()
     .references(() => conversations.id, { onDelete: "cascade" }),
-  sharedWithUserId: int("sharedWithUserId")
-    .notNull()
-    .references(() => users.id, { onDelete: "cascade" }),
+  sharedWithUserId: int("sharedWithUserId").references(() => users.id, { onDelete: "cascade" }),
   permission: mysqlEnum("permission", ["view", "edit", "admin"]).default("view").notNull(),
+  /** Public links only */
+  token: varchar("token", { length: 64 }).unique(),
+  expiresAt: timestamp("expiresAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type ConversationShare = typeof conversationShares.$inferSelect;
-export type InsertConversationShare = typeof conversationShares.$inferInsert;
\ No newline at end of file
+export type InsertConversationShare = typeof conversationShares.$inferInsert;
+
+/**
+ * Languages the knowledge base corpus is available in.
+ * Referenced by knowledge base documents so stats can be computed without scanning content.
+ */
+export const knowledgeBaseLanguages = mysqlTable("knowledgeBaseLanguages", {
+  code: varchar("code", { length: 10 }).primaryKey(),
+  name: varchar("name", { length: 64 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type KnowledgeBaseLanguage = typeof knowledgeBaseLanguages.$inferSelect;
+export type InsertKnowledgeBaseLanguage = typeof knowledgeBaseLanguages.$inferInsert;
+
+/**
+ * Knowledge base documents scraped from Guichet.lu.
+ * Shared by every server instance so the corpus survives restarts.
+ */
+export const knowledgeBase = mysqlTable("knowledgeBase", {
+  /** Scraper-assigned identifier (GuichetContent.id). */
+  id: varchar("id", { length: 128 }).primaryKey(),
+  url: varchar("url", { length: 2048 }).notNull(),
+  title: varchar("title", { length: 512 }).notNull(),
+  section: varchar("section", { length: 255 }).notNull(),
+  category: varchar("category", { length: 128 }).notNull(),
+  language: varchar("language", { length: 10 })
+    .notNull()
+    .references(() => knowledgeBaseLanguages.code),
+  content: mediumtext("content").notNull(),
+  lastUpdated: timestamp("lastUpdated").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type KnowledgeBaseDocument = typeof knowledgeBase.$inferSelect;
+export type InsertKnowledgeBaseDocument = typeof knowledgeBase.$inferInsert;
+
+/**
+ * Paragraph-level chunks of knowledge base documents.
+ * Rewritten whenever the parent document is upserted.
+ */
+export const knowledgeBaseChunks = mysqlTable(
+  "knowledgeBaseChunks",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    documentId: varchar("documentId", { length: 128 })
+      .notNull()
+      .references(() => knowledgeBase.id, { onDelete: "cascade" }),
+    chunkIndex: int("chunkIndex").notNull(),
+    content: text("content").notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("knowledgeBaseChunks_document_chunk_idx").on(table.documentId, table.chunkIndex),
+  ]
+);
+
+export type KnowledgeBaseChunk = typeof knowledgeBaseChunks.$inferSelect;
+export type InsertKnowledgeBaseChunk = typeof knowledgeBaseChunks.$inferInsert;
+
+/**
+ * Revision of the knowledge base, incremented with every write to it.
+ * A single row; instances reload their snapshot when it moves on.
+ */
+export const knowledgeBaseRevision = mysqlTable("knowledgeBaseRevision", {
+  id: int("id").primaryKey(),
+  revision: int("revision").notNull().default(0),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+/**
+ * Pages tracked by the crawl scheduler.
+ * Stores HTTP validators and a content hash so unchanged pages are skipped.
+ */
+export const crawlPages = mysqlTable("crawlPages", {
+  id: int("id").autoincrement().primaryKey(),
+  url: varchar("url", { length: 2048 }).notNull(),
+  /** sha256 of the URL; URLs are too long to index directly */
+  urlHash: varchar("urlHash", { length: 64 }).notNull().unique(),
+  category: varchar("category", { length: 128 }).notNull(),
+  language: varchar("language", { length: 10 }).notNull(),
+  etag: varchar("etag", { length: 255 }),
+  lastModified: varchar("lastModified", { length: 64 }),
+  /** Hash of the page's passage ids, i.e. of everything we index */
+  contentHash: varchar("contentHash", { length: 64 }),
+  lastStatus: mysqlEnum("lastStatus", ["changed", "unchanged", "failed"]),
+  lastError: text("lastError"),
+  lastFetchedAt: timestamp("lastFetchedAt"),
+  lastChangedAt: timestamp("lastChangedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type CrawlPage = typeof crawlPages.$inferSelect;
+export type InsertCrawlPage = typeof crawlPages.$inferInsert;
+
+/**
+ * Crawl history: one row per scheduler run with per-outcome page counts.
+ */
+export const crawlRuns = mysqlTable("crawlRuns", {
+  id: int("id").autoincrement().primaryKey(),
+  status: mysqlEnum("status", ["running", "completed", "failed"]).default("running").notNull(),
+  fetched: int("fetched").default(0).notNull(),
+  unchanged: int("unchanged").default(0).notNull(),
+  changed: int("changed").default(0).notNull(),
+  failed: int("failed").default(0).notNull(),
+  errors: text("errors"), // JSON: [{ url, error }]
+  startedAt: timestamp("startedAt").defaultNow().notNull(),
+  finishedAt: timestamp("finishedAt"),
+});
+
+export type CrawlRun = typeof crawlRuns.$inferSelect;
+export type InsertCrawlRun = typeof crawlRuns.$inferInsert;
+
+/**
+ * Articles of consolidated legal texts ingested from Legilux (Code du travail).
+ * Re-ingesting a text replaces all of its articles.
+ */
+export const legalArticles = mysqlTable(
+  "legalArticles",
+  {
+    /** Ingester-assigned identifier (LegalArticle.id). */
+    id: varchar("id", { length: 128 }).primaryKey(),
+    eliUri: varchar("eliUri", { length: 512 }).notNull(),
+    url: varchar("url", { length: 2048 }).notNull(),
+    documentTitle: varchar("documentTitle", { length: 512 }).notNull(),
+    /** Normalised article number, e.g. "L.121-1" */
+    articleNumber: varchar("articleNumber", { length: 32 }).notNull(),
+    livre: varchar("livre", { length: 512 }),
+    titre: varchar("titre", { length: 512 }),
+    chapitre: varchar("chapitre", { length: 512 }),
+    section: varchar("section", { length: 1024 }),
+    content: mediumtext("content").notNull(),
+    language: varchar("language", { length: 10 }).notNull(),
+    /** Date of the consolidated version the article was taken from */
+    versionDate: timestamp("versionDate"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    index("legalArticles_eliUri_idx").on(table.eliUri),
+    index("legalArticles_articleNumber_idx").on(table.articleNumber),
+  ]
+);
+
+export type LegalArticleRow = typeof legalArticles.$inferSelect;
+export type InsertLegalArticleRow = typeof legalArticles.$inferInsert;
+
+/**
+ * Revision of the legal corpus, incremented with every re-ingested text.
+ * A single row; instances reload their snapshot when it moves on.
+ */
+export const legalCorpusRevision = mysqlTable("legalCorpusRevision", {
+  id: int("id").primaryKey(),
+  revision: int("revision").notNull().default(0),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+/**
+ * Retrieval results shared between server instances (CachedRetrieval rows).
+ * Bounded by the cache: least recently used rows are evicted first.
+ */
+export const retrievalCache = mysqlTable(
+  "retrievalCache",
+  {
+    /** sha256 of source, language and normalised query */
+    queryHash: varchar("queryHash", { length: 64 }).primaryKey(),
+    source: mysqlEnum("source", ["guichet", "legal", "mixed"]).notNull(),
+    results: mediumtext("results").notNull(), // JSON: RetrievalResult[]
+    ttlHours: int("ttlHours").notNull(),
+    cachedAt: timestamp("cachedAt").defaultNow().notNull(),
+    lastAccessedAt: timestamp("lastAccessedAt").defaultNow().notNull(),
+  },
+  (table) => [index("retrievalCache_lastAccessedAt_idx").on(table.lastAccessedAt)]
+);
+
+export type RetrievalCacheRow = typeof retrievalCache.$inferSelect;
+export type InsertRetrievalCacheRow = typeof retrievalCache.$inferInsert;
+
+/**
+ * One row per LLM call: tokens, model and estimated cost, attributed to the
+ * message, conversation, user and integration (site key) it was made for.
+ */
+export const llmUsage = mysqlTable(
+  "llmUsage",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    messageId: int("messageId").references(() => messages.id, { onDelete: "set null" }),
+    conversationId: int("conversationId").references(() => conversations.id, { onDelete: "set null" }),
+    userId: int("userId").references(() => users.id, { onDelete: "set null" }),
+    externalSiteKey: varchar("externalSiteKey", { length: 128 }),
+    profile: mysqlEnum("profile", ["router", "specialist", "synthesis"]).notNull(),
+    provider: varchar("provider", { length: 64 }).notNull(),
+    model: varchar("model", { length: 128 }).notNull(),
+    promptTokens: int("promptTokens").notNull(),
+    completionTokens: int("completionTokens").notNull(),
+    /** USD, from the per-model prices in server/llm/usage.ts */
+    estimatedCost: double("estimatedCost").notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [
+    index("llmUsage_createdAt_idx").on(table.createdAt),
+    index("llmUsage_externalSiteKey_idx").on(table.externalSiteKey),
+    index("llmUsage_conversationId_idx").on(table.conversationId),
+  ]
+);
+
+export type LLMUsageRow = typeof llmUsage.$inferSelect;
+export type InsertLLMUsageRow = typeof llmUsage.$inferInsert;
+
+/**
+ * LLM budgets and message quotas for one user or one integration (site key).
+ * Null columns fall back to the defaults from the environment; 0 means unlimited.
+ */
+export const usageLimits = mysqlTable("usageLimits", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId")
+    .unique()
+    .references(() => users.id, { onDelete: "cascade" }),
+  externalSiteKey: varchar("externalSiteKey", { length: 128 }).unique(),
+  /** Prompt + completion tokens per calendar month (UTC) */
+  monthlyTokenBudget: int("monthlyTokenBudget"),
+  /** Estimated USD per calendar month (UTC) */
+  monthlyCostBudget: double("monthlyCostBudget"),
+  /** Questions per day (UTC) */
+  dailyMessageQuota: int("dailyMessageQuota"),
+  /** Share of a limit (0-1) from which answers carry a warning */
+  warningRatio: double("warningRatio"),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type UsageLimitsRow = typeof usageLimits.$inferSelect;
+export type InsertUsageLimitsRow = typeof usageLimits.$inferInsert;
+
+/**
+ * Audit trail of answered questions, kept when conversations are deleted.
+ * Plan, response and agents are JSON: the orchestrator plan (agents pipeline
+ * only), the full ChatResponse and the agents that answered.
+ */
+export const auditLogs = mysqlTable(
+  "auditLogs",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").references(() => users.id, { onDelete: "set null" }),
+    conversationId: int("conversationId").references(() => conversations.id, { onDelete: "set null" }),
+    messageId: int("messageId").references(() => messages.id, { onDelete: "set null" }),
+    externalSiteKey: varchar("externalSiteKey", { length: 128 }),
+    pipeline: mysqlEnum("pipeline", ["single", "agents"]).notNull(),
+    question: text("question").notNull(),
+    language: varchar("language", { length: 10 }).notNull(),
+    /** Orchestrator intent (procedural, legal, mixed) or the expertise mode of a single LLM answer */
+    intent: varchar("intent", { length: 32 }).notNull(),
+    plan: text("plan"),
+    response: mediumtext("response").notNull(),
+    agentsCalled: varchar("agentsCalled", { length: 255 }).notNull(),
+    /** Prompt + completion tokens of the turn's LLM calls */
+    costTokens: int("costTokens").notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [
+    index("auditLogs_createdAt_idx").on(table.createdAt),
+    index("auditLogs_intent_language_idx").on(table.intent, table.language),
+  ]
+);
+
+export type AuditLogRow = typeof auditLogs.$inferSelect;
+export type InsertAuditLogRow = typeof auditLogs.$inferInsert;
@@ -7,4 +7,35 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  embeddingApiUrl: process.env.EMBEDDING_API_URL ?? "",
+  embeddingApiKey: process.env.EMBEDDING_API_KEY ?? "",
+  embeddingModel: process.env.EMBEDDING_MODEL ?? "text-embedding-3-small",
+  embeddingDimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || "1536"),
+  /** Comma-separated ELI URIs to ingest; defaults to the Code du travail */
+  legiluxEliUris: process.env.LEGILUX_ELI_URIS ?? "",
+  /** "memory" (per instance, default) or "db" (shared retrievalCache table) */
+  retrievalCacheBackend: process.env.RETRIEVAL_CACHE_BACKEND ?? "memory",
+  retrievalCacheMaxEntries: parseInt(process.env.RETRIEVAL_CACHE_MAX_ENTRIES || "1000"),
+  crawlIntervalHours: parseFloat(process.env.KB_CRAWL_INTERVAL_HOURS || "24"),
+  deepseekApiKey: process.env.DEEPSEEK_API_KEY ?? "",
+  /** Base URL of an OpenAI-compatible local server (e.g. the test stub or a self-hosted model) */
+  llmLocalUrl: process.env.LLM_LOCAL_URL ?? "",
+  llmLocalApiKey: process.env.LLM_LOCAL_API_KEY ?? "",
+  /** Model profiles: comma-separated provider:model targets, tried in order */
+  llmRouterModels: process.env.LLM_ROUTER_MODELS ?? "deepseek:deepseek-chat,forge:gemini-2.5-flash",
+  llmSpecialistModels: process.env.LLM_SPECIALIST_MODELS ?? "forge:gemini-2.5-flash,deepseek:deepseek-chat",
+  llmSynthesisModels: process.env.LLM_SYNTHESIS_MODELS ?? "deepseek:deepseek-chat,forge:gemini-2.5-flash",
+  llmMaxRetries: parseInt(process.env.LLM_MAX_RETRIES || "2"),
+  llmTimeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || "60000"),
+  /** Let an LLM judge check answer sentences that share too few words with the evidence */
+  groundingJudge: process.env.GROUNDING_JUDGE === "true",
+  /** Default limits for users and integrations without their own; 0 means unlimited */
+  userDailyMessageQuota: parseInt(process.env.USER_DAILY_MESSAGE_QUOTA || "0"),
+  userMonthlyTokenBudget: parseInt(process.env.USER_MONTHLY_TOKEN_BUDGET || "0"),
+  userMonthlyCostBudget: parseFloat(process.env.USER_MONTHLY_COST_BUDGET || "0"),
+  integrationDailyMessageQuota: parseInt(process.env.INTEGRATION_DAILY_MESSAGE_QUOTA || "0"),
+  integrationMonthlyTokenBudget: parseInt(process.env.INTEGRATION_MONTHLY_TOKEN_BUDGET || "0"),
+  integrationMonthlyCostBudget: parseFloat(process.env.INTEGRATION_MONTHLY_COST_BUDGET || "0"),
+  /** Share of a limit from which answers carry a warning; 0 turns warnings off */
+  usageWarningRatio: parseFloat(process.env.USAGE_WARNING_RATIO || "0.8"),
 };
@@ -8,6 +8,9 @@ import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic } from "./vite";
 import { initializeKnowledgeBase } from "../init-knowledge-base";
+import { initializeLegalCorpus } from "../init-legal-corpus";
+import { startCrawlScheduler } from "../scrapers/scheduler";
+import { ENV } from "./env";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -31,6 +34,15 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 async function startServer() {
   // Initialize knowledge base on startup
   await initializeKnowledgeBase();
+  await initializeLegalCorpus();
+
+  // Discover and keep in sync the Guichet.lu pages below the seed sections (0 disables crawling)
+  if (ENV.crawlIntervalHours > 0) {
+    startCrawlScheduler({
+      intervalMs: ENV.crawlIntervalHours * 60 * 60 * 1000,
+      runImmediately: true,
+    });
+  }
 
   const app = express();
   const server = createServer(app);
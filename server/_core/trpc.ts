@@ -2,9 +2,20 @@ import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import { UsageLimitError } from "../llm/budget";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Structured, localised notices when a budget or quota refused the request
+        usageNotices: error.cause instanceof UsageLimitError ? error.cause.notices : null,
+      },
+    };
+  },
 });
 
 export const router = t.router;
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { scoreConfidence } from "./confidence";
+
+describe("confidence scorer", () => {
+  it("applies the CONFIDENCE_RULES evidence thresholds", () => {
+    expect(scoreConfidence({ relevances: [0.9, 0.85, 0.3] })).toEqual({
+      level: "high",
+      reasons: ["2 evidence passages have a relevance of at least 0.8."],
+    });
+    expect(scoreConfidence({ relevances: [0.9, 0.7] })).toEqual({
+      level: "medium",
+      reasons: [
+        "2 evidence passages have a relevance of at least 0.6; high confidence needs 2 at 0.8 or more.",
+      ],
+    });
+    expect(scoreConfidence({ relevances: [0.55, 0.42] })).toEqual({
+      level: "low",
+      reasons: ["No evidence passage reaches a relevance of 0.6 (best: 0.55)."],
+    });
+    expect(scoreConfidence({ relevances: [] }).reasons).toEqual(["No evidence was found for this answer."]);
+  });
+
+  it("caps answers whose sources disagree at medium", () => {
+    const assessment = scoreConfidence({
+      relevances: [0.95, 0.9],
+      conflicts: ["Sources cite different versions of Art. L.121-4."],
+    });
+
+    expect(assessment.level).toBe("medium");
+    expect(assessment.reasons).toContain("The sources disagree on part of the answer.");
+  });
+
+  it("lowers the level with the share of unsupported statements", () => {
+    expect(scoreConfidence({ relevances: [0.9, 0.9], unsupportedRatio: 0.2 }).level).toBe("high");
+    expect(scoreConfidence({ relevances: [0.9, 0.9], unsupportedRatio: 0.4 }).level).toBe("medium");
+    expect(scoreConfidence({ relevances: [0.7], unsupportedRatio: 0.4 }).level).toBe("low");
+
+    const mostlyUnsupported = scoreConfidence({ relevances: [0.9, 0.9], unsupportedRatio: 0.75 });
+    expect(mostlyUnsupported.level).toBe("low");
+    expect(mostlyUnsupported.reasons).toContain("75% of the answer's statements are not supported by the evidence.");
+  });
+
+  it("respects the pipeline's caps and explains them", () => {
+    const assessment = scoreConfidence({
+      relevances: [0.9, 0.9],
+      caps: [{ level: "medium", reason: "Some sources did not respond in time." }],
+    });
+
+    expect(assessment).toEqual({
+      level: "medium",
+      reasons: [
+        "2 evidence passages have a relevance of at least 0.8.",
+        "Some sources did not respond in time.",
+      ],
+    });
+  });
+});
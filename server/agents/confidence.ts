@@ -0,0 +1,98 @@
+/**
+ * Confidence scorer - Rates an answer by the evidence behind it
+ * The level comes from CONFIDENCE_RULES (how many passages reach a relevance),
+ * then source disagreement, unsupported statements and pipeline limits can
+ * lower it. Every step adds a reason the UI can show.
+ */
+
+import { CONFIDENCE_RULES, type ConfidenceLevel } from "@shared/types-independent";
+
+export interface ConfidenceSignals {
+  /** Relevance in [0, 1] of each evidence passage the answer relies on */
+  relevances: number[];
+  /** Conflicts detected between the sources */
+  conflicts?: string[];
+  /** Share of the answer's statements no evidence supports */
+  unsupportedRatio?: number;
+  /** Upper bounds set by the pipeline (e.g. a stage that timed out) */
+  caps?: Array<{ level: ConfidenceLevel; reason: string }>;
+}
+
+export interface ConfidenceAssessment {
+  level: ConfidenceLevel;
+  reasons: string[];
+}
+
+const LEVELS: ConfidenceLevel[] = ["low", "medium", "high"];
+
+function lower(a: ConfidenceLevel, b: ConfidenceLevel): ConfidenceLevel {
+  return LEVELS.indexOf(a) <= LEVELS.indexOf(b) ? a : b;
+}
+
+function passages(count: number): string {
+  return count === 1 ? "1 evidence passage has" : `${count} evidence passages have`;
+}
+
+/**
+ * Highest CONFIDENCE_RULES level whose evidence count and relevance are met
+ */
+function levelFromEvidence(relevances: number[]): ConfidenceAssessment {
+  const reaching = (min: number) => relevances.filter((r) => r >= min).length;
+  const { high, medium } = CONFIDENCE_RULES;
+
+  const strong = reaching(high.min_relevance);
+  if (strong >= high.min_evidence) {
+    return {
+      level: "high",
+      reasons: [`${passages(strong)} a relevance of at least ${high.min_relevance}.`],
+    };
+  }
+
+  const relevant = reaching(medium.min_relevance);
+  if (relevant >= medium.min_evidence) {
+    return {
+      level: "medium",
+      reasons: [
+        `${passages(relevant)} a relevance of at least ${medium.min_relevance}; high confidence needs ${high.min_evidence} at ${high.min_relevance} or more.`,
+      ],
+    };
+  }
+
+  if (relevances.length === 0) {
+    return { level: "low", reasons: ["No evidence was found for this answer."] };
+  }
+  return {
+    level: "low",
+    reasons: [
+      `No evidence passage reaches a relevance of ${medium.min_relevance} (best: ${Math.max(...relevances).toFixed(2)}).`,
+    ],
+  };
+}
+
+/**
+ * Score an answer's confidence and explain it
+ * Disagreeing sources cap it at medium; over a quarter of unsupported
+ * statements costs one level and over half means low.
+ */
+export function scoreConfidence(signals: ConfidenceSignals): ConfidenceAssessment {
+  const { level: fromEvidence, reasons } = levelFromEvidence(signals.relevances);
+  let level = fromEvidence;
+
+  if (signals.conflicts && signals.conflicts.length > 0) {
+    level = lower(level, "medium");
+    reasons.push("The sources disagree on part of the answer.");
+  }
+
+  const unsupported = signals.unsupportedRatio ?? 0;
+  if (unsupported > 0.25) {
+    level = unsupported > 0.5 ? "low" : LEVELS[Math.max(0, LEVELS.indexOf(level) - 1)]!;
+    reasons.push(`${Math.round(unsupported * 100)}% of the answer's statements are not supported by the evidence.`);
+  }
+
+  for (const cap of signals.caps ?? []) {
+    level = lower(level, cap.level);
+    reasons.push(cap.reason);
+  }
+
+  return { level, reasons };
+}
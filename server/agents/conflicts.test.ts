@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { detectConflicts } from "./conflicts";
+import type { Evidence } from "@shared/types-independent";
+
+function guichet(evidence_id: string, snippet: string): Evidence {
+  return {
+    evidence_id,
+    url: "https://guichet.public.lu/fr/citoyens/travail/licenciement/preavis.html",
+    title: "Préavis",
+    section: "Durée",
+    snippet,
+    source: "guichet",
+    retrieved_at: "2026-01-16",
+  };
+}
+
+function legal(evidence_id: string, snippet: string, version_date: string, article_number = "L.124-4"): Evidence {
+  return {
+    evidence_id,
+    url: "https://legilux.public.lu/eli/etat/leg/code/travail/20250801",
+    title: "Code du travail",
+    section: `Art. ${article_number}`,
+    snippet,
+    source: "legal",
+    retrieved_at: "2026-01-16",
+    article_number,
+    version_date,
+  };
+}
+
+describe("conflict detection", () => {
+  it("flags a Guichet notice period the law contradicts and follows the law", () => {
+    const conflicts = detectConflicts([
+      guichet("g1", "With less than five years of service, the notice period is two months."),
+      legal("l1", "Le délai de préavis est de quatre mois pour le salarié de moins de cinq ans d'ancienneté.", "2025-08-01"),
+    ]);
+
+    expect(conflicts).toEqual([
+      {
+        topic: "notice period (seniority under 5 years)",
+        evidence_ids: ["g1", "l1"],
+        values: ["2 months", "4 months"],
+        authoritative_id: "l1",
+        message:
+          'Sources disagree on the notice period for seniority under 5 years: Guichet.lu ("Préavis") gives 2 months, Code du travail Art. L.124-4 gives 4 months. Follow the legal text (version of 2025-08-01).',
+      },
+    ]);
+  });
+
+  it("only compares figures given for the same seniority bracket", () => {
+    expect(
+      detectConflicts([
+        guichet("g1", "For employees with less than 5 years of seniority, the notice period is 2 months."),
+        legal(
+          "l1",
+          "Le délai de préavis est de quatre mois pour le salarié justifiant d'une ancienneté de services d'au moins cinq ans et de moins de dix ans.",
+          "2025-08-01"
+        ),
+      ])
+    ).toEqual([]);
+
+    const conflicts = detectConflicts([
+      guichet("g1", "The notice period is 2 months for less than 5 years of service, 4 months for 5 to 10 years of service."),
+      legal("l1", "Le délai de préavis est de six mois pour le salarié justifiant d'une ancienneté de services de cinq à moins de dix ans.", "2025-08-01"),
+    ]);
+    expect(conflicts.map((c) => [c.topic, c.values])).toEqual([
+      ["notice period (seniority of 5 to under 10 years)", ["4 months", "6 months"]],
+    ]);
+  });
+
+  it("keeps figures for different contract types, parties and ages apart", () => {
+    expect(
+      detectConflicts([
+        guichet("g1", "In case of resignation, the notice period is 1 month for less than 5 years of service."),
+        legal("l1", "En cas de licenciement, le délai de préavis est de deux mois pour une ancienneté inférieure à cinq ans.", "2025-08-01"),
+        guichet("g2", "The trial period of a fixed-term contract is at most 6 months."),
+        legal("l2", "La période d'essai du contrat à durée indéterminée ne peut excéder douze mois.", "2025-08-01", "L.121-5"),
+        guichet("g3", "Young workers under 18 are entitled to a minimum wage of EUR 2,162.99."),
+        legal("l3", "Le salaire social minimum est fixé à 2 703,74 euros.", "2025-08-01", "L.222-9"),
+      ])
+    ).toEqual([]);
+  });
+
+  it("does not flag passages that agree in different languages and notations", () => {
+    expect(
+      detectConflicts([
+        guichet("g1", "Le salaire social minimum s'élève à 2 703,74 euros par mois."),
+        guichet("g2", "Der Mindestlohn beträgt € 2.703,74 pro Monat."),
+        guichet("g3", "Sick employees must send a medical certificate within three days."),
+        legal("l1", "En cas de maladie, le certificat est remis au plus tard le troisième jour.", "2025-08-01", "L.121-6"),
+      ])
+    ).toEqual([]);
+  });
+
+  it("compares amounts and validity dates", () => {
+    const conflicts = detectConflicts([
+      guichet("g1", "From 1 January 2025, the minimum wage is EUR 2,637.79 per month."),
+      legal("l1", "Ab dem 1. Mai 2025 beträgt der Mindestlohn 2 703,74 EUR.", "2025-05-01", "L.222-9"),
+    ]);
+
+    expect(conflicts.map((c) => c.values)).toEqual([
+      ["from 2025-01-01", "from 2025-05-01"],
+      ["2637.79 EUR", "2703.74 EUR"],
+    ]);
+    expect(conflicts[0]!.authoritative_id).toBe("l1");
+    // Users see source names; the evidence ids are in the structured fields only
+    expect(conflicts[0]!.message).not.toMatch(/\b[gl]1\b/);
+  });
+
+  it("does not compare figures between two Guichet pages", () => {
+    expect(
+      detectConflicts([
+        guichet("g1", "The minimum wage is EUR 2,637.79 per month."),
+        guichet("g2", "Der Mindestlohn beträgt 2 703,74 EUR."),
+      ])
+    ).toEqual([]);
+  });
+
+  it("ignores numbers about different topics", () => {
+    expect(
+      detectConflicts([
+        guichet("g1", "The trial period lasts at most six months."),
+        guichet("g2", "Annual leave is 26 days per year."),
+      ])
+    ).toEqual([]);
+  });
+
+  it("prefers the newer version of the same article", () => {
+    const conflicts = detectConflicts([
+      legal("l1", "Le délai de préavis est de deux mois.", "2019-01-01"),
+      legal("l2", "Le délai de préavis est de deux mois.", "2025-08-01"),
+    ]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      topic: "Art. L.124-4",
+      evidence_ids: ["l1", "l2"],
+      authoritative_id: "l2",
+      message: "Sources cite different versions of Art. L.124-4: 2019-01-01 and 2025-08-01. Follow the version of 2025-08-01.",
+    });
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Conflict detection - Finds Guichet and Legilux passages that disagree
+ * Sentences are tagged with the topics they are about (from a small en/fr/de
+ * lexicon), the facts they state (durations, amounts, percentages and
+ * validity dates) and the conditions those facts apply under: a seniority or
+ * age bracket, a contract type, who gives notice. A Guichet and a Legilux
+ * passage conflict on a topic when, under the same conditions, their values
+ * for the same unit have nothing in common. Legal passages citing different
+ * consolidated versions of the same article conflict too.
+ */
+
+import { foldAccents } from "../search/analyzer";
+import type { Evidence, EvidenceConflict } from "@shared/types-independent";
+
+/** Topics and the folded words that mark them, in English, French and German */
+const TOPICS: Array<{ label: string; markers: string[] }> = [
+  { label: "notice period", markers: ["notice", "preavis", "kundigungsfrist"] },
+  { label: "trial period", markers: ["trial period", "probation", "periode d'essai", "probezeit"] },
+  { label: "annual leave", markers: ["annual leave", "paid leave", "conge annuel", "conge de recreation", "urlaub"] },
+  { label: "sick leave", markers: ["sick", "illness", "maladie", "incapacite de travail", "krank", "arbeitsunfahig"] },
+  { label: "minimum wage", markers: ["minimum wage", "salaire social minimum", "mindestlohn"] },
+  { label: "working time", markers: ["working hours", "working time", "duree de travail", "duree du travail", "arbeitszeit"] },
+  { label: "overtime", markers: ["overtime", "heures supplementaires", "uberstunden"] },
+  { label: "severance pay", markers: ["severance", "indemnite de depart", "abfindung"] },
+  { label: "maternity leave", markers: ["maternity", "maternite", "mutterschaft"] },
+  { label: "parental leave", markers: ["parental leave", "conge parental", "elternzeit", "elternurlaub"] },
+];
+
+type Unit = "day" | "week" | "month" | "year" | "hour" | "eur" | "percent" | "date";
+
+const UNIT_PATTERNS: Array<{ unit: Unit; pattern: string }> = [
+  { unit: "day", pattern: "days?|jours?|kalendertagen?|tagen?|tage" },
+  { unit: "week", pattern: "weeks?|semaines?|wochen?" },
+  { unit: "month", pattern: "months?|mois|monaten?|monate|monat" },
+  { unit: "year", pattern: "years?|annees?|ans?|jahren?|jahre|jahr" },
+  { unit: "hour", pattern: "hours?|heures?|stunden?" },
+  { unit: "eur", pattern: "€|eur|euros?" },
+  { unit: "percent", pattern: "%|percent|pour cent|prozent" },
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, sept: 7, huit: 8, neuf: 9, dix: 10, onze: 11, douze: 12,
+  ein: 1, eine: 1, einen: 1, zwei: 2, drei: 3, vier: 4, funf: 5, sechs: 6, sieben: 7, acht: 8, neun: 9, zehn: 10,
+  elf: 11, zwolf: 12,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 1, february: 2, march: 3, april: 4, may: 5, june: 6, july: 7, august: 8, september: 9, october: 10,
+  november: 11, december: 12,
+  janvier: 1, fevrier: 2, mars: 3, avril: 4, mai: 5, juin: 6, juillet: 7, aout: 8, septembre: 9, octobre: 10,
+  novembre: 11, decembre: 12,
+  januar: 1, februar: 2, marz: 3, juni: 6, juli: 7, oktober: 10, dezember: 12,
+};
+
+const NUMBER = `\\d+(?:[.,\\s]\\d{3})*(?:[.,]\\d+)?|${Object.keys(NUMBER_WORDS).join("|")}`;
+const YEARS = UNIT_PATTERNS.find((u) => u.unit === "year")!.pattern;
+const OTHER_UNITS = UNIT_PATTERNS.filter((u) => u.unit !== "year").map((u) => u.pattern).join("|");
+const QUANTITY = new RegExp(
+  `(?:\\b(${NUMBER})\\s*(${UNIT_PATTERNS.map((u) => u.pattern).join("|")})(?![a-z]))|(?:(?:€|\\beur)\\s*(\\d+(?:[.,\\s]\\d{3})*(?:[.,]\\d+)?))`,
+  "g"
+);
+
+/** "From", "as of", "in force"... directly before a date marks when a rule applies */
+const VALIDITY_MARKER =
+  "(?:from|since|as of|effective|valid from|in force (?:from|since)|a partir du|a compter du|depuis le|en vigueur (?:depuis )?le|ab dem|ab|seit dem|seit|gultig ab)";
+const MONTH_NAMES = Object.keys(MONTHS).join("|");
+const VALIDITY_DATE = new RegExp(
+  `\\b${VALIDITY_MARKER}\\s+(?:(\\d{4})-(\\d{2})-(\\d{2})|(\\d{1,2})[./](\\d{1,2})[./](\\d{4})|(\\d{1,2})(?:st|nd|rd|th|er)?\\.?\\s+(${MONTH_NAMES})\\s+(\\d{4})|(${MONTH_NAMES})\\s+(\\d{1,2}),?\\s+(\\d{4}))`,
+  "g"
+);
+
+/**
+ * Parse "2 703,74", "2,703.74", "2.703,74" or a number word
+ */
+function parseNumber(raw: string): number {
+  const text = raw.replace(/\s/g, "");
+  if (text in NUMBER_WORDS) return NUMBER_WORDS[text]!;
+
+  const lastSeparator = Math.max(text.lastIndexOf(","), text.lastIndexOf("."));
+  // A separator followed by exactly three digits groups thousands
+  const decimal = lastSeparator !== -1 && text.length - lastSeparator - 1 !== 3;
+  const integer = (decimal ? text.slice(0, lastSeparator) : text).replace(/[.,]/g, "");
+  return parseFloat(decimal ? `${integer}.${text.slice(lastSeparator + 1)}` : integer);
+}
+
+function isoDate(year: string | number, month: string | number, day: string | number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Conditions
+ */
+
+/** A bound in years, or without a unit ("under 18") when not followed by another unit or a month */
+const BOUND_NUMBER = `\\b(${NUMBER})`;
+const BOUND_UNIT = `(?:\\s*(${YEARS})(?![a-z])|(?![a-z])(?!\\.?\\s*(?:${OTHER_UNITS}|${MONTH_NAMES})(?![a-z])))`;
+const RANGE = new RegExp(
+  `\\b(?:between |entre |comprise entre |zwischen |from |de |von )?${BOUND_NUMBER}\\s*(?:${YEARS})?\\s+(?:and|et|und|to|a|bis) (?:less than |under |moins de |unter |weniger als )?${BOUND_NUMBER}\\s*(${YEARS})(?![a-z])`,
+  "g"
+);
+const LOWER = new RegExp(
+  `\\b(?:at least|au moins|mindestens|more than|over|plus de|mehr als|uber|after|apres|nach|from|des|a partir de|ab|(?:egale ou )?superieure a)\\s+${BOUND_NUMBER}${BOUND_UNIT}|${BOUND_NUMBER}\\s*(${YEARS})\\s+(?:or more|and more|au moins|ou plus|und mehr|oder mehr)\\b`,
+  "g"
+);
+const UPPER = new RegExp(
+  `\\b(?:less than|under|fewer than|below|moins de|inferieure a|unter|weniger als)\\s+${BOUND_NUMBER}${BOUND_UNIT}`,
+  "g"
+);
+
+const SENIORITY_MARKERS = /\b(?:seniority|services?|anciennete|betriebszugehorigkeit|dienstjahre?n?|dienstzeit)\b/;
+const AGE_MARKERS = /\b(?:age|aged|old|young|jeunes?|mineurs?|alter|alt|jugendliche[n]?|lebensjahr(?:es)?)\b/;
+
+/** Contract types and who gives notice, as alternatives of a condition */
+const CATEGORIES: Array<{ condition: string; options: Array<{ value: string; label: string; pattern: RegExp }> }> = [
+  {
+    condition: "contract",
+    options: [
+      {
+        value: "fixed-term",
+        label: "fixed-term contracts",
+        pattern: /\b(?:fixed[- ]term|cdd|(?<!in)determinee|(?<!un)befristet\w*)\b/,
+      },
+      {
+        value: "open-ended",
+        label: "open-ended contracts",
+        pattern: /\b(?:open[- ]ended|permanent contracts?|indefinite|cdi|indeterminee|unbefristet\w*)\b/,
+      },
+      { value: "apprenticeship", label: "apprenticeships", pattern: /\b(?:apprentic\w*|apprenti\w*|lehrling\w*|ausbildungsvertrag)\b/ },
+      { value: "student", label: "student jobs", pattern: /\b(?:students?|etudiants?|schuler\w*|studenten)\b/ },
+      { value: "agency", label: "temporary agency work", pattern: /\b(?:temporary agency|interim\w*|leiharbeit\w*)\b/ },
+    ],
+  },
+  {
+    condition: "party",
+    options: [
+      {
+        value: "employer",
+        label: "dismissal by the employer",
+        pattern: /\b(?:dismiss\w*|licenci\w*|by the employer|par l'employeur|durch den arbeitgeber|entlassung\w*)\b/,
+      },
+      {
+        value: "employee",
+        label: "resignation by the employee",
+        pattern: /\b(?:resign\w*|demission\w*|by the employee|par le salarie|durch den arbeitnehmer|eigenkundigung)\b/,
+      },
+    ],
+  },
+];
+
+interface Condition {
+  /** Stable form for comparing, e.g. "seniority:5-10" */
+  key: string;
+  label: string;
+}
+
+interface Bracket {
+  dimension: "seniority" | "age";
+  lower: number;
+  upper: number;
+}
+
+function bracketCondition({ dimension, lower, upper }: Bracket): Condition {
+  const years = (n: number) => `${n} ${n === 1 ? "year" : "years"}`;
+  const range =
+    upper === Infinity
+      ? `${dimension === "age" ? lower : years(lower)} or more`
+      : lower === 0
+        ? `under ${dimension === "age" ? upper : years(upper)}`
+        : `${lower} to under ${dimension === "age" ? upper : years(upper)}`;
+  return {
+    key: `${dimension}:${lower}-${upper === Infinity ? "" : upper}`,
+    label: dimension === "age" ? `employees aged ${range}` : `seniority of ${range}`.replace("of under", "under"),
+  };
+}
+
+/**
+ * The seniority or age bracket a clause states, with the text it spans blanked out
+ * Bounds are years of service unless the sentence is about age.
+ */
+function findBracket(clause: string, aboutAge: boolean): { bracket: Bracket | null; rest: string } {
+  let lower: number | null = null;
+  let upper: number | null = null;
+  let rest = clause;
+  const blank = (match: RegExpMatchArray) => {
+    rest = rest.slice(0, match.index!) + " ".repeat(match[0].length) + rest.slice(match.index! + match[0].length);
+  };
+
+  for (const match of Array.from(clause.matchAll(RANGE))) {
+    lower = parseNumber(match[1]!);
+    upper = parseNumber(match[2]!);
+    blank(match);
+  }
+  for (const match of Array.from(rest.matchAll(LOWER))) {
+    // Numbers without a unit ("more than 50 employees") are only ages in a sentence about age
+    if (!match[2] && !match[4] && !aboutAge) continue;
+    lower = Math.max(lower ?? 0, parseNumber((match[1] ?? match[3])!));
+    blank(match);
+  }
+  for (const match of Array.from(rest.matchAll(UPPER))) {
+    if (!match[2] && !aboutAge) continue;
+    upper = Math.min(upper ?? Infinity, parseNumber(match[1]!));
+    blank(match);
+  }
+
+  if (lower === null && upper === null) return { bracket: null, rest: clause };
+  return {
+    bracket: { dimension: aboutAge ? "age" : "seniority", lower: lower ?? 0, upper: upper ?? Infinity },
+    rest,
+  };
+}
+
+/**
+ * Contract type and who gives notice; a sentence naming two alternatives
+ * gets a condition matching neither, so it is compared with nothing
+ */
+function categoryConditions(sentence: string): Condition[] {
+  return CATEGORIES.flatMap(({ condition, options }) => {
+    const found = options.filter((o) => o.pattern.test(sentence));
+    if (found.length === 0) return [];
+    if (found.length > 1) return [{ key: `${condition}:mixed`, label: found.map((o) => o.label).join(" or ") }];
+    return [{ key: `${condition}:${found[0]!.value}`, label: found[0]!.label }];
+  });
+}
+
+/**
+ * Facts
+ */
+
+interface FactGroup {
+  topic: string;
+  conditions: Condition[];
+  values: Map<Unit, Set<string>>;
+}
+
+function extractValues(text: string): Array<{ unit: Unit; value: string }> {
+  const values: Array<{ unit: Unit; value: string }> = [];
+  for (const match of Array.from(text.matchAll(QUANTITY))) {
+    if (match[3]) {
+      values.push({ unit: "eur", value: String(parseNumber(match[3])) });
+      continue;
+    }
+    const unit = UNIT_PATTERNS.find((u) => new RegExp(`^(?:${u.pattern})$`).test(match[2]!))!.unit;
+    values.push({ unit, value: String(parseNumber(match[1]!)) });
+  }
+  for (const m of Array.from(text.matchAll(VALIDITY_DATE))) {
+    const value = m[1]
+      ? isoDate(m[1], m[2]!, m[3]!)
+      : m[6]
+        ? isoDate(m[6], m[5]!, m[4]!)
+        : m[9]
+          ? isoDate(m[9], MONTHS[m[8]!]!, m[7]!)
+          : isoDate(m[12]!, MONTHS[m[10]!]!, m[11]!);
+    values.push({ unit: "date", value });
+  }
+  return values;
+}
+
+function topicsOf(text: string): string[] {
+  return TOPICS.filter((t) => t.markers.some((m) => text.includes(m))).map((t) => t.label);
+}
+
+/**
+ * Values a passage gives each topic, by unit, grouped by the conditions they apply under
+ */
+function extractFacts(snippet: string): Map<string, FactGroup> {
+  const facts = new Map<string, FactGroup>();
+
+  // A full stop after a digit is kept inside the sentence: "ab dem 1. Januar 2024"
+  for (const sentence of foldAccents(snippet).split(/(?<=[^\d][.!?]|[!?])\s+/)) {
+    const sentenceTopics = topicsOf(sentence);
+    if (sentenceTopics.length === 0) continue;
+
+    const categories = categoryConditions(sentence);
+    const aboutAge = AGE_MARKERS.test(sentence) && !SENIORITY_MARKERS.test(sentence);
+    const clauses = sentence
+      .split(/;\s*|:\s+|,\s+|\n+\s*(?:[-•*]\s+)?/)
+      .map((clause) => ({ clause, ...findBracket(clause, aboutAge) }));
+
+    // With one bracket in the sentence it applies to every clause; with several,
+    // a clause without one belongs to the bracket before it (or the first one)
+    const bracketed = clauses.filter((c) => c.bracket);
+    const sentenceBracket = bracketed.length === 1 ? bracketed[0]!.bracket : null;
+    let current = bracketed[0]?.bracket ?? null;
+
+    for (const { clause, bracket, rest } of clauses) {
+      current = bracket ?? current;
+      const applies = bracketed.length > 1 ? current : sentenceBracket;
+      const conditions = [...categories, ...(applies ? [bracketCondition(applies)] : [])];
+      const values = extractValues(rest);
+      if (values.length === 0) continue;
+
+      // Clauses naming their own topic keep to it
+      const clauseTopics = topicsOf(clause);
+      for (const topic of clauseTopics.length > 0 ? clauseTopics : sentenceTopics) {
+        const key = [topic, ...conditions.map((c) => c.key).sort()].join("|");
+        const group = facts.get(key) ?? { topic, conditions, values: new Map<Unit, Set<string>>() };
+        for (const { unit, value } of values) {
+          group.values.set(unit, (group.values.get(unit) ?? new Set()).add(value));
+        }
+        facts.set(key, group);
+      }
+    }
+  }
+  return facts;
+}
+
+const UNIT_LABELS: Record<Unit, [string, string]> = {
+  day: ["day", "days"],
+  week: ["week", "weeks"],
+  month: ["month", "months"],
+  year: ["year", "years"],
+  hour: ["hour", "hours"],
+  eur: ["EUR", "EUR"],
+  percent: ["%", "%"],
+  date: ["", ""],
+};
+
+function describe(values: Set<string>, unit: Unit): string {
+  const list = Array.from(values).join(", ");
+  if (unit === "date") return `from ${list}`;
+  if (unit === "percent") return `${list}%`;
+  return `${list} ${UNIT_LABELS[unit][values.size === 1 && list === "1" ? 0 : 1]}`;
+}
+
+/**
+ * Conflicts
+ */
+
+/** How a passage is named to users, instead of its evidence id */
+function sourceName(evidence: Evidence): string {
+  if (evidence.source === "legal") {
+    return `${evidence.title}${evidence.article_number ? ` Art. ${evidence.article_number}` : ""}`;
+  }
+  return `Guichet.lu ("${evidence.title}")`;
+}
+
+/**
+ * The passage to follow: the law over Guichet's summary, then the newer version
+ */
+function authoritative(a: Evidence, b: Evidence): Evidence | null {
+  if (a.source === "legal" && b.source !== "legal") return a;
+  if (b.source === "legal" && a.source !== "legal") return b;
+  const dateA = a.version_date ?? a.retrieved_at;
+  const dateB = b.version_date ?? b.retrieved_at;
+  if (dateA === dateB) return null;
+  return dateA > dateB ? a : b;
+}
+
+function follow(source: Evidence | null): string {
+  if (!source) return "Check both sources.";
+  const version = source.version_date ? ` (version of ${source.version_date})` : "";
+  return source.source === "legal" ? `Follow the legal text${version}.` : "Follow the most recent source.";
+}
+
+/** One passage from Guichet and one from Legilux */
+function acrossSources(a: Evidence, b: Evidence): boolean {
+  return (a.source === "guichet" && b.source === "legal") || (a.source === "legal" && b.source === "guichet");
+}
+
+/**
+ * Conflicts between the given passages
+ * The evidence involved is named in evidence_ids and authoritative_id; the
+ * message is for users and names the sources by title.
+ */
+export function detectConflicts(evidence: Evidence[]): EvidenceConflict[] {
+  const conflicts: EvidenceConflict[] = [];
+  const facts = evidence.map((e) => extractFacts(e.snippet));
+
+  for (let i = 0; i < evidence.length; i++) {
+    for (let j = i + 1; j < evidence.length; j++) {
+      const a = evidence[i]!;
+      const b = evidence[j]!;
+      const winner = authoritative(a, b);
+
+      // The same article in two consolidated versions
+      if (a.article_number && a.article_number === b.article_number && a.version_date !== b.version_date) {
+        const [versionA, versionB] = [a.version_date ?? "undated", b.version_date ?? "undated"];
+        conflicts.push({
+          topic: `Art. ${a.article_number}`,
+          evidence_ids: [a.evidence_id, b.evidence_id],
+          values: [versionA, versionB],
+          authoritative_id: winner?.evidence_id ?? null,
+          message: `Sources cite different versions of Art. ${a.article_number}: ${versionA} and ${versionB}. ${
+            winner?.version_date ? `Follow the version of ${winner.version_date}.` : "Check both sources."
+          }`,
+        });
+      }
+
+      // Figures are compared between Guichet's summaries and the law, under the same conditions
+      if (!acrossSources(a, b)) continue;
+
+      for (const [key, groupA] of Array.from(facts[i]!)) {
+        const groupB = facts[j]!.get(key);
+        if (!groupB) continue;
+
+        for (const [unit, valuesA] of Array.from(groupA.values)) {
+          const valuesB = groupB.values.get(unit);
+          if (!valuesB || Array.from(valuesA).some((v) => valuesB.has(v))) continue;
+
+          const [described1, described2] = [describe(valuesA, unit), describe(valuesB, unit)];
+          const conditions = groupA.conditions.map((c) => c.label).join(", ");
+          conflicts.push({
+            topic: conditions ? `${groupA.topic} (${conditions})` : groupA.topic,
+            evidence_ids: [a.evidence_id, b.evidence_id],
+            values: [described1, described2],
+            authoritative_id: winner?.evidence_id ?? null,
+            message: `Sources disagree on the ${groupA.topic}${conditions ? ` for ${conditions}` : ""}: ${sourceName(a)} gives ${described1}, ${sourceName(b)} gives ${described2}. ${follow(winner)}`,
+          });
+        }
+      }
+    }
+  }
+  return conflicts;
+}
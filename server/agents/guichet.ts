@@ -3,13 +3,14 @@
  * Uses guichet.public.lu only
  */
 
-import { callDeepSeek } from "../llm/deepseek";
+import { completeText } from "../llm/gateway";
 import type { Evidence, AgentResponse } from "@shared/types-independent";
 
 export async function processGuichetQuery(
   question: string,
   language: string,
-  evidence: Evidence[]
+  evidence: Evidence[],
+  signal?: AbortSignal
 ): Promise<AgentResponse> {
   const systemPrompt = `You are a specialist in Luxembourg HR procedures using guichet.public.lu only.
 
@@ -32,18 +33,22 @@ Return JSON with:
 - suggested_searches: array of follow-up searches`;
 
   try {
-    const response = await callDeepSeek({
-      messages: [
-        { role: "system" as const, content: systemPrompt },
-        {
-          role: "user" as const,
-          content: question,
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 1500,
-      response_format: { type: "json_object" },
-    });
+    const response = await completeText(
+      "specialist",
+      {
+        messages: [
+          { role: "system" as const, content: systemPrompt },
+          {
+            role: "user" as const,
+            content: question,
+          },
+        ],
+        temperature: 0.3,
+        max_tokens: 1500,
+        response_format: { type: "json_object" },
+      },
+      signal
+    );
 
     const parsed = JSON.parse(response);
 
@@ -3,13 +3,22 @@
  * Uses legilux.public.lu and mt.gouvernement.lu only
  */
 
-import { callDeepSeek } from "../llm/deepseek";
+import { completeText } from "../llm/gateway";
 import type { Evidence, AgentResponse } from "@shared/types-independent";
 
+/**
+ * One evidence line, with the article's consolidated version when known
+ */
+function formatEvidence(e: Evidence): string {
+  const version = e.version_date ? `, version of ${e.version_date}` : "";
+  return `- ${e.title} (${e.section}${version}): ${e.snippet}`;
+}
+
 export async function processLegalQuery(
   question: string,
   language: string,
-  evidence: Evidence[]
+  evidence: Evidence[],
+  signal?: AbortSignal
 ): Promise<AgentResponse> {
   const systemPrompt = `You are a specialist in Luxembourg employment law using legilux.public.lu and mt.gouvernement.lu.
 
@@ -22,8 +31,10 @@ Your role:
 
 IMPORTANT: This is not legal advice. Users must consult lawyers for decisions.
 
+Cite articles by number as they appear in the evidence, e.g. "Art. L.121-1".
+
 Evidence provided:
-${evidence.map((e) => `- ${e.title} (${e.section}): ${e.snippet}`).join("\n")}
+${evidence.map(formatEvidence).join("\n")}
 
 Return JSON with:
 - answer: clear legal explanation
@@ -34,18 +45,22 @@ Return JSON with:
 - suggested_searches: array of follow-up searches`;
 
   try {
-    const response = await callDeepSeek({
-      messages: [
-        { role: "system" as const, content: systemPrompt },
-        {
-          role: "user" as const,
-          content: question,
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 1500,
-      response_format: { type: "json_object" },
-    });
+    const response = await completeText(
+      "specialist",
+      {
+        messages: [
+          { role: "system" as const, content: systemPrompt },
+          {
+            role: "user" as const,
+            content: question,
+          },
+        ],
+        temperature: 0.3,
+        max_tokens: 1500,
+        response_format: { type: "json_object" },
+      },
+      signal
+    );
 
     const parsed = JSON.parse(response);
 
@@ -92,31 +107,3 @@ export function validateLegalEvidence(evidence: Evidence[]): boolean {
     legalDomains.some((domain) => e.url.includes(domain))
   );
 }
-
-/**
- * Check for conflicting legal provisions
- */
-export function detectConflicts(evidence: Evidence[]): string[] {
-  const conflicts: string[] = [];
-  // Simple conflict detection: if multiple sources say different things
-  // In production, use NLP or semantic similarity
-  if (evidence.length > 1) {
-    const snippets = evidence.map((e) => e.snippet.toLowerCase());
-    // Check for contradictory keywords
-    const contradictions = [
-      ["must", "must not"],
-      ["required", "optional"],
-      ["mandatory", "voluntary"],
-    ];
-    for (const [word1, word2] of contradictions) {
-      const has1 = snippets.some((s) => s.includes(word1));
-      const has2 = snippets.some((s) => s.includes(word2));
-      if (has1 && has2) {
-        conflicts.push(
-          `Potential conflict: sources mention both "${word1}" and "${word2}"`
-        );
-      }
-    }
-  }
-  return conflicts;
-}
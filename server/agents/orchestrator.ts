@@ -1,14 +1,49 @@
 /**
  * Orchestrator Agent - Plans retrieval and routes to specialists
- * Uses cheap model (DeepSeek) for planning
+ * Plans with the cheap "router" model profile, synthesises with "synthesis"
  */
 
-import { callDeepSeek } from "../llm/deepseek";
-import type { OrchestratorPlan, Language } from "@shared/types-independent";
+import { completeText } from "../llm/gateway";
+import type { AgentResponse, EvidenceConflict, OrchestratorPlan, Language } from "@shared/types-independent";
+
+type SynthesizedResponse = Pick<
+  AgentResponse,
+  "answer" | "steps" | "confidence" | "limitations" | "suggested_searches"
+>;
+
+/**
+ * Plan used when the orchestrator cannot answer: search both sources with the question
+ */
+export function fallbackPlan(question: string): OrchestratorPlan {
+  return {
+    language: "en",
+    intent: "mixed",
+    confidence: 0.5,
+    reasoning: "Fallback plan due to processing error",
+    retrieval_queries: [question],
+    agents_to_call: ["guichet", "legal"],
+  };
+}
+
+/**
+ * Concatenate agent responses without an LLM call
+ */
+export function combineAgentResponses(
+  agentResponses: Array<Omit<SynthesizedResponse, "confidence">>
+): SynthesizedResponse {
+  return {
+    answer: agentResponses.map((r) => r.answer).join("\n\n"),
+    steps: agentResponses.flatMap((r) => r.steps),
+    confidence: "medium",
+    limitations: agentResponses.flatMap((r) => r.limitations),
+    suggested_searches: agentResponses.flatMap((r) => r.suggested_searches),
+  };
+}
 
 export async function planRequest(
   question: string,
-  conversationHistory: Array<{ role: string; content: string }> = []
+  conversationHistory: Array<{ role: string; content: string }> = [],
+  signal?: AbortSignal
 ): Promise<OrchestratorPlan> {
   const systemPrompt = `You are an orchestrator for Luxembourg HR and employment law questions.
 
@@ -34,15 +69,19 @@ Be concise. This is a cheap planning step.`;
   ];
 
   try {
-    const response = await callDeepSeek({
-      messages: [
-        { role: "system" as const, content: systemPrompt },
-        ...messages,
-      ],
-      temperature: 0.3,
-      max_tokens: 500,
-      response_format: { type: "json_object" },
-    });
+    const response = await completeText(
+      "router",
+      {
+        messages: [
+          { role: "system" as const, content: systemPrompt },
+          ...messages,
+        ],
+        temperature: 0.3,
+        max_tokens: 500,
+        response_format: { type: "json_object" },
+      },
+      signal
+    );
 
     const parsed = JSON.parse(response);
 
@@ -56,20 +95,13 @@ Be concise. This is a cheap planning step.`;
     };
   } catch (error) {
     console.error("Orchestrator planning failed:", error);
-    // Fallback plan
-    return {
-      language: "en",
-      intent: "mixed",
-      confidence: 0.5,
-      reasoning: "Fallback plan due to processing error",
-      retrieval_queries: [question],
-      agents_to_call: ["guichet", "legal"],
-    };
+    return fallbackPlan(question);
   }
 }
 
 /**
  * Synthesize responses from multiple agents
+ * Conflicts between the sources are given to the model with the passage to follow.
  */
 export async function synthesizeResponses(
   question: string,
@@ -82,14 +114,10 @@ export async function synthesizeResponses(
     confidence: string;
     limitations: string[];
     suggested_searches: string[];
-  }>
-): Promise<{
-  answer: string;
-  steps: string[];
-  confidence: "high" | "medium" | "low";
-  limitations: string[];
-  suggested_searches: string[];
-}> {
+  }>,
+  conflicts: EvidenceConflict[] = [],
+  signal?: AbortSignal
+): Promise<SynthesizedResponse> {
   if (agentResponses.length === 0) {
     return {
       answer: "Unable to find relevant information to answer your question.",
@@ -124,6 +152,7 @@ Combine their answers into a coherent response that:
 3. Maintains accuracy from each source
 4. Prioritizes procedural steps first, then legal context
 5. Combines limitations and suggested searches
+6. Where sources disagree, states the value of the authoritative source and says which source it is
 
 Return JSON with: {answer, steps, confidence, limitations, suggested_searches}`;
 
@@ -134,19 +163,32 @@ Return JSON with: {answer, steps, confidence, limitations, suggested_searches}`;
     )
     .join("\n\n");
 
+  const conflictSummary = conflicts.length
+    ? `\n\nConflicts between sources:\n${conflicts
+        .map(
+          (c) =>
+            `- ${c.message} (evidence ${c.evidence_ids.join(" vs ")}${c.authoritative_id ? `, follow ${c.authoritative_id}` : ""})`
+        )
+        .join("\n")}`
+    : "";
+
   try {
-    const response = await callDeepSeek({
-      messages: [
-        { role: "system" as const, content: systemPrompt },
-        {
-          role: "user" as const,
-          content: `Question: ${question}\n\nAgent responses:\n${agentSummary}`,
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 1000,
-      response_format: { type: "json_object" },
-    });
+    const response = await completeText(
+      "synthesis",
+      {
+        messages: [
+          { role: "system" as const, content: systemPrompt },
+          {
+            role: "user" as const,
+            content: `Question: ${question}\n\nAgent responses:\n${agentSummary}${conflictSummary}`,
+          },
+        ],
+        temperature: 0.3,
+        max_tokens: 1000,
+        response_format: { type: "json_object" },
+      },
+      signal
+    );
 
     const parsed = JSON.parse(response);
 
@@ -159,14 +201,7 @@ Return JSON with: {answer, steps, confidence, limitations, suggested_searches}`;
     };
   } catch (error) {
     console.error("Synthesis failed:", error);
-    // Fallback: combine all responses
-    return {
-      answer: agentResponses.map((r) => r.answer).join("\n\n"),
-      steps: agentResponses.flatMap((r) => r.steps),
-      confidence: "medium",
-      limitations: agentResponses.flatMap((r) => r.limitations),
-      suggested_searches: agentResponses.flatMap((r) => r.suggested_searches),
-    };
+    return combineAgentResponses(agentResponses);
   }
 }
 
@@ -174,18 +209,15 @@ Return JSON with: {answer, steps, confidence, limitations, suggested_searches}`;
  * Validate response against schema
  */
 export function validateResponse(response: any): boolean {
-  const required = ["answer", "steps", "citations", "confidence", "limitations", "suggested_searches", "evidence"];
+  const required = [
+    "answer",
+    "steps",
+    "citations",
+    "confidence",
+    "confidence_reasons",
+    "limitations",
+    "suggested_searches",
+    "evidence",
+  ];
   return required.every((field) => field in response);
 }
-
-/**
- * Downgrade confidence if insufficient evidence
- */
-export function adjustConfidenceByEvidence(
-  confidence: "high" | "medium" | "low",
-  evidenceCount: number
-): "high" | "medium" | "low" {
-  if (evidenceCount === 0) return "low";
-  if (evidenceCount === 1) return confidence === "high" ? "medium" : confidence;
-  return confidence;
-}
@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { verifyGrounding } from "./verifier";
+import { resetGateway, setProfile, setProvider, setRetryOptions } from "../llm/gateway";
+import { startLLMStub, type LLMStub, type StubReply } from "../llm/stub";
+import type { Evidence } from "@shared/types-independent";
+
+const EVIDENCE: Evidence[] = [
+  {
+    evidence_id: "guichet-notice",
+    url: "https://guichet.public.lu/en/citoyens/travail/licenciement/preavis.html",
+    title: "Notice period",
+    section: "Duration",
+    snippet: "An employee with less than five years of service is entitled to a notice period of two months.",
+    source: "guichet",
+    retrieved_at: "2026-01-16",
+  },
+  {
+    evidence_id: "guichet-certificate",
+    url: "https://guichet.public.lu/en/citoyens/travail/conges/maladie.html",
+    title: "Sick leave",
+    section: "Medical certificate",
+    snippet: "The medical certificate must reach the employer by the third day of absence.",
+    source: "guichet",
+    retrieved_at: "2026-01-16",
+  },
+];
+
+const ANSWER =
+  "Here is what applies:\nWith less than five years of service, the notice period is two months. Your employer must also pay a bonus.";
+
+describe("grounding verifier", () => {
+  let stub: LLMStub | undefined;
+
+  async function judge(reply: () => StubReply) {
+    stub = await startLLMStub(reply);
+    setProvider({ name: "judge", url: stub.endpoint, enabled: true });
+    setProfile("router", [{ provider: "judge", model: "m" }]);
+    setRetryOptions({ maxRetries: 0 });
+  }
+
+  afterEach(async () => {
+    resetGateway();
+    await stub?.close();
+    stub = undefined;
+  });
+
+  it("aligns sentences and steps with the evidence that supports them", async () => {
+    const result = await verifyGrounding({
+      answer: ANSWER,
+      steps: ["Send the medical certificate by the third day of absence"],
+      evidence: EVIDENCE,
+      language: "en",
+    });
+
+    expect(result.alignments.map((a) => [a.kind, a.supported, a.evidence_ids])).toEqual([
+      ["sentence", true, ["guichet-notice"]],
+      ["sentence", false, []],
+      ["step", true, ["guichet-certificate"]],
+    ]);
+    expect(result.supportingEvidenceIds).toEqual(["guichet-notice", "guichet-certificate"]);
+    expect(result.unsupportedRatio).toBeCloseTo(1 / 3);
+    expect(result.answer).toBe(ANSWER);
+    expect(result.limitations).toEqual([
+      "1 of 3 statements in this answer could not be matched to the cited sources; verify them before relying on them.",
+    ]);
+  });
+
+  it("drops unsupported sentences and steps when asked to", async () => {
+    const result = await verifyGrounding(
+      { answer: ANSWER, steps: ["Ask for a severance bonus"], evidence: EVIDENCE, language: "en" },
+      { unsupported: "drop" }
+    );
+
+    expect(result.answer).toBe(
+      "Here is what applies:\nWith less than five years of service, the notice period is two months."
+    );
+    expect(result.steps).toEqual([]);
+    expect(result.limitations).toEqual([
+      "Statements that the cited sources do not support were removed from this answer.",
+    ]);
+  });
+
+  it("lets the judge confirm claims that share few words with the evidence", async () => {
+    await judge(() =>
+      JSON.stringify({ claims: [{ index: 0, evidence_ids: ["guichet-certificate", "invented-id"] }] })
+    );
+
+    const result = await verifyGrounding(
+      {
+        answer: "A doctor's note is due within three days.",
+        steps: [],
+        evidence: EVIDENCE,
+        language: "en",
+      },
+      { judge: true }
+    );
+
+    expect(result.alignments).toEqual([
+      {
+        claim: "A doctor's note is due within three days.",
+        kind: "sentence",
+        evidence_ids: ["guichet-certificate"],
+        supported: true,
+        method: "judge",
+      },
+    ]);
+    expect(stub!.requests).toHaveLength(1);
+  });
+
+  it("keeps the lexical alignment when the judge fails", async () => {
+    await judge(() => ({ status: 400 }));
+
+    const result = await verifyGrounding(
+      { answer: "A doctor's note is due within three days.", steps: [], evidence: EVIDENCE, language: "en" },
+      { judge: true }
+    );
+
+    expect(result.alignments[0]).toMatchObject({ supported: false, method: "lexical" });
+    expect(result.unsupportedRatio).toBe(1);
+  });
+});
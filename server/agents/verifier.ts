@@ -0,0 +1,222 @@
+/**
+ * Grounding verifier - Checks the answer against the evidence it cites
+ * Each answer sentence and step is aligned with the evidence passages that
+ * support it, by lexical overlap and optionally an LLM judge ("router" profile).
+ */
+
+import { completeText } from "../llm/gateway";
+import { analyze } from "../search/analyzer";
+import type { Evidence, Language } from "@shared/types-independent";
+
+export interface GroundingOptions {
+  /** Share of a claim's terms a passage must contain to support it (default 0.5) */
+  minOverlap: number;
+  /** Ask the LLM judge about the claims lexical overlap leaves unsupported */
+  judge: boolean;
+  /** "flag" keeps unsupported claims and adds a limitation, "drop" removes them */
+  unsupported: "flag" | "drop";
+}
+
+export const DEFAULT_GROUNDING_OPTIONS: GroundingOptions = {
+  minOverlap: 0.5,
+  judge: false,
+  unsupported: "flag",
+};
+
+/** Text with fewer content terms is not checked, nor lead-ins ending with ":" */
+const MIN_CLAIM_TERMS = 2;
+
+/** Evidence sent to the judge, and how much of each snippet */
+const JUDGE_MAX_PASSAGES = 12;
+const JUDGE_SNIPPET_CHARS = 600;
+
+export interface ClaimAlignment {
+  claim: string;
+  kind: "sentence" | "step";
+  /** Evidence supporting the claim, best match first */
+  evidence_ids: string[];
+  supported: boolean;
+  method: "lexical" | "judge";
+}
+
+export interface GroundingResult {
+  /** Answer and steps, without unsupported claims when they are dropped */
+  answer: string;
+  steps: string[];
+  alignments: ClaimAlignment[];
+  /** Evidence supporting at least one claim, in evidence order */
+  supportingEvidenceIds: string[];
+  /** Share of checked claims no evidence supports (0 when nothing was checked) */
+  unsupportedRatio: number;
+  limitations: string[];
+}
+
+/**
+ * Split an answer into sentences, keeping the separators so it can be rebuilt
+ * Even indexes are sentences, odd indexes the whitespace between them.
+ */
+function splitSentences(answer: string): string[] {
+  return answer.split(/((?<=[.!?])\s+|\n+)/);
+}
+
+function overlap(claimTerms: Set<string>, passageTerms: Set<string>): number {
+  return Array.from(claimTerms).filter((term) => passageTerms.has(term)).length / claimTerms.size;
+}
+
+/**
+ * Align claims with evidence by the share of claim terms each passage contains
+ */
+function alignLexically(
+  claims: Array<{ claim: string; kind: ClaimAlignment["kind"]; terms: Set<string> }>,
+  evidence: Evidence[],
+  language: Language,
+  minOverlap: number
+): ClaimAlignment[] {
+  const passages = evidence.map((e) => ({
+    id: e.evidence_id,
+    terms: new Set(analyze(`${e.title} ${e.section} ${e.snippet}`, language)),
+  }));
+
+  return claims.map(({ claim, kind, terms }) => {
+    const evidence_ids = passages
+      .map((p) => ({ id: p.id, score: overlap(terms, p.terms) }))
+      .filter((p) => p.score >= minOverlap)
+      .sort((a, b) => b.score - a.score)
+      .map((p) => p.id);
+    return { claim, kind, evidence_ids, supported: evidence_ids.length > 0, method: "lexical" };
+  });
+}
+
+/**
+ * Ask the LLM judge which passages support the given claims
+ * Returns evidence ids per claim index; ids not in the evidence are ignored.
+ */
+async function judgeClaims(
+  claims: string[],
+  evidence: Evidence[],
+  signal?: AbortSignal
+): Promise<Map<number, string[]>> {
+  const passages = evidence.slice(0, JUDGE_MAX_PASSAGES);
+  const known = new Set(passages.map((e) => e.evidence_id));
+
+  const response = await completeText(
+    "router",
+    {
+      messages: [
+        {
+          role: "system",
+          content: `You check whether statements are supported by source passages.
+A passage supports a statement only if it states the same fact; related topics are not enough.
+Return JSON: {"claims": [{"index": number, "evidence_ids": string[]}]} with an empty list for unsupported statements.`,
+        },
+        {
+          role: "user",
+          content: `Passages:\n${passages
+            .map((e) => `[${e.evidence_id}] ${e.title} - ${e.section}: ${e.snippet.slice(0, JUDGE_SNIPPET_CHARS)}`)
+            .join("\n")}\n\nStatements:\n${claims.map((c, i) => `${i}. ${c}`).join("\n")}`,
+        },
+      ],
+      temperature: 0,
+      max_tokens: 500,
+      response_format: { type: "json_object" },
+    },
+    signal
+  );
+
+  const parsed = JSON.parse(response);
+  const verdicts = new Map<number, string[]>();
+  for (const verdict of Array.isArray(parsed.claims) ? parsed.claims : []) {
+    if (typeof verdict?.index !== "number" || !Array.isArray(verdict.evidence_ids)) continue;
+    verdicts.set(
+      verdict.index,
+      verdict.evidence_ids.filter((id: unknown): id is string => typeof id === "string" && known.has(id))
+    );
+  }
+  return verdicts;
+}
+
+/**
+ * Align each answer sentence and step with the evidence supporting it
+ * Unsupported claims are flagged with a limitation or dropped. When the judge
+ * fails, the lexical alignment is kept.
+ */
+export async function verifyGrounding(
+  response: { answer: string; steps: string[]; evidence: Evidence[]; language: Language },
+  options: Partial<GroundingOptions> = {},
+  signal?: AbortSignal
+): Promise<GroundingResult> {
+  const { minOverlap, judge, unsupported } = { ...DEFAULT_GROUNDING_OPTIONS, ...options };
+  const terms = (text: string) => new Set(analyze(text, response.language));
+
+  // Sentences (even indexes of the split) and steps with enough content to check
+  const pieces = splitSentences(response.answer);
+  const checked = [
+    ...pieces.flatMap((claim, index) =>
+      index % 2 === 0 ? [{ claim: claim.trim(), kind: "sentence" as const, index, terms: terms(claim) }] : []
+    ),
+    ...response.steps.map((claim, index) => ({ claim, kind: "step" as const, index, terms: terms(claim) })),
+  ].filter((c) => c.terms.size >= MIN_CLAIM_TERMS && !c.claim.endsWith(":"));
+
+  const alignments = alignLexically(checked, response.evidence, response.language, minOverlap);
+
+  const unsupportedClaims = alignments.flatMap((a, i) => (a.supported ? [] : [i]));
+  if (judge && unsupportedClaims.length > 0 && response.evidence.length > 0) {
+    try {
+      const verdicts = await judgeClaims(
+        unsupportedClaims.map((i) => alignments[i]!.claim),
+        response.evidence,
+        signal
+      );
+      unsupportedClaims.forEach((alignmentIndex, claimIndex) => {
+        const ids = verdicts.get(claimIndex) ?? [];
+        if (ids.length > 0) {
+          alignments[alignmentIndex] = {
+            ...alignments[alignmentIndex]!,
+            evidence_ids: ids,
+            supported: true,
+            method: "judge",
+          };
+        }
+      });
+    } catch (error) {
+      console.warn("[Verifier] Judge failed, keeping lexical alignment:", error);
+    }
+  }
+
+  const supporting = new Set(alignments.flatMap((a) => a.evidence_ids));
+  const unsupportedCount = alignments.filter((a) => !a.supported).length;
+  const result: GroundingResult = {
+    answer: response.answer,
+    steps: response.steps,
+    alignments,
+    supportingEvidenceIds: response.evidence.map((e) => e.evidence_id).filter((id) => supporting.has(id)),
+    unsupportedRatio: alignments.length > 0 ? unsupportedCount / alignments.length : 0,
+    limitations: [],
+  };
+  if (unsupportedCount === 0) return result;
+
+  const droppedSentences = new Set<number>();
+  const droppedSteps = new Set<number>();
+  checked.forEach((c, i) => {
+    if (alignments[i]!.supported) return;
+    (c.kind === "sentence" ? droppedSentences : droppedSteps).add(c.index);
+  });
+  const answer = pieces
+    .filter((_, i) => !droppedSentences.has(i % 2 === 0 ? i : i - 1))
+    .join("")
+    .trim();
+
+  // An answer with nothing supported left is flagged rather than emptied
+  if (unsupported === "drop" && answer) {
+    result.answer = answer;
+    result.steps = response.steps.filter((_, i) => !droppedSteps.has(i));
+    result.limitations.push(
+      "Statements that the cited sources do not support were removed from this answer."
+    );
+  } else {
+    result.limitations.push(
+      `${unsupportedCount} of ${alignments.length} statements in this answer could not be matched to the cited sources; verify them before relying on them.`
+    );
+  }
+  return result;
+}
@@ -1,33 +1,64 @@
-import { and, eq, inArray } from "drizzle-orm";
+import { and, count, desc, eq, gte, inArray, isNotNull, isNull, lt, or, sql, sum } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import {
+  auditLogs,
   conversations,
   conversationShares,
+  crawlPages,
+  crawlRuns,
   events,
   integrations,
+  knowledgeBase,
+  knowledgeBaseChunks,
+  knowledgeBaseLanguages,
+  knowledgeBaseRevision,
+  legalArticles,
+  legalCorpusRevision,
+  llmUsage,
   messageSources,
   messages,
+  retrievalCache,
+  usageLimits,
   userPreferences,
   users,
+  type AuditLogRow,
   type Conversation,
   type ConversationShare,
+  type CrawlPage,
+  type CrawlRun,
   type Event,
+  type InsertAuditLogRow,
   type InsertConversation,
   type InsertConversationShare,
+  type InsertCrawlPage,
   type InsertEvent,
   type InsertIntegration,
+  type InsertKnowledgeBaseChunk,
+  type InsertKnowledgeBaseDocument,
+  type InsertKnowledgeBaseLanguage,
+  type InsertLegalArticleRow,
+  type InsertLLMUsageRow,
   type InsertMessage,
   type InsertMessageSource,
+  type InsertRetrievalCacheRow,
+  type InsertUsageLimitsRow,
   type InsertUser,
   type InsertUserPreference,
   type Integration,
+  type KnowledgeBaseDocument,
+  type LegalArticleRow,
   type Message,
   type MessageSource,
+  type RetrievalCacheRow,
+  type UsageLimitsRow,
   type User,
 } from "../drizzle/schema";
 import { ENV } from "./_core/env";
+import type { StoredChatResponse } from "@shared/types";
 
-let _db: ReturnType<typeof drizzle> | null = null;
+type Database = ReturnType<typeof drizzle>;
+
+let _db: Database | null = null;
 
 // Lazily create the drizzle instance so local tooling can run without a DB.
 export async function getDb() {
@@ -113,6 +144,22 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+/**
+ * Get a user by email address, ignoring case
+ */
+export async function getUserByEmail(email: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(users)
+    .where(eq(sql`lower(${users.email})`, email.trim().toLowerCase()))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
 /**
  * Create a conversation
  */
@@ -166,7 +213,7 @@ export async function getConversationsBySiteKey(externalSiteKey: string) {
 }
 
 /**
- * Get a single conversation with messages and sources
+ * Get a single conversation with messages, their sources and structured answers
  */
 export async function getConversationWithMessages(conversationId: number) {
   const db = await getDb();
@@ -200,6 +247,7 @@ export async function getConversationWithMessages(conversationId: number) {
     conversation: conversation[0],
     messages: msgs.map((msg) => ({
       ...msg,
+      response: msg.response ? (JSON.parse(msg.response) as StoredChatResponse) : null,
       sources: sources.filter((s) => s.messageId === msg.id),
     })),
   };
@@ -333,7 +381,7 @@ export async function getIntegrationAnalytics(integrationId: number) {
 }
 
 /**
- * Share a conversation with another user
+ * Share a conversation with another user, or change the permission they have
  */
 export async function shareConversation(
   conversationId: number,
@@ -343,13 +391,30 @@ export async function shareConversation(
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const result = await db.insert(conversationShares).values({
-    conversationId,
-    sharedWithUserId,
-    permission,
-  });
+  const existing = await db
+    .select({ id: conversationShares.id })
+    .from(conversationShares)
+    .where(
+      and(
+        eq(conversationShares.conversationId, conversationId),
+        eq(conversationShares.sharedWithUserId, sharedWithUserId)
+      )
+    )
+    .limit(1);
+
+  let shareId: number;
+  if (existing.length) {
+    shareId = existing[0].id;
+    await db.update(conversationShares).set({ permission }).where(eq(conversationShares.id, shareId));
+  } else {
+    const result = await db.insert(conversationShares).values({
+      conversationId,
+      sharedWithUserId,
+      permission,
+    });
+    shareId = result[0].insertId as number;
+  }
 
-  const shareId = result[0].insertId as number;
   const created = await db
     .select()
     .from(conversationShares)
@@ -361,7 +426,7 @@ export async function shareConversation(
 }
 
 /**
- * Get conversations shared with a user
+ * Get conversations shared with a user, most recently updated first, with their owner
  */
 export async function getSharedConversations(userId: number) {
   const db = await getDb();
@@ -376,16 +441,40 @@ export async function getSharedConversations(userId: number) {
 
   const conversationIds = shares.map((s) => s.conversationId);
   const convs = await db
-    .select()
+    .select({ conversation: conversations, owner: { name: users.name, email: users.email } })
     .from(conversations)
-    .where(inArray(conversations.id, conversationIds));
-
-  return convs.map((conv) => ({
-    conversation: conv,
-    share: shares.find((s) => s.conversationId === conv.id)!,
+    .leftJoin(users, eq(users.id, conversations.userId))
+    .where(inArray(conversations.id, conversationIds))
+    .orderBy(desc(conversations.updatedAt));
+
+  return convs.map(({ conversation, owner }) => ({
+    conversation,
+    owner,
+    share: shares.find((s) => s.conversationId === conversation.id)!,
   }));
 }
 
+/**
+ * Get the users a conversation is shared with and their permission
+ */
+export async function getConversationShares(conversationId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      userId: users.id,
+      name: users.name,
+      email: users.email,
+      permission: conversationShares.permission,
+      createdAt: conversationShares.createdAt,
+    })
+    .from(conversationShares)
+    .innerJoin(users, eq(users.id, conversationShares.sharedWithUserId))
+    .where(eq(conversationShares.conversationId, conversationId))
+    .orderBy(conversationShares.createdAt);
+}
+
 /**
  * Remove conversation share
  */
@@ -406,28 +495,30 @@ export async function removeConversationShare(
     );
 }
 
+/** The owner of a conversation, or the permission it is shared with */
+export type ConversationRole = "owner" | ConversationShare["permission"];
+
 /**
- * Check if user has access to conversation (owner or shared)
+ * A user's role on a conversation, or null when they have no access
  */
-export async function hasConversationAccess(
+export async function getConversationRole(
   conversationId: number,
   userId: number
-): Promise<boolean> {
+): Promise<ConversationRole | null> {
   const db = await getDb();
-  if (!db) return false;
+  if (!db) return null;
 
-  // Check if user is owner
-  const ownedConv = await db
-    .select()
+  const conversation = await db
+    .select({ userId: conversations.userId })
     .from(conversations)
-    .where(and(eq(conversations.id, conversationId), eq(conversations.userId, userId)))
+    .where(eq(conversations.id, conversationId))
     .limit(1);
 
-  if (ownedConv.length > 0) return true;
+  if (!conversation.length) return null;
+  if (conversation[0].userId === userId) return "owner";
 
-  // Check if conversation is shared with user
-  const sharedConv = await db
-    .select()
+  const share = await db
+    .select({ permission: conversationShares.permission })
     .from(conversationShares)
     .where(
       and(
@@ -437,7 +528,115 @@ export async function hasConversationAccess(
     )
     .limit(1);
 
-  return sharedConv.length > 0;
+  return share.length ? share[0].permission : null;
+}
+
+/** Event recorded each time a public share link is opened */
+export const SHARE_LINK_VIEW_EVENT = "share_link_view";
+
+/**
+ * Create a public read-only link to a conversation
+ */
+export async function createShareLink(
+  conversationId: number,
+  token: string,
+  expiresAt: Date | null
+): Promise<ConversationShare> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(conversationShares).values({
+    conversationId,
+    permission: "view",
+    token,
+    expiresAt,
+  });
+
+  const created = await db
+    .select()
+    .from(conversationShares)
+    .where(eq(conversationShares.id, result[0].insertId as number))
+    .limit(1);
+
+  if (!created.length) throw new Error("Failed to create share link");
+  return created[0];
+}
+
+/**
+ * Get the share a public link token belongs to, expired or not
+ */
+export async function getShareLinkByToken(token: string): Promise<ConversationShare | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(conversationShares)
+    .where(eq(conversationShares.token, token))
+    .limit(1);
+
+  return result[0] ?? null;
+}
+
+/**
+ * Get the public links of a conversation with how many times each was opened
+ */
+export async function getShareLinks(conversationId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const links = await db
+    .select()
+    .from(conversationShares)
+    .where(and(eq(conversationShares.conversationId, conversationId), isNotNull(conversationShares.token)))
+    .orderBy(desc(conversationShares.createdAt));
+
+  if (links.length === 0) return [];
+
+  const shareId = sql<number>`cast(json_extract(${events.metadata}, '$.shareId') as unsigned)`;
+  const views = await db
+    .select({ shareId, views: count() })
+    .from(events)
+    .where(
+      and(
+        eq(events.eventType, SHARE_LINK_VIEW_EVENT),
+        inArray(shareId, links.map((l) => l.id))
+      )
+    )
+    .groupBy(shareId);
+
+  return links.map((link) => ({
+    ...link,
+    views: Number(views.find((v) => Number(v.shareId) === link.id)?.views ?? 0),
+  }));
+}
+
+/**
+ * Revoke a public link to a conversation
+ */
+export async function deleteShareLink(conversationId: number, shareId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(conversationShares)
+    .where(
+      and(
+        eq(conversationShares.id, shareId),
+        eq(conversationShares.conversationId, conversationId),
+        isNotNull(conversationShares.token)
+      )
+    );
+}
+
+/**
+ * Check if user has access to conversation (owner or shared)
+ */
+export async function hasConversationAccess(
+  conversationId: number,
+  userId: number
+): Promise<boolean> {
+  return (await getConversationRole(conversationId, userId)) !== null;
 }
 
 /**
@@ -499,3 +698,603 @@ export async function updateConversationTitle(
     .set({ title, updatedAt: new Date() })
     .where(eq(conversations.id, conversationId));
 }
+
+/**
+ * Switch the pipeline that answers a conversation
+ */
+export async function updateConversationPipeline(
+  conversationId: number,
+  pipeline: Conversation["pipeline"]
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(conversations)
+    .set({ pipeline, updatedAt: new Date() })
+    .where(eq(conversations.id, conversationId));
+}
+
+
+/**
+ * Register knowledge base languages (existing codes are left untouched)
+ */
+export async function upsertKnowledgeBaseLanguages(
+  languages: InsertKnowledgeBaseLanguage[]
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (languages.length === 0) return;
+
+  await db.insert(knowledgeBaseLanguages).ignore().values(languages);
+}
+
+/**
+ * Upsert knowledge base documents and replace their chunks
+ */
+export async function upsertKnowledgeBaseDocuments(
+  documents: InsertKnowledgeBaseDocument[],
+  chunks: InsertKnowledgeBaseChunk[]
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (documents.length === 0) return;
+
+  const documentIds = documents.map((d) => d.id);
+
+  await db.transaction(async (tx) => {
+    await tx
+      .insert(knowledgeBase)
+      .values(documents)
+      .onDuplicateKeyUpdate({
+        set: {
+          url: sql`values(${knowledgeBase.url})`,
+          title: sql`values(${knowledgeBase.title})`,
+          section: sql`values(${knowledgeBase.section})`,
+          category: sql`values(${knowledgeBase.category})`,
+          language: sql`values(${knowledgeBase.language})`,
+          content: sql`values(${knowledgeBase.content})`,
+          lastUpdated: sql`values(${knowledgeBase.lastUpdated})`,
+        },
+      });
+
+    await tx
+      .delete(knowledgeBaseChunks)
+      .where(inArray(knowledgeBaseChunks.documentId, documentIds));
+
+    if (chunks.length > 0) {
+      await tx.insert(knowledgeBaseChunks).values(chunks);
+    }
+
+    await bumpKnowledgeBaseRevision(tx);
+  });
+}
+
+/**
+ * Increment the knowledge base revision, in the transaction of the write
+ */
+async function bumpKnowledgeBaseRevision(tx: Pick<Database, "insert">): Promise<void> {
+  await tx
+    .insert(knowledgeBaseRevision)
+    .values({ id: 1, revision: 1 })
+    .onDuplicateKeyUpdate({ set: { revision: sql`${knowledgeBaseRevision.revision} + 1` } });
+}
+
+/**
+ * Get every knowledge base document
+ */
+export async function getKnowledgeBaseDocuments(): Promise<KnowledgeBaseDocument[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(knowledgeBase).orderBy(knowledgeBase.id);
+}
+
+/**
+ * Get the revision of the knowledge base table.
+ * Increases with every write, so it changes whenever documents are added,
+ * removed or updated, however close together.
+ */
+export async function getKnowledgeBaseVersion(): Promise<string | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select({ revision: knowledgeBaseRevision.revision })
+    .from(knowledgeBaseRevision)
+    .where(eq(knowledgeBaseRevision.id, 1))
+    .limit(1);
+
+  return String(result[0]?.revision ?? 0);
+}
+
+/**
+ * Get the ids of knowledge base documents scraped from a URL
+ */
+export async function getKnowledgeBaseDocumentIdsByUrl(url: string): Promise<string[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ id: knowledgeBase.id })
+    .from(knowledgeBase)
+    .where(eq(knowledgeBase.url, url));
+
+  return rows.map((r) => r.id);
+}
+
+/**
+ * Delete knowledge base documents (their chunks cascade)
+ */
+export async function deleteKnowledgeBaseDocuments(ids: string[]): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (ids.length === 0) return;
+
+  await db.transaction(async (tx) => {
+    await tx.delete(knowledgeBase).where(inArray(knowledgeBase.id, ids));
+    await bumpKnowledgeBaseRevision(tx);
+  });
+}
+
+/**
+ * Get the crawl state of a page by URL hash
+ */
+export async function getCrawlPage(urlHash: string): Promise<CrawlPage | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(crawlPages)
+    .where(eq(crawlPages.urlHash, urlHash))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+/**
+ * Insert or update the crawl state of a page
+ */
+export async function upsertCrawlPage(page: InsertCrawlPage): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { urlHash, ...updateSet } = page;
+  await db.insert(crawlPages).values(page).onDuplicateKeyUpdate({
+    set: updateSet,
+  });
+}
+
+/**
+ * URLs of every page with crawl state
+ */
+export async function getCrawlPageUrls(): Promise<string[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db.select({ url: crawlPages.url }).from(crawlPages);
+  return rows.map((r) => r.url);
+}
+
+/**
+ * Forget the crawl state of a page
+ */
+export async function deleteCrawlPage(urlHash: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(crawlPages).where(eq(crawlPages.urlHash, urlHash));
+}
+
+/**
+ * Start a crawl run and return its id
+ */
+export async function createCrawlRun(): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(crawlRuns).values({ status: "running" });
+  return result[0].insertId as number;
+}
+
+/**
+ * Record the outcome of a crawl run
+ */
+export async function finishCrawlRun(
+  runId: number,
+  outcome: Pick<CrawlRun, "status" | "fetched" | "unchanged" | "changed" | "failed" | "errors">
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(crawlRuns)
+    .set({ ...outcome, finishedAt: new Date() })
+    .where(eq(crawlRuns.id, runId));
+}
+
+/**
+ * Get the most recent crawl runs
+ */
+export async function getCrawlRuns(limit: number = 20): Promise<CrawlRun[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(crawlRuns).orderBy(desc(crawlRuns.startedAt)).limit(limit);
+}
+
+// Keeps multi-row inserts well under MySQL's packet limit for large codes
+const LEGAL_ARTICLE_BATCH_SIZE = 200;
+
+/**
+ * Replace every article ingested from an ELI document
+ */
+export async function replaceLegalArticles(
+  eliUri: string,
+  articles: InsertLegalArticleRow[]
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async (tx) => {
+    await tx.delete(legalArticles).where(eq(legalArticles.eliUri, eliUri));
+
+    for (let i = 0; i < articles.length; i += LEGAL_ARTICLE_BATCH_SIZE) {
+      await tx.insert(legalArticles).values(articles.slice(i, i + LEGAL_ARTICLE_BATCH_SIZE));
+    }
+
+    await tx
+      .insert(legalCorpusRevision)
+      .values({ id: 1, revision: 1 })
+      .onDuplicateKeyUpdate({ set: { revision: sql`${legalCorpusRevision.revision} + 1` } });
+  });
+}
+
+/**
+ * Get every ingested legal article
+ */
+export async function getLegalArticles(): Promise<LegalArticleRow[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(legalArticles).orderBy(legalArticles.id);
+}
+
+/**
+ * Get the revision of the legal corpus.
+ * Increases with every re-ingested text, even when it keeps the same number
+ * of articles within the same second.
+ */
+export async function getLegalCorpusVersion(): Promise<string | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select({ revision: legalCorpusRevision.revision })
+    .from(legalCorpusRevision)
+    .where(eq(legalCorpusRevision.id, 1))
+    .limit(1);
+
+  return String(result[0]?.revision ?? 0);
+}
+
+/**
+ * Get a cached retrieval by query hash
+ */
+export async function getRetrievalCacheEntry(queryHash: string): Promise<RetrievalCacheRow | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(retrievalCache)
+    .where(eq(retrievalCache.queryHash, queryHash))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+/**
+ * Insert or replace a cached retrieval
+ */
+export async function upsertRetrievalCacheEntry(entry: InsertRetrievalCacheRow): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { queryHash, ...updateSet } = entry;
+  await db.insert(retrievalCache).values(entry).onDuplicateKeyUpdate({
+    set: updateSet,
+  });
+}
+
+/**
+ * Mark a cached retrieval as recently used
+ */
+export async function touchRetrievalCacheEntry(queryHash: string): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db
+    .update(retrievalCache)
+    .set({ lastAccessedAt: new Date() })
+    .where(eq(retrievalCache.queryHash, queryHash));
+}
+
+/**
+ * Delete cached retrievals, for one source or all of them
+ * Returns the number of rows deleted
+ */
+export async function deleteRetrievalCacheEntries(
+  filter: { queryHash?: string; source?: RetrievalCacheRow["source"] } = {}
+): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const conditions = [
+    filter.queryHash ? eq(retrievalCache.queryHash, filter.queryHash) : undefined,
+    filter.source ? eq(retrievalCache.source, filter.source) : undefined,
+  ].filter((c) => c !== undefined);
+
+  const result = await db.delete(retrievalCache).where(and(...conditions));
+  return result[0].affectedRows;
+}
+
+/**
+ * Count cached retrievals
+ */
+export async function countRetrievalCacheEntries(): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const result = await db.select({ total: count() }).from(retrievalCache);
+  return result[0]?.total ?? 0;
+}
+
+/**
+ * Delete the least recently used cached retrievals beyond maxEntries
+ * Returns the number of rows evicted
+ */
+export async function evictRetrievalCacheEntries(maxEntries: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const excess = (await countRetrievalCacheEntries()) - maxEntries;
+  if (excess <= 0) return 0;
+
+  const result = await db
+    .delete(retrievalCache)
+    .orderBy(retrievalCache.lastAccessedAt)
+    .limit(excess);
+  return result[0].affectedRows;
+}
+
+/**
+ * Record LLM calls
+ */
+export async function insertLLMUsage(rows: InsertLLMUsageRow[]): Promise<void> {
+  const db = await getDb();
+  if (!db || rows.length === 0) return;
+
+  await db.insert(llmUsage).values(rows);
+}
+
+export interface SpendFilter {
+  from?: Date;
+  /** Exclusive */
+  to?: Date;
+  siteKey?: string;
+  userId?: number;
+}
+
+function spendConditions(filter: SpendFilter) {
+  return and(
+    ...[
+      filter.from ? gte(llmUsage.createdAt, filter.from) : undefined,
+      filter.to ? lt(llmUsage.createdAt, filter.to) : undefined,
+      filter.siteKey ? eq(llmUsage.externalSiteKey, filter.siteKey) : undefined,
+      filter.userId ? eq(llmUsage.userId, filter.userId) : undefined,
+    ].filter((c) => c !== undefined)
+  );
+}
+
+const spendTotals = {
+  calls: count(),
+  promptTokens: sum(llmUsage.promptTokens).mapWith(Number),
+  completionTokens: sum(llmUsage.completionTokens).mapWith(Number),
+  estimatedCost: sum(llmUsage.estimatedCost).mapWith(Number),
+};
+
+/**
+ * LLM spend per day (YYYY-MM-DD)
+ */
+export async function getSpendByDay(filter: SpendFilter = {}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const day = sql<string>`date_format(${llmUsage.createdAt}, '%Y-%m-%d')`;
+  return await db
+    .select({ day, ...spendTotals })
+    .from(llmUsage)
+    .where(spendConditions(filter))
+    .groupBy(day)
+    .orderBy(day);
+}
+
+/**
+ * LLM spend per integration site key (null: the main app)
+ */
+export async function getSpendByIntegration(filter: SpendFilter = {}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({ siteKey: llmUsage.externalSiteKey, ...spendTotals })
+    .from(llmUsage)
+    .where(spendConditions(filter))
+    .groupBy(llmUsage.externalSiteKey)
+    .orderBy(desc(sql`sum(${llmUsage.estimatedCost})`));
+}
+
+
+/**
+ * LLM spend over a period, for one user and/or integration
+ */
+export async function getSpendTotals(filter: SpendFilter = {}) {
+  const db = await getDb();
+  if (!db) return { calls: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0 };
+
+  const [row] = await db.select(spendTotals).from(llmUsage).where(spendConditions(filter));
+  return {
+    calls: row?.calls ?? 0,
+    promptTokens: row?.promptTokens ?? 0,
+    completionTokens: row?.completionTokens ?? 0,
+    estimatedCost: row?.estimatedCost ?? 0,
+  };
+}
+
+/**
+ * Questions (user messages) asked since a date by a user or through an integration
+ * Messages saved before senders were recorded count against the conversation owner
+ */
+export async function countQuestions(filter: { since: Date; userId?: number; siteKey?: string }) {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const [row] = await db
+    .select({ count: count() })
+    .from(messages)
+    .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+    .where(
+      and(
+        eq(messages.sender, "user"),
+        gte(messages.createdAt, filter.since),
+        ...[
+          filter.userId
+            ? or(
+                eq(messages.senderUserId, filter.userId),
+                and(isNull(messages.senderUserId), eq(conversations.userId, filter.userId))
+              )
+            : undefined,
+          filter.siteKey ? eq(conversations.externalSiteKey, filter.siteKey) : undefined,
+        ].filter((c) => c !== undefined)
+      )
+    );
+  return row?.count ?? 0;
+}
+
+/**
+ * Limits configured for a user or an integration, if any
+ */
+export async function getUsageLimits(
+  owner: { userId: number } | { siteKey: string }
+): Promise<UsageLimitsRow | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [row] = await db
+    .select()
+    .from(usageLimits)
+    .where(
+      "userId" in owner
+        ? eq(usageLimits.userId, owner.userId)
+        : eq(usageLimits.externalSiteKey, owner.siteKey)
+    )
+    .limit(1);
+  return row;
+}
+
+/**
+ * Set the limits of a user or an integration
+ */
+export async function upsertUsageLimits(
+  owner: { userId: number } | { siteKey: string },
+  limits: Pick<
+    InsertUsageLimitsRow,
+    "monthlyTokenBudget" | "monthlyCostBudget" | "dailyMessageQuota" | "warningRatio"
+  >
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .insert(usageLimits)
+    .values({
+      ...("userId" in owner ? { userId: owner.userId } : { externalSiteKey: owner.siteKey }),
+      ...limits,
+    })
+    .onDuplicateKeyUpdate({ set: limits });
+}
+
+/**
+ * Write one audit entry
+ */
+export async function insertAuditLog(entry: InsertAuditLogRow): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot write audit entry: database not available");
+    return;
+  }
+
+  await db.insert(auditLogs).values(entry);
+}
+
+export interface AuditFilter {
+  from?: Date;
+  /** Exclusive */
+  to?: Date;
+  userId?: number;
+  intent?: string;
+  language?: string;
+}
+
+/** The last entry of a page, which the next page starts after */
+export interface AuditCursor {
+  createdAt: Date;
+  id: number;
+}
+
+/**
+ * Audit entries matching a filter, newest first, with the total number of matches
+ * Pages start at an offset, or after the last entry of the previous page,
+ * which stays stable while new entries are written.
+ */
+export async function searchAuditLogs(
+  filter: AuditFilter,
+  page: { limit: number; offset: number; after?: AuditCursor }
+): Promise<{ entries: AuditLogRow[]; total: number }> {
+  const db = await getDb();
+  if (!db) return { entries: [], total: 0 };
+
+  const where = and(
+    ...[
+      filter.from ? gte(auditLogs.createdAt, filter.from) : undefined,
+      filter.to ? lt(auditLogs.createdAt, filter.to) : undefined,
+      filter.userId ? eq(auditLogs.userId, filter.userId) : undefined,
+      filter.intent ? eq(auditLogs.intent, filter.intent) : undefined,
+      filter.language ? eq(auditLogs.language, filter.language) : undefined,
+    ].filter((c) => c !== undefined)
+  );
+  const after = page.after;
+  const afterCursor = after
+    ? or(
+        lt(auditLogs.createdAt, after.createdAt),
+        and(eq(auditLogs.createdAt, after.createdAt), lt(auditLogs.id, after.id))
+      )
+    : undefined;
+
+  const [entries, [totals]] = await Promise.all([
+    db
+      .select()
+      .from(auditLogs)
+      .where(and(where, afterCursor))
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+      .limit(page.limit)
+      .offset(page.offset),
+    db.select({ total: count() }).from(auditLogs).where(where),
+  ]);
+  return { entries, total: totals?.total ?? 0 };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { buildExportDocument, renderMarkdown, toTextBlocks } from "./document";
+
+const CREATED = new Date("2026-10-01T09:00:00Z");
+
+function conversation(messages: any[]): any {
+  return {
+    conversation: { id: 7, title: "Préavis & licenciement", language: "fr", createdAt: CREATED },
+    messages,
+  };
+}
+
+const QUESTION = { id: 1, sender: "user", content: "Quel est le préavis ?", mode: null, response: null, sources: [] };
+
+const ANSWER = {
+  id: 2,
+  sender: "assistant",
+  content: "## Préavis\n\nThe notice period is **2 months**, see [Guichet](https://guichet.lu/notice).",
+  mode: "legal",
+  sources: [],
+  response: {
+    language: "fr",
+    answer: "",
+    steps: ["Check the employee's seniority"],
+    citations: [
+      {
+        title: "Code du travail",
+        url: "https://legilux.public.lu/eli/code/travail",
+        section: "Art. L.124-4",
+        retrieved_at: "2026-09-30",
+        evidence_ids: ["l1"],
+      },
+    ],
+    confidence: "high",
+    confidence_reasons: [],
+    limitations: ["Collective agreements may set longer notice periods."],
+    suggested_searches: [],
+    evidence: [],
+  },
+};
+
+describe("buildExportDocument", () => {
+  it("includes badges, steps, limitations, numbered citations and disclaimers", () => {
+    const markdown = renderMarkdown(
+      buildExportDocument(conversation([QUESTION, ANSWER]), { exportedAt: new Date("2026-10-19") })
+    );
+
+    expect(markdown).toContain("# Préavis & licenciement");
+    expect(markdown).toContain("_Exported 2026-10-19 · conversation started 2026-10-01 · Francais_");
+    expect(markdown).toContain("`Employment Law` `High confidence`");
+    expect(markdown).toContain("#### Préavis");
+    expect(markdown).toContain("### Steps\n\n1. Check the employee's seniority");
+    expect(markdown).toContain("- Collective agreements may set longer notice periods.");
+    expect(markdown).toContain(
+      "1. Code du travail – Art. L.124-4. https://legilux.public.lu/eli/code/travail (retrieved 2026-09-30)"
+    );
+    expect(markdown).toContain("It is not legal or professional advice");
+    expect(markdown).toContain("This is not legal advice. For legal matters");
+  });
+
+  it("cites the stored sources of answers saved without a structured answer", () => {
+    const answer = {
+      ...ANSWER,
+      mode: "procedural",
+      response: null,
+      sources: [
+        {
+          sourceTitle: "Notice periods",
+          sourceUrl: "https://guichet.lu/notice",
+          section: "General",
+          createdAt: new Date("2026-09-12T10:00:00Z"),
+        },
+      ],
+    };
+
+    const markdown = renderMarkdown(buildExportDocument(conversation([QUESTION, answer])));
+
+    expect(markdown).toContain("1. Notice periods. https://guichet.lu/notice (retrieved 2026-09-12)");
+    expect(markdown).toContain("`Procedural HR`");
+    expect(markdown).not.toContain("Steps");
+  });
+
+  it("names single answer exports after the answer", () => {
+    const document = buildExportDocument(conversation([QUESTION, ANSWER, { ...ANSWER, id: 4 }]), {
+      messages: [QUESTION, ANSWER] as any,
+    });
+
+    expect(document.fileName).toBe("preavis-licenciement-answer-2");
+    expect(document.blocks.filter((b) => b.type === "heading" && b.text === "Answer")).toHaveLength(1);
+  });
+
+  it("turns message Markdown into plain text blocks", () => {
+    const blocks = toTextBlocks([
+      { type: "markdown", text: "## Steps\n\n1. Send the **letter**\n2. Wait `2 months`\n\nSee [Guichet](https://guichet.lu)." },
+    ]);
+
+    expect(blocks).toEqual([
+      { type: "heading", level: 3, text: "Steps" },
+      { type: "list", ordered: true, items: ["Send the letter", "Wait 2 months"] },
+      { type: "paragraph", text: "See Guichet (https://guichet.lu)." },
+    ]);
+  });
+});
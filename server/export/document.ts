@@ -0,0 +1,248 @@
+/**
+ * Conversation export - The content of an exported conversation or answer
+ * Builds one document from getConversationWithMessages, which the Markdown,
+ * PDF and DOCX renderers lay out: questions and answers with their mode and
+ * confidence badges, steps, limitations, numbered citations with retrieval
+ * dates and the disclaimers of the modes answered in.
+ */
+
+import { DISCLAIMERS, EXPERTISE_MODES, LANGUAGES, MODE_DISCLAIMERS, type ExpertiseMode } from "@shared/types";
+import type { getConversationWithMessages } from "../db";
+
+type ConversationWithMessages = NonNullable<Awaited<ReturnType<typeof getConversationWithMessages>>>;
+export type ExportMessage = ConversationWithMessages["messages"][number];
+
+export type ExportBlock =
+  | { type: "heading"; level: 1 | 2 | 3; text: string }
+  | { type: "paragraph"; text: string; muted?: boolean }
+  /** Message content, which the assistant writes in Markdown */
+  | { type: "markdown"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "badges"; items: string[] };
+
+export interface ExportDocument {
+  title: string;
+  /** File name without extension */
+  fileName: string;
+  blocks: ExportBlock[];
+}
+
+const CONFIDENCE_LABELS = {
+  high: "High confidence",
+  medium: "Medium confidence",
+  low: "Low confidence",
+};
+
+/**
+ * The document of a conversation, or of the given messages of it
+ * (a single answer and its question)
+ */
+export function buildExportDocument(
+  data: ConversationWithMessages,
+  options: { messages?: ExportMessage[]; exportedAt?: Date } = {}
+): ExportDocument {
+  const { conversation } = data;
+  const messages = (options.messages ?? data.messages).filter((m) => m.sender !== "system");
+  const singleAnswer = options.messages !== undefined;
+  const title = conversation.title || "Conversation";
+
+  const blocks: ExportBlock[] = [
+    { type: "heading", level: 1, text: title },
+    {
+      type: "paragraph",
+      muted: true,
+      text: [
+        `Exported ${isoDate(options.exportedAt ?? new Date())}`,
+        `conversation started ${isoDate(conversation.createdAt)}`,
+        LANGUAGES[conversation.language as keyof typeof LANGUAGES] ?? conversation.language,
+      ].join(" · "),
+    },
+  ];
+
+  for (const message of messages) {
+    blocks.push(...(message.sender === "user" ? questionBlocks(message) : answerBlocks(message)));
+  }
+
+  // General disclaimer, then the one of each mode answered in
+  const modes = Array.from(
+    new Set(messages.flatMap((m) => (m.sender === "assistant" && m.mode ? [m.mode] : [])))
+  );
+  blocks.push(
+    { type: "heading", level: 2, text: "Disclaimer" },
+    { type: "paragraph", muted: true, text: DISCLAIMERS.general },
+    ...modes.map((mode): ExportBlock => ({ type: "paragraph", muted: true, text: MODE_DISCLAIMERS[mode] }))
+  );
+
+  const lastAnswer = messages.filter((m) => m.sender === "assistant").pop();
+  return {
+    title,
+    fileName: singleAnswer && lastAnswer ? `${slugify(title)}-answer-${lastAnswer.id}` : slugify(title),
+    blocks,
+  };
+}
+
+function questionBlocks(message: ExportMessage): ExportBlock[] {
+  return [
+    { type: "heading", level: 2, text: "Question" },
+    { type: "markdown", text: message.content },
+  ];
+}
+
+function answerBlocks(message: ExportMessage): ExportBlock[] {
+  const response = message.response;
+  const blocks: ExportBlock[] = [{ type: "heading", level: 2, text: "Answer" }];
+
+  const badges = [
+    ...(message.mode ? [EXPERTISE_MODES[message.mode as ExpertiseMode]?.label ?? message.mode] : []),
+    ...(response ? [CONFIDENCE_LABELS[response.confidence]] : []),
+  ];
+  if (badges.length > 0) blocks.push({ type: "badges", items: badges });
+
+  blocks.push({ type: "markdown", text: message.content });
+
+  // Single LLM answers already contain their steps; agent answers list them separately
+  const steps = response?.steps.filter((step) => !message.content.includes(step)) ?? [];
+  if (steps.length > 0) {
+    blocks.push({ type: "heading", level: 3, text: "Steps" }, { type: "list", ordered: true, items: steps });
+  }
+
+  if (response && response.limitations.length > 0) {
+    blocks.push(
+      { type: "heading", level: 3, text: "Limitations" },
+      { type: "list", ordered: false, items: response.limitations }
+    );
+  }
+
+  const citations = citationsOf(message);
+  if (citations.length > 0) {
+    blocks.push(
+      { type: "heading", level: 3, text: "Sources" },
+      { type: "list", ordered: true, items: citations }
+    );
+  }
+
+  return blocks;
+}
+
+/**
+ * Citations of the structured answer, or of the stored sources for answers
+ * saved before it was kept (retrieved when the answer was given)
+ */
+function citationsOf(message: ExportMessage): string[] {
+  if (message.response && message.response.citations.length > 0) {
+    return message.response.citations.map((citation) =>
+      citationText(citation.title, citation.section, citation.url, citation.retrieved_at.slice(0, 10))
+    );
+  }
+  return message.sources.map((source) =>
+    citationText(source.sourceTitle, source.section, source.sourceUrl, isoDate(source.createdAt))
+  );
+}
+
+function citationText(title: string, section: string | null, url: string, retrievedAt: string): string {
+  const heading = section && section !== "General" ? `${title} – ${section}` : title;
+  return `${heading}. ${url} (retrieved ${retrievedAt})`;
+}
+
+function isoDate(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function slugify(title: string): string {
+  const slug = title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+    .replace(/-+$/, "");
+  return slug || "conversation";
+}
+
+/**
+ * Markdown
+ */
+
+export function renderMarkdown(document: ExportDocument): string {
+  const parts = document.blocks.map((block) => {
+    switch (block.type) {
+      case "heading":
+        return `${"#".repeat(block.level)} ${block.text}`;
+      case "paragraph":
+        return block.muted ? `_${block.text}_` : block.text;
+      case "markdown":
+        // Headings of the content go below the Question and Answer headings
+        return block.text.trim().replace(/^#{1,6}(?=\s)/gm, (hashes) => "#".repeat(Math.min(hashes.length + 2, 6)));
+      case "list":
+        return block.items.map((item, idx) => `${block.ordered ? `${idx + 1}.` : "-"} ${item}`).join("\n");
+      case "badges":
+        return block.items.map((item) => `\`${item}\``).join(" ");
+    }
+  });
+  return `${parts.join("\n\n")}\n`;
+}
+
+/**
+ * Plain text layout for PDF and DOCX
+ */
+
+export type TextBlock = Exclude<ExportBlock, { type: "markdown" }>;
+
+/**
+ * Blocks with the Markdown of message content turned into headings,
+ * lists and paragraphs of plain text
+ */
+export function toTextBlocks(blocks: ExportBlock[]): TextBlock[] {
+  return blocks.flatMap((block) => (block.type === "markdown" ? markdownToBlocks(block.text) : [block]));
+}
+
+function markdownToBlocks(markdown: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+    if (list) blocks.push({ type: "list", ...list });
+    paragraph = [];
+    list = null;
+  };
+
+  for (const rawLine of markdown.split("\n")) {
+    const line = rawLine.trim();
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const item = line.match(/^(?:([-*+])|\d+[.)])\s+(.*)$/);
+
+    if (!line || /^(-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: "heading", level: 3, text: stripInline(heading[1]!) });
+    } else if (item) {
+      const ordered = !item[1];
+      if (paragraph.length > 0 || (list && list.ordered !== ordered)) flush();
+      list ??= { ordered, items: [] };
+      list.items.push(stripInline(item[2]!));
+    } else if (list && /^\s{2,}/.test(rawLine)) {
+      // Continuation of the last list item
+      list.items[list.items.length - 1] += ` ${stripInline(line)}`;
+    } else {
+      if (list) flush();
+      paragraph.push(stripInline(line));
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function stripInline(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, url: string) =>
+      label && label !== url ? `${label} (${url})` : url
+    )
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])[*_]([^*_\s][^*_]*?)[*_](?=[^\w*]|$)/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/^>\s?/, "");
+}
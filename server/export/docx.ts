@@ -0,0 +1,184 @@
+/**
+ * DOCX renderer for conversation exports
+ * Writes the WordprocessingML parts of the document and packs them in a zip
+ * file, with headings in Word's heading styles so the outline and table of
+ * contents work.
+ */
+
+import { crc32, deflateRawSync } from "zlib";
+import { toTextBlocks, type ExportDocument, type TextBlock } from "./document";
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="21"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${[36, 28, 22]
+  .map(
+    (size, i) =>
+      `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/>` +
+      `<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+      `<w:pPr><w:keepNext/><w:spacing w:before="${i === 0 ? 0 : 240}" w:after="80"/><w:outlineLvl w:val="${i}"/></w:pPr>` +
+      `<w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`
+  )
+  .join("\n")}
+</w:styles>`;
+
+/**
+ * Render a document to a DOCX file
+ */
+export function renderDocx(document: ExportDocument, createdAt = new Date()): Buffer {
+  const body = toTextBlocks(document.blocks).map(blockXml).join("");
+  const documentXml =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}` +
+    `<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>` +
+    `<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/>` +
+    `</w:sectPr></w:body></w:document>`;
+  const coreXml =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    `xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ` +
+    `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+    `<dc:title>${escapeXml(document.title)}</dc:title><dc:creator>Workforce Luxembourg</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${createdAt.toISOString().slice(0, 19)}Z</dcterms:created>` +
+    `</cp:coreProperties>`;
+
+  return zip(
+    [
+      { name: "[Content_Types].xml", data: CONTENT_TYPES },
+      { name: "_rels/.rels", data: PACKAGE_RELS },
+      { name: "word/_rels/document.xml.rels", data: DOCUMENT_RELS },
+      { name: "word/document.xml", data: documentXml },
+      { name: "word/styles.xml", data: STYLES },
+      { name: "docProps/core.xml", data: coreXml },
+    ],
+    createdAt
+  );
+}
+
+/**
+ * Helper functions
+ */
+
+function blockXml(block: TextBlock): string {
+  switch (block.type) {
+    case "heading":
+      return paragraph(run(block.text), `<w:pStyle w:val="Heading${block.level}"/>`);
+    case "paragraph":
+      return paragraph(block.muted ? run(block.text, `<w:color w:val="666666"/><w:sz w:val="18"/>`) : run(block.text));
+    case "list":
+      return block.items
+        .map((item, idx) =>
+          paragraph(
+            run(`${block.ordered ? `${idx + 1}.` : "•"}\t${item}`),
+            `<w:tabs><w:tab w:val="left" w:pos="360"/></w:tabs><w:spacing w:after="60"/><w:ind w:left="360" w:hanging="360"/>`
+          )
+        )
+        .join("");
+    case "badges":
+      return paragraph(
+        block.items
+          .map((item) => run(` ${item} `, `<w:b/><w:sz w:val="18"/><w:color w:val="1E3A8A"/><w:shd w:val="clear" w:color="auto" w:fill="DBEAFE"/>`))
+          .join(run("  "))
+      );
+  }
+}
+
+function paragraph(runs: string, properties = ""): string {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ""}${runs}</w:p>`;
+}
+
+function run(text: string, properties = ""): string {
+  const parts = escapeXml(text)
+    .split("\t")
+    .map((part) => `<w:t xml:space="preserve">${part}</w:t>`);
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ""}${parts.join("<w:tab/>")}</w:r>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * A zip archive of the files, deflated
+ */
+function zip(files: Array<{ name: string; data: string }>, date: Date): Buffer {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const data = Buffer.from(file.data, "utf8");
+    const compressed = deflateRawSync(data);
+
+    // Fields shared by the local header and the central directory entry
+    const entry = Buffer.alloc(26);
+    entry.writeUInt16LE(20, 0); // version needed
+    entry.writeUInt16LE(0x0800, 2); // UTF-8 names
+    entry.writeUInt16LE(8, 4); // deflate
+    entry.writeUInt16LE(time, 6);
+    entry.writeUInt16LE(day, 8);
+    entry.writeUInt32LE(crc32(data), 10);
+    entry.writeUInt32LE(compressed.length, 14);
+    entry.writeUInt32LE(data.length, 18);
+    entry.writeUInt16LE(name.length, 22);
+    entry.writeUInt16LE(0, 24); // extra field length
+
+    const header = Buffer.concat([signature(0x04034b50), entry, name]);
+    local.push(header, compressed);
+
+    const trailer = Buffer.alloc(14); // comment length, disk, attributes, offset
+    trailer.writeUInt32LE(offset, 10);
+    central.push(Buffer.concat([signature(0x02014b50), Buffer.from([20, 0]), entry, trailer, name]));
+
+    offset += header.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, directory, end]);
+}
+
+function signature(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
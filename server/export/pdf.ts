@@ -0,0 +1,215 @@
+/**
+ * PDF renderer for conversation exports
+ * Lays the document out on A4 pages with the standard Helvetica fonts, so no
+ * font is embedded; text is encoded in WinAnsi, which covers French and German.
+ */
+
+import { toTextBlocks, type ExportDocument } from "./document";
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const LIST_INDENT = 18;
+
+type FontName = "F1" | "F2";
+
+interface TextStyle {
+  font: FontName;
+  size: number;
+  /** Space before the block, in points */
+  spaceBefore: number;
+  gray?: number;
+}
+
+const STYLES = {
+  h1: { font: "F2", size: 18, spaceBefore: 0 },
+  h2: { font: "F2", size: 14, spaceBefore: 16 },
+  h3: { font: "F2", size: 11, spaceBefore: 10 },
+  body: { font: "F1", size: 10.5, spaceBefore: 6 },
+  muted: { font: "F1", size: 9, spaceBefore: 6, gray: 0.4 },
+  badge: { font: "F2", size: 9, spaceBefore: 4, gray: 0.25 },
+} satisfies Record<string, TextStyle>;
+
+/** Helvetica advance widths of ASCII 32-126, in 1/1000 em */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+];
+
+/** WinAnsi codes of the characters outside Latin-1 it has */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "Œ": 0x8c, "‘": 0x91, "’": 0x92, "“": 0x93,
+  "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99, "œ": 0x9c, "Ÿ": 0x9f,
+};
+
+interface Line {
+  text: string;
+  style: TextStyle;
+  x: number;
+  /** Space above the line: its leading, plus the block spacing for a block's first line */
+  advance: number;
+}
+
+/**
+ * Render a document to a PDF file
+ */
+export function renderPdf(document: ExportDocument): Buffer {
+  const pages = paginate(layout(document));
+
+  // Objects 1-5 are the catalog, page tree, fonts and info; each page adds a page and its content
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${6 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Title ${utf16Hex(document.title)} /Producer (Workforce Luxembourg) >>`,
+  ];
+  pages.forEach((page, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + i * 2} 0 R >>`
+    );
+    const content = pageContent(page);
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Everything is ASCII, so string lengths are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
+
+/**
+ * Helper functions
+ */
+
+function layout(document: ExportDocument): Line[] {
+  const lines: Line[] = [];
+  const width = PAGE_WIDTH - 2 * MARGIN;
+
+  const add = (text: string, style: TextStyle, indent = 0, marker?: string) => {
+    wrap(text, style, width - indent).forEach((line, i) => {
+      const leading = style.size * 1.35;
+      lines.push({ text: line, style, x: MARGIN + indent, advance: i === 0 ? leading + style.spaceBefore : leading });
+      if (i === 0 && marker) {
+        lines.push({ text: marker, style, x: MARGIN + indent - LIST_INDENT, advance: 0 });
+      }
+    });
+  };
+
+  for (const block of toTextBlocks(document.blocks)) {
+    switch (block.type) {
+      case "heading":
+        add(block.text, STYLES[`h${block.level}`]);
+        break;
+      case "paragraph":
+        add(block.text, block.muted ? STYLES.muted : STYLES.body);
+        break;
+      case "list":
+        block.items.forEach((item, idx) =>
+          add(item, { ...STYLES.body, spaceBefore: idx === 0 ? 6 : 2 }, LIST_INDENT, block.ordered ? `${idx + 1}.` : "•")
+        );
+        break;
+      case "badges":
+        add(block.items.map((item) => `[${item}]`).join("  "), STYLES.badge);
+        break;
+    }
+  }
+  return lines;
+}
+
+function paginate(lines: Line[]): Line[][] {
+  const pages: Line[][] = [[]];
+  let used = 0;
+  for (const line of lines) {
+    // A list marker stays on the page of its item
+    if (used + line.advance > PAGE_HEIGHT - 2 * MARGIN && line.advance > 0) {
+      pages.push([]);
+      used = 0;
+    }
+    used += line.advance;
+    pages[pages.length - 1]!.push(line);
+  }
+  return pages;
+}
+
+function pageContent(lines: Line[]): string {
+  let y = PAGE_HEIGHT - MARGIN;
+  return lines
+    .map((line, i) => {
+      // Block spacing is not needed at the top of a page
+      y -= i === 0 ? line.style.size * 1.35 : line.advance;
+      return (
+        `BT ${line.style.gray ?? 0} g /${line.style.font} ${line.style.size} Tf ` +
+        `${line.x.toFixed(2)} ${y.toFixed(2)} Td ${winAnsiHex(line.text)} Tj ET`
+      );
+    })
+    .join("\n");
+}
+
+/**
+ * Split text into lines that fit the width, breaking words longer than a line
+ */
+function wrap(text: string, style: TextStyle, width: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (textWidth(candidate, style) <= width) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = "";
+    for (const char of word) {
+      if (current && textWidth(current + char, style) > width) {
+        lines.push(current);
+        current = "";
+      }
+      current += char;
+    }
+  }
+  if (current || lines.length === 0) lines.push(current);
+  return lines;
+}
+
+function textWidth(text: string, style: TextStyle): number {
+  // Helvetica-Bold is up to about 10% wider than the regular widths
+  const scale = (style.size / 1000) * (style.font === "F2" ? 1.1 : 1);
+  let width = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    width += (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32]! : 556) * scale;
+  }
+  return width;
+}
+
+/** Hex string of the text in WinAnsi; characters it lacks become "?" */
+function winAnsiHex(text: string): string {
+  let hex = "";
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const byte =
+      (code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff) ? code : (WIN_ANSI_EXTRAS[char] ?? 0x3f);
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return `<${hex}>`;
+}
+
+/** Hex string of the text in UTF-16, for document metadata */
+function utf16Hex(text: string): string {
+  return `<FEFF${Buffer.from(text, "utf16le").swap16().toString("hex").toUpperCase()}>`;
+}
@@ -1,23 +1,35 @@
 /**
  * Initialize Knowledge Base
- * Loads Guichet.lu content on server startup
+ * Loads the persisted corpus on server startup, scraping Guichet.lu only when it is empty
  */
 
 import { scrapeAllGuichetPages } from "./scrapers/guichet";
-import { addToKnowledgeBase, getKnowledgeBaseStats } from "./knowledge-base";
+import {
+  addToKnowledgeBase,
+  getKnowledgeBaseStats,
+  initializeKnowledgeBase as loadKnowledgeBase,
+} from "./knowledge-base";
 
 export async function initializeKnowledgeBase(): Promise<void> {
   console.log("[KB] Starting knowledge base initialization...");
 
   try {
+    // Reuse the corpus persisted by a previous run or another instance
+    const persisted = await loadKnowledgeBase();
+    if (persisted > 0) {
+      console.log(`[KB] Loaded ${persisted} items from database, skipping scrape`);
+      return;
+    }
+
     // Scrape Guichet.lu pages
     console.log("[KB] Scraping Guichet.lu content...");
     const content = await scrapeAllGuichetPages();
 
     if (content.length === 0) {
       console.warn("[KB] No content scraped from Guichet.lu. Using fallback data.");
-      // Add fallback content for testing
-      addToKnowledgeBase([
+      // Add fallback content for testing (kept out of the database so the
+      // next start retries the scrape)
+      await addToKnowledgeBase([
         {
           id: "fallback-1",
           title: "Employment Contracts in Luxembourg",
@@ -51,14 +63,14 @@ export async function initializeKnowledgeBase(): Promise<void> {
           lastUpdated: new Date(),
           language: "en",
         },
-      ]);
+      ], { persist: false });
     } else {
       // Add scraped content to knowledge base
-      addToKnowledgeBase(content);
+      await addToKnowledgeBase(content);
     }
 
     // Log statistics
-    const stats = getKnowledgeBaseStats();
+    const stats = await getKnowledgeBaseStats();
     console.log("[KB] Knowledge base initialized successfully!");
     console.log(`[KB] Total items: ${stats.totalItems}`);
     console.log(`[KB] Categories: ${stats.categories.join(", ")}`);
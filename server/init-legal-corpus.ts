@@ -0,0 +1,43 @@
+/**
+ * Initialize Legal Corpus
+ * Loads the persisted Legilux articles on server startup, ingesting the
+ * configured ELI documents only when the corpus is empty
+ */
+
+import { ENV } from "./_core/env";
+import { initializeLegalCorpus as loadLegalCorpus, replaceLegalDocument } from "./legal-corpus";
+import { CODE_DU_TRAVAIL_ELI, fetchLegiluxDocument } from "./scrapers/legilux";
+
+export async function initializeLegalCorpus(): Promise<void> {
+  console.log("[Legal] Starting legal corpus initialization...");
+
+  try {
+    const persisted = await loadLegalCorpus();
+    if (persisted > 0) {
+      console.log(`[Legal] Loaded ${persisted} articles from database, skipping ingestion`);
+      return;
+    }
+
+    const eliUris = ENV.legiluxEliUris
+      ? ENV.legiluxEliUris.split(",").map((uri) => uri.trim()).filter(Boolean)
+      : [CODE_DU_TRAVAIL_ELI];
+
+    for (const eliUri of eliUris) {
+      try {
+        console.log(`[Legal] Ingesting ${eliUri}...`);
+        const articles = await fetchLegiluxDocument(eliUri);
+        if (articles.length === 0) {
+          console.warn(`[Legal] No articles found in ${eliUri}`);
+          continue;
+        }
+        await replaceLegalDocument(eliUri, articles);
+      } catch (error) {
+        // One unavailable text should not keep the others out
+        console.error(`[Legal] Failed to ingest ${eliUri}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Legal] Failed to initialize legal corpus:", error);
+    // Continue with an empty corpus rather than crashing
+  }
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import {
   addToKnowledgeBase,
   searchKnowledgeBase,
@@ -6,8 +6,14 @@ import {
   getKnowledgeBaseStats,
   clearKnowledgeBase,
 } from "./knowledge-base";
+import { getKnowledgeBaseVersion } from "./db";
 import type { GuichetContent } from "./scrapers/guichet";
 
+vi.mock("./db", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return { ...actual, getKnowledgeBaseVersion: vi.fn(actual.getKnowledgeBaseVersion) };
+});
+
 describe("Knowledge Base", () => {
   beforeEach(() => {
     clearKnowledgeBase();
@@ -38,22 +44,22 @@ describe("Knowledge Base", () => {
     },
   ];
 
-  it("should add content to knowledge base", () => {
-    addToKnowledgeBase(mockContent);
-    const stats = getKnowledgeBaseStats();
+  it("should add content to knowledge base", async () => {
+    await addToKnowledgeBase(mockContent);
+    const stats = await getKnowledgeBaseStats();
     expect(stats.totalItems).toBe(2);
   });
 
-  it("should search knowledge base by keyword", () => {
-    addToKnowledgeBase(mockContent);
-    const results = searchKnowledgeBase("employment contracts", 5);
+  it("should search knowledge base by keyword", async () => {
+    await addToKnowledgeBase(mockContent);
+    const results = await searchKnowledgeBase("employment contracts", 5);
     expect(results.length).toBeGreaterThan(0);
     expect(results[0]?.title).toContain("Employment Contracts");
   });
 
-  it("should return empty array when no matches found", () => {
-    addToKnowledgeBase(mockContent);
-    const results = searchKnowledgeBase("nonexistent topic", 5);
+  it("should return empty array when no matches found", async () => {
+    await addToKnowledgeBase(mockContent);
+    const results = await searchKnowledgeBase("nonexistent topic", 5);
     expect(results.length).toBe(0);
   });
 
@@ -70,24 +76,74 @@ describe("Knowledge Base", () => {
     expect(excerpts.length).toBeGreaterThan(0);
   });
 
-  it("should get knowledge base statistics", () => {
-    addToKnowledgeBase(mockContent);
-    const stats = getKnowledgeBaseStats();
+  it("should get knowledge base statistics", async () => {
+    await addToKnowledgeBase(mockContent);
+    const stats = await getKnowledgeBaseStats();
     expect(stats.totalItems).toBe(2);
     expect(stats.categories).toContain("Employment");
     expect(stats.languages).toContain("en");
   });
 
-  it("should clear knowledge base", () => {
-    addToKnowledgeBase(mockContent);
+  it("should clear knowledge base", async () => {
+    await addToKnowledgeBase(mockContent);
     clearKnowledgeBase();
-    const stats = getKnowledgeBaseStats();
+    const stats = await getKnowledgeBaseStats();
     expect(stats.totalItems).toBe(0);
   });
 
-  it("should handle multiple search results with scoring", () => {
-    addToKnowledgeBase(mockContent);
-    const results = searchKnowledgeBase("wage salary", 5);
+  it("should replace documents re-added with the same id", async () => {
+    await addToKnowledgeBase(mockContent);
+    await addToKnowledgeBase([{ ...mockContent[0]!, title: "Updated Contracts" }]);
+    const stats = await getKnowledgeBaseStats();
+    expect(stats.totalItems).toBe(2);
+    const results = await searchKnowledgeBase("updated contracts", 5);
+    expect(results[0]?.title).toBe("Updated Contracts");
+  });
+
+  it("should keep searching the in-memory snapshot when the database sync fails", async () => {
+    await addToKnowledgeBase(mockContent);
+    vi.mocked(getKnowledgeBaseVersion).mockRejectedValueOnce(new Error("Connection lost"));
+
+    const results = await searchKnowledgeBase("minimum wage");
+
+    expect(results[0]?.id).toBe("test-2");
+  });
+
+  it("should not throw on queries with regex metacharacters", async () => {
+    await addToKnowledgeBase(mockContent);
+    const results = await searchKnowledgeBase("salary (gross) + wages?", 5);
+    expect(results.length).toBeGreaterThan(0);
+  });
+
+  it("should match accented content with unaccented queries", async () => {
+    await addToKnowledgeBase([
+      {
+        id: "test-fr",
+        title: "Congé annuel payé",
+        url: "https://guichet.public.lu/fr/citoyens/travail-emploi/conges.html",
+        content: "Chaque salarié a droit à un congé annuel payé de 26 jours ouvrables par année.",
+        section: "Congés",
+        category: "Leave",
+        lastUpdated: new Date(),
+        language: "fr",
+      },
+    ]);
+    const results = await searchKnowledgeBase("conge paye", 5);
+    expect(results[0]?.id).toBe("test-fr");
+  });
+
+  it("should support semantic and hybrid search modes", async () => {
+    await addToKnowledgeBase(mockContent);
+    const semantic = await searchKnowledgeBase("employment contract duration", 5, { mode: "semantic" });
+    expect(semantic[0]?.id).toBe("test-1");
+    const hybrid = await searchKnowledgeBase("minimum wage", 5, { mode: "hybrid" });
+    expect(hybrid[0]?.id).toBe("test-2");
+    expect(hybrid.length).toBeLessThanOrEqual(5);
+  });
+
+  it("should handle multiple search results with scoring", async () => {
+    await addToKnowledgeBase(mockContent);
+    const results = await searchKnowledgeBase("wage salary", 5);
     // Should find content mentioning wages
     expect(results.length).toBeGreaterThan(0);
   });
@@ -3,90 +3,340 @@
  * Stores and retrieves Guichet.lu content for chat responses
  */
 
-import { getDb } from "./db";
+import {
+  deleteKnowledgeBaseDocuments,
+  getDb,
+  getKnowledgeBaseDocumentIdsByUrl,
+  getKnowledgeBaseDocuments,
+  getKnowledgeBaseVersion,
+  upsertKnowledgeBaseDocuments,
+  upsertKnowledgeBaseLanguages,
+} from "./db";
+import { LANGUAGES } from "@shared/types";
+import type { KnowledgeBaseDocument } from "../drizzle/schema";
 import type { GuichetContent } from "./scrapers/guichet";
+import { buildBm25Index, searchBm25, type Bm25Index } from "./search/bm25";
+import { getEmbeddingProvider } from "./search/embeddings";
+import { reciprocalRankFusion } from "./search/fusion";
+import { searchVectors, type VectorIndex } from "./search/vector";
 
-// In-memory cache for knowledge base (will be persisted to DB)
+// Process-local snapshot of the knowledge base table. Without a database
+// (tests, local tooling) this is the only store.
 let knowledgeBaseCache: GuichetContent[] = [];
 let lastUpdated: Date | null = null;
+// Revision of the table the snapshot was loaded from
+let cacheVersion: string | null = null;
+// Built lazily from the snapshot, dropped whenever the snapshot changes
+let searchIndex: Bm25Index | null = null;
+let vectorIndex: Promise<VectorIndex> | null = null;
+const changeListeners = new Set<() => void>();
+
+export type SearchMode = "keyword" | "semantic" | "hybrid";
+
+// Semantic hits below this cosine similarity are treated as noise
+const MIN_SEMANTIC_SIMILARITY = 0.25;
+// Keep embedding inputs within what remote providers accept
+const MAX_EMBEDDING_CHARS = 8000;
 
 /**
  * Initialize knowledge base from database
+ * Returns the number of documents loaded
  */
-export async function initializeKnowledgeBase(): Promise<void> {
+export async function initializeKnowledgeBase(): Promise<number> {
   try {
     const db = await getDb();
     if (!db) {
       console.warn("Database not available for knowledge base initialization");
-      return;
+      return knowledgeBaseCache.length;
     }
 
-    // For now, we'll use in-memory storage
-    // In production, you'd query from a knowledge_base table
-    console.log("Knowledge base initialized");
-    lastUpdated = new Date();
+    await syncKnowledgeBase();
+    console.log(`Knowledge base initialized with ${knowledgeBaseCache.length} items`);
+    return knowledgeBaseCache.length;
   } catch (error) {
     console.error("Failed to initialize knowledge base:", error);
+    return knowledgeBaseCache.length;
+  }
+}
+
+/**
+ * Reload the snapshot when another instance has changed the table
+ * When the database cannot be reached, searches keep using the snapshot.
+ */
+async function syncKnowledgeBase(): Promise<void> {
+  try {
+    await reloadIfChanged();
+  } catch (error) {
+    console.warn("[KnowledgeBase] Sync failed, using the in-memory snapshot:", error);
   }
 }
 
+async function reloadIfChanged(): Promise<void> {
+  const version = await getKnowledgeBaseVersion();
+  if (version === null || version === cacheVersion) return;
+
+  const documents = await getKnowledgeBaseDocuments();
+  knowledgeBaseCache = documents.map(toGuichetContent);
+  invalidateIndexes();
+  lastUpdated = documents.reduce<Date | null>(
+    (latest, d) => (!latest || d.updatedAt > latest ? d.updatedAt : latest),
+    null
+  );
+  cacheVersion = version;
+}
+
+function invalidateIndexes(): void {
+  searchIndex = null;
+  vectorIndex = null;
+  changeListeners.forEach((listener) => listener());
+}
+
+/**
+ * Run a callback whenever the knowledge base content changes
+ * (locally or, once synced, on another instance). Returns an unsubscribe function.
+ */
+export function onKnowledgeBaseChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+function toGuichetContent(document: KnowledgeBaseDocument): GuichetContent {
+  return {
+    id: document.id,
+    title: document.title,
+    url: document.url,
+    content: document.content,
+    section: document.section,
+    category: document.category,
+    lastUpdated: document.lastUpdated,
+    language: document.language as GuichetContent["language"],
+  };
+}
+
+/**
+ * Split content into the paragraphs the scraper joined together
+ */
+function splitIntoChunks(content: string): string[] {
+  return content
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+}
+
 /**
  * Add content to knowledge base
+ * Documents with an existing id replace the stored version.
+ * Pass persist: false to keep content in this process only (e.g. fallback data).
  */
-export function addToKnowledgeBase(contents: GuichetContent[]): void {
-  knowledgeBaseCache.push(...contents);
+export async function addToKnowledgeBase(
+  contents: GuichetContent[],
+  options: { persist?: boolean } = {}
+): Promise<void> {
+  const db = options.persist === false ? null : await getDb();
+
+  if (db && contents.length > 0) {
+    await upsertKnowledgeBaseLanguages(
+      Array.from(new Set(contents.map((c) => c.language))).map((code) => ({
+        code,
+        name: LANGUAGES[code],
+      }))
+    );
+    await upsertKnowledgeBaseDocuments(
+      contents.map((c) => ({
+        id: c.id,
+        url: c.url,
+        title: c.title,
+        section: c.section,
+        category: c.category,
+        language: c.language,
+        content: c.content,
+        lastUpdated: c.lastUpdated,
+      })),
+      contents.flatMap((c) =>
+        splitIntoChunks(c.content).map((chunk, chunkIndex) => ({
+          documentId: c.id,
+          chunkIndex,
+          content: chunk,
+        }))
+      )
+    );
+  }
+
+  const ids = new Set(contents.map((c) => c.id));
+  knowledgeBaseCache = [
+    ...knowledgeBaseCache.filter((c) => !ids.has(c.id)),
+    ...contents,
+  ];
+  invalidateIndexes();
   lastUpdated = new Date();
   console.log(`Added ${contents.length} items to knowledge base`);
 }
 
+/**
+ * Remove documents from the knowledge base
+ */
+export async function removeFromKnowledgeBase(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const db = await getDb();
+  if (db) {
+    await deleteKnowledgeBaseDocuments(ids);
+  }
+
+  const removed = new Set(ids);
+  knowledgeBaseCache = knowledgeBaseCache.filter((c) => !removed.has(c.id));
+  invalidateIndexes();
+  lastUpdated = new Date();
+  console.log(`Removed ${ids.length} items from knowledge base`);
+}
+
+/**
+ * Replace the passages scraped from one page.
+ * Passage ids are content hashes, so passages whose id is already stored are
+ * unchanged and left alone; only new passages are written and only passages
+ * no longer on the page are deleted.
+ */
+export async function replacePagePassages(
+  url: string,
+  passages: GuichetContent[]
+): Promise<{ added: number; removed: number }> {
+  const db = await getDb();
+  const existingIds = db
+    ? await getKnowledgeBaseDocumentIdsByUrl(url)
+    : knowledgeBaseCache.filter((c) => c.url === url).map((c) => c.id);
+
+  const existing = new Set(existingIds);
+  const incoming = new Set(passages.map((p) => p.id));
+  const added = passages.filter((p) => !existing.has(p.id));
+  const removed = existingIds.filter((id) => !incoming.has(id));
+
+  await removeFromKnowledgeBase(removed);
+  if (added.length > 0) {
+    await addToKnowledgeBase(added);
+  }
+
+  return { added: added.length, removed: removed.length };
+}
+
+/**
+ * Build (or reuse) the embedding index for the current snapshot
+ */
+function getVectorIndex(): Promise<VectorIndex> {
+  if (!vectorIndex) {
+    const provider = getEmbeddingProvider();
+    const documents = knowledgeBaseCache;
+    const building = provider
+      .embed(
+        documents.map((c) =>
+          `${c.title}\n${c.section}\n${c.content}`.slice(0, MAX_EMBEDDING_CHARS)
+        )
+      )
+      .then((vectors) => ({
+        provider: provider.name,
+        entries: documents.map((c, i) => ({ id: c.id, vector: vectors[i] })),
+      }));
+    // Let the next search retry if the provider fails
+    building.catch(() => {
+      if (vectorIndex === building) vectorIndex = null;
+    });
+    vectorIndex = building;
+  }
+  return vectorIndex;
+}
+
+async function rankBySimilarity(
+  query: string,
+  limit: number
+): Promise<Array<{ id: string; score: number }>> {
+  const index = await getVectorIndex();
+  const [queryVector] = await getEmbeddingProvider().embed([query]);
+  return searchVectors(index, queryVector, limit, MIN_SEMANTIC_SIMILARITY).map((hit) => ({
+    id: hit.id,
+    score: hit.similarity,
+  }));
+}
+
 /**
  * Search knowledge base for relevant content
+ * keyword: BM25 over title, section and content (default)
+ * semantic: cosine similarity over document embeddings
+ * hybrid: both rankings fused with reciprocal rank fusion
+ */
+export async function searchKnowledgeBase(
+  query: string,
+  limit: number = 5,
+  options: { mode?: SearchMode; language?: GuichetContent["language"] } = {}
+): Promise<GuichetContent[]> {
+  return (await rankKnowledgeBase(query, limit, options)).map((hit) => hit.content);
+}
+
+/**
+ * Search knowledge base, keeping each hit's relevance score in [0, 1]
+ * keyword scores are relative to the best BM25 hit, semantic scores are cosine
+ * similarities and hybrid scores are RRF scores over the best achievable RRF score.
+ * With a language, only content in that language is returned.
  */
-export function searchKnowledgeBase(
+export async function rankKnowledgeBase(
   query: string,
-  limit: number = 5
-): GuichetContent[] {
+  limit: number = 5,
+  options: { mode?: SearchMode; language?: GuichetContent["language"] } = {}
+): Promise<Array<{ content: GuichetContent; score: number }>> {
+  await syncKnowledgeBase();
+
   if (knowledgeBaseCache.length === 0) {
     return [];
   }
 
-  const queryLower = query.toLowerCase();
-  const keywords = queryLower.split(/\s+/).filter((w) => w.length > 2);
-
-  // Score each content based on keyword matches
-  const scored = knowledgeBaseCache.map((content) => {
-    let score = 0;
-
-    // Check title matches (higher weight)
-    keywords.forEach((keyword) => {
-      if (content.title.toLowerCase().includes(keyword)) {
-        score += 5;
-      }
-    });
+  const mode = options.mode ?? "keyword";
+  const byId = new Map(knowledgeBaseCache.map((c) => [c.id, c]));
+  // Fuse deeper candidate lists than we return so RRF has overlap to work with;
+  // a language filter drops hits after ranking, so rank the whole corpus then
+  const candidates = options.language
+    ? knowledgeBaseCache.length
+    : mode === "hybrid"
+      ? Math.max(limit * 4, 20)
+      : limit;
 
-    // Check section matches
-    keywords.forEach((keyword) => {
-      if (content.section.toLowerCase().includes(keyword)) {
-        score += 3;
-      }
-    });
+  const rankings: Array<Array<{ id: string; score: number }>> = [];
+  if (mode !== "semantic") {
+    if (!searchIndex) {
+      searchIndex = buildBm25Index(knowledgeBaseCache);
+    }
+    const hits = searchBm25(searchIndex, query, candidates);
+    const best = hits[0]?.score ?? 1;
+    rankings.push(hits.map((hit) => ({ id: hit.id, score: hit.score / best })));
+  }
+  if (mode !== "keyword") {
+    try {
+      rankings.push(await rankBySimilarity(query, candidates));
+    } catch (error) {
+      // Degrade to keyword-only ranking rather than failing the chat request
+      console.error("Semantic search failed:", error);
+      if (mode === "semantic") return [];
+    }
+  }
 
-    // Check content matches
-    keywords.forEach((keyword) => {
-      const matches = (content.content.match(new RegExp(keyword, "gi")) || [])
-        .length;
-      score += Math.min(matches, 5); // Cap at 5 to avoid domination
-    });
+  const ranked =
+    rankings.length === 1
+      ? rankings[0]
+      : reciprocalRankFusion(rankings.map((ranking) => ranking.map((hit) => hit.id))).map(
+          (hit) => ({ id: hit.id, score: hit.score / maxFusedScore(rankings.length) })
+        );
 
-    return { content, score };
-  });
+  return ranked
+    .map((hit) => ({ content: byId.get(hit.id), score: hit.score }))
+    .filter(
+      (hit): hit is { content: GuichetContent; score: number } =>
+        hit.content !== undefined && (!options.language || hit.content.language === options.language)
+    )
+    .slice(0, limit);
+}
 
-  // Sort by score and return top results
-  return scored
-    .filter((item) => item.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit)
-    .map((item) => item.content);
+/**
+ * RRF score of a document ranked first everywhere
+ */
+function maxFusedScore(rankings: number): number {
+  return reciprocalRankFusion(Array.from({ length: rankings }, () => ["top"]))[0].score;
 }
 
 /**
@@ -129,12 +379,14 @@ export function extractExcerpts(
 /**
  * Get knowledge base statistics
  */
-export function getKnowledgeBaseStats(): {
+export async function getKnowledgeBaseStats(): Promise<{
   totalItems: number;
   lastUpdated: Date | null;
   categories: string[];
   languages: string[];
-} {
+}> {
+  await syncKnowledgeBase();
+
   const categories = Array.from(new Set(knowledgeBaseCache.map((c) => c.category)));
   const languages = Array.from(new Set(knowledgeBaseCache.map((c) => c.language)));
 
@@ -147,11 +399,13 @@ export function getKnowledgeBaseStats(): {
 }
 
 /**
- * Clear knowledge base (for testing)
+ * Clear the local knowledge base snapshot (for testing)
  */
 export function clearKnowledgeBase(): void {
   knowledgeBaseCache = [];
+  invalidateIndexes();
   lastUpdated = null;
+  cacheVersion = null;
 }
 
 /**
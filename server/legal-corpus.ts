@@ -0,0 +1,198 @@
+/**
+ * Legal Corpus Management
+ * Stores and searches Legilux articles for the legal agent
+ */
+
+import { getDb, getLegalArticles, getLegalCorpusVersion, replaceLegalArticles } from "./db";
+import type { LegalArticleRow } from "../drizzle/schema";
+import {
+  formatArticleCitation,
+  formatArticlePath,
+  normalizeArticleNumber,
+  type LegalArticle,
+} from "./scrapers/legilux";
+import { buildBm25Index, searchBm25, type Bm25Index } from "./search/bm25";
+
+// Process-local snapshot of the legal articles table. Without a database
+// (tests, local tooling) this is the only store.
+let articleCache: LegalArticle[] = [];
+// Fingerprint of the table the snapshot was loaded from
+let cacheVersion: string | null = null;
+// Built lazily from the snapshot, dropped whenever the snapshot changes
+let searchIndex: Bm25Index | null = null;
+const changeListeners = new Set<() => void>();
+
+// "Art. L. 121-1", "article L.121-1", "L121-1"
+const ARTICLE_REFERENCE = /\b(?:art(?:icle)?\.?\s*)?([LR]\s*\.?\s*\d+(?:\s*-\s*\d+)+)/gi;
+
+/**
+ * Load the legal corpus from the database
+ * Returns the number of articles loaded
+ */
+export async function initializeLegalCorpus(): Promise<number> {
+  try {
+    const db = await getDb();
+    if (!db) {
+      console.warn("Database not available for legal corpus initialization");
+      return articleCache.length;
+    }
+
+    await syncLegalCorpus();
+    console.log(`Legal corpus initialized with ${articleCache.length} articles`);
+    return articleCache.length;
+  } catch (error) {
+    console.error("Failed to initialize legal corpus:", error);
+    return articleCache.length;
+  }
+}
+
+/**
+ * Reload the snapshot when another instance has changed the table
+ * When the database cannot be reached, searches keep using the snapshot.
+ */
+async function syncLegalCorpus(): Promise<void> {
+  try {
+    await reloadIfChanged();
+  } catch (error) {
+    console.warn("[LegalCorpus] Sync failed, using the in-memory snapshot:", error);
+  }
+}
+
+async function reloadIfChanged(): Promise<void> {
+  const version = await getLegalCorpusVersion();
+  if (version === null || version === cacheVersion) return;
+
+  articleCache = (await getLegalArticles()).map(toLegalArticle);
+  invalidateIndex();
+  cacheVersion = version;
+}
+
+function invalidateIndex(): void {
+  searchIndex = null;
+  changeListeners.forEach((listener) => listener());
+}
+
+/**
+ * Run a callback whenever the legal corpus changes. Returns an unsubscribe function.
+ */
+export function onLegalCorpusChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+function toLegalArticle(row: LegalArticleRow): LegalArticle {
+  return {
+    id: row.id,
+    eliUri: row.eliUri,
+    url: row.url,
+    documentTitle: row.documentTitle,
+    articleNumber: row.articleNumber,
+    livre: row.livre,
+    titre: row.titre,
+    chapitre: row.chapitre,
+    section: row.section,
+    content: row.content,
+    language: row.language as LegalArticle["language"],
+    versionDate: row.versionDate,
+  };
+}
+
+/**
+ * Replace the articles ingested from one ELI document
+ * Pass persist: false to keep them in this process only.
+ */
+export async function replaceLegalDocument(
+  eliUri: string,
+  articles: LegalArticle[],
+  options: { persist?: boolean } = {}
+): Promise<void> {
+  const db = options.persist === false ? null : await getDb();
+  if (db) {
+    await replaceLegalArticles(eliUri, articles);
+  }
+
+  articleCache = [...articleCache.filter((a) => a.eliUri !== eliUri), ...articles];
+  invalidateIndex();
+  console.log(`Stored ${articles.length} articles from ${eliUri}`);
+}
+
+/**
+ * Search the legal corpus
+ */
+export async function searchLegalArticles(
+  query: string,
+  limit: number = 5,
+  options: { language?: LegalArticle["language"] } = {}
+): Promise<LegalArticle[]> {
+  return (await rankLegalArticles(query, limit, options)).map((hit) => hit.article);
+}
+
+/**
+ * Search the legal corpus, keeping each hit's relevance score in [0, 1]
+ * Articles cited by number in the query come first with score 1, then BM25
+ * matches scored relative to the best one.
+ */
+export async function rankLegalArticles(
+  query: string,
+  limit: number = 5,
+  options: { language?: LegalArticle["language"] } = {}
+): Promise<Array<{ article: LegalArticle; score: number }>> {
+  await syncLegalCorpus();
+
+  const inLanguage = (a: LegalArticle) => !options.language || a.language === options.language;
+  if (!articleCache.some(inLanguage)) {
+    return [];
+  }
+
+  const referenced = new Set(
+    Array.from(query.matchAll(ARTICLE_REFERENCE)).map((m) => normalizeArticleNumber(m[1]))
+  );
+  const cited = articleCache
+    .filter((a) => referenced.has(a.articleNumber) && inLanguage(a))
+    .map((article) => ({ article, score: 1 }));
+
+  if (!searchIndex) {
+    searchIndex = buildBm25Index(
+      articleCache.map((a) => ({
+        id: a.id,
+        language: a.language,
+        title: `${formatArticleCitation(a)} ${a.documentTitle}`,
+        section: formatArticlePath(a),
+        content: a.content,
+      }))
+    );
+  }
+
+  const byId = new Map(articleCache.map((a) => [a.id, a]));
+  const hits = searchBm25(searchIndex, query, options.language ? articleCache.length : limit);
+  const best = hits[0]?.score ?? 1;
+  const ranked = hits
+    .map((hit) => ({ article: byId.get(hit.id), score: hit.score / best }))
+    .filter(
+      (hit): hit is { article: LegalArticle; score: number } =>
+        hit.article !== undefined && inLanguage(hit.article) && !referenced.has(hit.article.articleNumber)
+    );
+
+  return [...cited, ...ranked].slice(0, limit);
+}
+
+/**
+ * Get legal corpus statistics
+ */
+export async function getLegalCorpusStats(): Promise<{ totalArticles: number; documents: string[] }> {
+  await syncLegalCorpus();
+
+  return {
+    totalArticles: articleCache.length,
+    documents: Array.from(new Set(articleCache.map((a) => a.eliUri))),
+  };
+}
+
+/**
+ * Clear the local legal corpus snapshot (for testing)
+ */
+export function clearLegalCorpus(): void {
+  articleCache = [];
+  invalidateIndex();
+  cacheVersion = null;
+}
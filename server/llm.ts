@@ -4,6 +4,7 @@
  */
 
 import { invokeLLM } from "./_core/llm";
+import { streamText } from "./llm/gateway";
 import type { ExpertiseMode, Language } from "@shared/types";
 
 export interface QueryRoutingResult {
@@ -47,6 +48,7 @@ Analyze the user's question and classify it into one of three expertise modes:
 Respond in JSON format with: { "mode": "procedural|legal|ai_innovation", "confidence": 0-1, "reasoning": "brief explanation" }`;
 
   const response = await invokeLLM({
+    profile: "router",
     messages: [
       { role: "system", content: systemPrompt },
       { role: "user", content: `Classify this query (${language}): "${userMessage}"` },
@@ -91,6 +93,42 @@ Respond in JSON format with: { "mode": "procedural|legal|ai_innovation", "confid
 export async function generateChatResponse(
   request: LLMChatRequest
 ): Promise<LLMChatResponse> {
+  const response = await invokeLLM({ messages: buildChatMessages(request) });
+
+  const messageContent = response.choices[0]?.message.content;
+  if (!messageContent) throw new Error("Failed to generate response");
+
+  // Handle both string and array content
+  const content = typeof messageContent === "string" ? messageContent : JSON.stringify(messageContent);
+
+  // Extract sources from content (simple pattern matching for now)
+  const sources = extractSources(content);
+
+  return {
+    content: content || "",
+    mode: request.mode || "procedural",
+    sources,
+  };
+}
+
+/**
+ * Stream a chat response token by token
+ * Same prompt as generateChatResponse; sources are extracted by the caller
+ * from the complete text with extractSources.
+ */
+export function streamChatResponse(
+  request: LLMChatRequest,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  return streamText("specialist", { messages: buildChatMessages(request) }, signal);
+}
+
+/**
+ * System prompt, history and the user message with its sources appended
+ */
+function buildChatMessages(
+  request: LLMChatRequest
+): Array<{ role: "system" | "user" | "assistant"; content: string }> {
   const systemPrompt = buildSystemPrompt(request.mode || "procedural", request.language);
 
   const messages = [
@@ -110,27 +148,7 @@ export async function generateChatResponse(
     messages[messages.length - 1].content += contextMessage;
   }
 
-  const response = await invokeLLM({
-    messages: messages as Array<{
-      role: "system" | "user" | "assistant";
-      content: string;
-    }>,
-  });
-
-  const messageContent = response.choices[0]?.message.content;
-  if (!messageContent) throw new Error("Failed to generate response");
-
-  // Handle both string and array content
-  const content = typeof messageContent === "string" ? messageContent : JSON.stringify(messageContent);
-
-  // Extract sources from content (simple pattern matching for now)
-  const sources = extractSources(content);
-
-  return {
-    content: content || "",
-    mode: request.mode || "procedural",
-    sources,
-  };
+  return messages;
 }
 
 /**
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { checkUsageLimits, enforceUsageLimits, resolveUsageLimits, UsageLimitError } from "./budget";
+import { countQuestions, getSpendTotals, getUsageLimits } from "../db";
+
+vi.mock("../db", () => ({
+  getUsageLimits: vi.fn(),
+  getSpendTotals: vi.fn(),
+  countQuestions: vi.fn(),
+}));
+
+const now = new Date("2026-03-14T10:00:00Z");
+
+function limits(values: Record<string, number | null>) {
+  return {
+    id: 1,
+    userId: null,
+    externalSiteKey: null,
+    monthlyTokenBudget: null,
+    monthlyCostBudget: null,
+    dailyMessageQuota: null,
+    warningRatio: null,
+    updatedAt: now,
+    ...values,
+  };
+}
+
+describe("usage budgets and quotas", () => {
+  beforeEach(() => {
+    vi.mocked(getUsageLimits).mockReset().mockResolvedValue(undefined);
+    vi.mocked(getSpendTotals).mockReset().mockResolvedValue({
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      estimatedCost: 0,
+    });
+    vi.mocked(countQuestions).mockReset().mockResolvedValue(0);
+  });
+
+  it("is unlimited without configured limits", async () => {
+    expect(await checkUsageLimits({ userId: 1, siteKey: "wl_site", language: "en", now })).toEqual([]);
+    expect(getSpendTotals).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the defaults for limits a row leaves unset", async () => {
+    vi.mocked(getUsageLimits).mockResolvedValue(limits({ dailyMessageQuota: 20 }));
+
+    expect(await resolveUsageLimits({ userId: 1 })).toEqual({
+      monthlyTokenBudget: 0,
+      monthlyCostBudget: 0,
+      dailyMessageQuota: 20,
+      warningRatio: 0.8,
+    });
+  });
+
+  it("warns in the conversation's language from the warning ratio", async () => {
+    vi.mocked(getUsageLimits).mockResolvedValue(limits({ monthlyTokenBudget: 10_000 }));
+    vi.mocked(getSpendTotals).mockResolvedValue({
+      calls: 12,
+      promptTokens: 7_000,
+      completionTokens: 1_500,
+      estimatedCost: 0.01,
+    });
+
+    const notices = await enforceUsageLimits({ userId: 1, language: "fr", now });
+
+    expect(notices).toEqual([
+      {
+        level: "warning",
+        scope: "user",
+        limit: "monthly_tokens",
+        used: 8_500,
+        allowed: 10_000,
+        resetsAt: new Date("2026-04-01T00:00:00Z"),
+        message: "Vous avez utilisé 85 % de votre quota mensuel.",
+      },
+    ]);
+    expect(getSpendTotals).toHaveBeenCalledWith({ userId: 1, from: new Date("2026-03-01T00:00:00Z") });
+  });
+
+  it("refuses the turn once an integration's daily quota is reached", async () => {
+    vi.mocked(getUsageLimits).mockImplementation(async (owner) =>
+      "siteKey" in owner ? limits({ dailyMessageQuota: 50 }) : undefined
+    );
+    vi.mocked(countQuestions).mockResolvedValue(50);
+
+    const error = await enforceUsageLimits({ userId: 1, siteKey: "wl_site", language: "de", now }).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(UsageLimitError);
+    expect(error.message).toBe(
+      "Dieser Assistent hat sein Tageslimit an Fragen erreicht. Bitte versuchen Sie es morgen erneut."
+    );
+    expect(error.notices[0]).toMatchObject({
+      level: "exceeded",
+      scope: "integration",
+      limit: "daily_messages",
+      resetsAt: new Date("2026-03-15T00:00:00Z"),
+    });
+    expect(countQuestions).toHaveBeenCalledWith({ siteKey: "wl_site", since: new Date("2026-03-14T00:00:00Z") });
+  });
+
+  it("stops at the cost budget even when tokens remain", async () => {
+    vi.mocked(getUsageLimits).mockResolvedValue(
+      limits({ monthlyTokenBudget: 1_000_000, monthlyCostBudget: 5, warningRatio: 0.9 })
+    );
+    vi.mocked(getSpendTotals).mockResolvedValue({
+      calls: 400,
+      promptTokens: 200_000,
+      completionTokens: 100_000,
+      estimatedCost: 5.2,
+    });
+
+    const notices = await checkUsageLimits({ userId: 1, language: "en", now });
+
+    expect(notices.map((n) => [n.limit, n.level])).toEqual([["monthly_cost", "exceeded"]]);
+    expect(notices[0]!.message).toBe(
+      "You have used your monthly allowance. It will be renewed at the start of next month."
+    );
+  });
+
+  it("does not warn with a warning ratio of 0, but still refuses at the limit", async () => {
+    vi.mocked(getUsageLimits).mockResolvedValue(limits({ dailyMessageQuota: 20, warningRatio: 0 }));
+
+    vi.mocked(countQuestions).mockResolvedValue(0);
+    expect(await checkUsageLimits({ userId: 1, language: "en", now })).toEqual([]);
+    vi.mocked(countQuestions).mockResolvedValue(19);
+    expect(await checkUsageLimits({ userId: 1, language: "en", now })).toEqual([]);
+
+    vi.mocked(countQuestions).mockResolvedValue(20);
+    await expect(enforceUsageLimits({ userId: 1, language: "en", now })).rejects.toBeInstanceOf(UsageLimitError);
+  });
+});
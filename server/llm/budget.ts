@@ -0,0 +1,195 @@
+/**
+ * LLM budgets and quotas
+ * Monthly token and cost budgets and daily question quotas, per user and per
+ * integration (site key). A turn is refused once a limit is reached, and
+ * answered with a warning once usage passes the warning ratio.
+ */
+
+import { ENV } from "../_core/env";
+import { countQuestions, getSpendTotals, getUsageLimits } from "../db";
+import type { Language, UsageNotice } from "@shared/types";
+
+export interface UsageLimits {
+  /** 0 means unlimited */
+  monthlyTokenBudget: number;
+  /** USD; 0 means unlimited */
+  monthlyCostBudget: number;
+  /** 0 means unlimited */
+  dailyMessageQuota: number;
+  /** Share of a limit from which turns carry a warning; 0 means no warnings */
+  warningRatio: number;
+}
+
+/** The user or integration a set of limits applies to */
+export type UsageOwner = { userId: number } | { siteKey: string };
+
+/**
+ * A turn refused because a limit is reached
+ * The message is the localised text of the first exceeded limit.
+ */
+export class UsageLimitError extends Error {
+  constructor(public notices: UsageNotice[]) {
+    super(notices.find((n) => n.level === "exceeded")?.message ?? "Usage limit reached");
+    this.name = "UsageLimitError";
+  }
+}
+
+type Scope = UsageNotice["scope"];
+type NoticeKey = `${Scope}.${"daily" | "monthly"}.${UsageNotice["level"]}`;
+
+/** {allowed} and {percent} are filled in from the notice */
+const NOTICE_MESSAGES: Record<Language, Record<NoticeKey, string>> = {
+  en: {
+    "user.daily.warning": "You are close to your daily limit of {allowed} questions.",
+    "user.daily.exceeded": "You have reached your daily limit of {allowed} questions. Please try again tomorrow.",
+    "user.monthly.warning": "You have used {percent}% of your monthly allowance.",
+    "user.monthly.exceeded":
+      "You have used your monthly allowance. It will be renewed at the start of next month.",
+    "integration.daily.warning": "This assistant is close to its daily limit of questions.",
+    "integration.daily.exceeded":
+      "This assistant has reached its daily limit of questions. Please try again tomorrow.",
+    "integration.monthly.warning": "This assistant has used {percent}% of its monthly allowance.",
+    "integration.monthly.exceeded":
+      "This assistant has used its monthly allowance. It will be available again at the start of next month.",
+  },
+  fr: {
+    "user.daily.warning": "Vous approchez de votre limite quotidienne de {allowed} questions.",
+    "user.daily.exceeded":
+      "Vous avez atteint votre limite quotidienne de {allowed} questions. Veuillez réessayer demain.",
+    "user.monthly.warning": "Vous avez utilisé {percent} % de votre quota mensuel.",
+    "user.monthly.exceeded":
+      "Vous avez épuisé votre quota mensuel. Il sera renouvelé au début du mois prochain.",
+    "integration.daily.warning": "Cet assistant approche de sa limite quotidienne de questions.",
+    "integration.daily.exceeded":
+      "Cet assistant a atteint sa limite quotidienne de questions. Veuillez réessayer demain.",
+    "integration.monthly.warning": "Cet assistant a utilisé {percent} % de son quota mensuel.",
+    "integration.monthly.exceeded":
+      "Cet assistant a épuisé son quota mensuel. Il sera de nouveau disponible au début du mois prochain.",
+  },
+  de: {
+    "user.daily.warning": "Sie nähern sich Ihrem Tageslimit von {allowed} Fragen.",
+    "user.daily.exceeded":
+      "Sie haben Ihr Tageslimit von {allowed} Fragen erreicht. Bitte versuchen Sie es morgen erneut.",
+    "user.monthly.warning": "Sie haben {percent} % Ihres monatlichen Kontingents verbraucht.",
+    "user.monthly.exceeded":
+      "Sie haben Ihr monatliches Kontingent aufgebraucht. Es wird zu Beginn des nächsten Monats erneuert.",
+    "integration.daily.warning": "Dieser Assistent nähert sich seinem Tageslimit an Fragen.",
+    "integration.daily.exceeded":
+      "Dieser Assistent hat sein Tageslimit an Fragen erreicht. Bitte versuchen Sie es morgen erneut.",
+    "integration.monthly.warning":
+      "Dieser Assistent hat {percent} % seines monatlichen Kontingents verbraucht.",
+    "integration.monthly.exceeded":
+      "Dieser Assistent hat sein monatliches Kontingent aufgebraucht. Er ist zu Beginn des nächsten Monats wieder verfügbar.",
+  },
+};
+
+function noticeMessage(notice: Omit<UsageNotice, "message">, language: Language): string {
+  const period = notice.limit === "daily_messages" ? "daily" : "monthly";
+  const template = (NOTICE_MESSAGES[language] ?? NOTICE_MESSAGES.en)[`${notice.scope}.${period}.${notice.level}`];
+  return template
+    .replace("{allowed}", String(notice.allowed))
+    .replace("{percent}", String(Math.min(100, Math.round((notice.used / notice.allowed) * 100))));
+}
+
+function defaultLimits(scope: Scope): UsageLimits {
+  return scope === "user"
+    ? {
+        monthlyTokenBudget: ENV.userMonthlyTokenBudget,
+        monthlyCostBudget: ENV.userMonthlyCostBudget,
+        dailyMessageQuota: ENV.userDailyMessageQuota,
+        warningRatio: ENV.usageWarningRatio,
+      }
+    : {
+        monthlyTokenBudget: ENV.integrationMonthlyTokenBudget,
+        monthlyCostBudget: ENV.integrationMonthlyCostBudget,
+        dailyMessageQuota: ENV.integrationDailyMessageQuota,
+        warningRatio: ENV.usageWarningRatio,
+      };
+}
+
+/**
+ * Limits of a user or integration: its own where set, the defaults otherwise
+ */
+export async function resolveUsageLimits(owner: UsageOwner): Promise<UsageLimits> {
+  const row = await getUsageLimits(owner);
+  const fallback = defaultLimits("userId" in owner ? "user" : "integration");
+  return {
+    monthlyTokenBudget: row?.monthlyTokenBudget ?? fallback.monthlyTokenBudget,
+    monthlyCostBudget: row?.monthlyCostBudget ?? fallback.monthlyCostBudget,
+    dailyMessageQuota: row?.dailyMessageQuota ?? fallback.dailyMessageQuota,
+    warningRatio: row?.warningRatio ?? fallback.warningRatio,
+  };
+}
+
+/**
+ * Notices for the limits of one user or integration that are nearly or fully used
+ * Days and months are calendar periods in UTC.
+ */
+async function checkOwner(owner: UsageOwner, language: Language, now: Date): Promise<UsageNotice[]> {
+  const scope: Scope = "userId" in owner ? "user" : "integration";
+  const limits = await resolveUsageLimits(owner);
+  const filter = "userId" in owner ? { userId: owner.userId } : { siteKey: owner.siteKey };
+
+  const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const nextDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+  const [spend, questions] = await Promise.all([
+    limits.monthlyTokenBudget || limits.monthlyCostBudget
+      ? getSpendTotals({ ...filter, from: month })
+      : undefined,
+    limits.dailyMessageQuota ? countQuestions({ ...filter, since: day }) : 0,
+  ]);
+
+  const usage: Array<Pick<UsageNotice, "limit" | "used" | "allowed" | "resetsAt">> = [
+    {
+      limit: "monthly_tokens",
+      used: spend ? spend.promptTokens + spend.completionTokens : 0,
+      allowed: limits.monthlyTokenBudget,
+      resetsAt: nextMonth,
+    },
+    {
+      limit: "monthly_cost",
+      used: spend?.estimatedCost ?? 0,
+      allowed: limits.monthlyCostBudget,
+      resetsAt: nextMonth,
+    },
+    { limit: "daily_messages", used: questions, allowed: limits.dailyMessageQuota, resetsAt: nextDay },
+  ];
+
+  return usage.flatMap((u) => {
+    if (!u.allowed) return [];
+    const level = u.used >= u.allowed ? ("exceeded" as const) : ("warning" as const);
+    if (level === "warning" && (!limits.warningRatio || u.used < u.allowed * limits.warningRatio)) return [];
+    const notice = { ...u, scope, level };
+    return [{ ...notice, message: noticeMessage(notice, language) }];
+  });
+}
+
+/**
+ * Limits of the user and of the integration (if any) that are nearly or fully used
+ */
+export async function checkUsageLimits(params: {
+  userId: number;
+  siteKey?: string | null;
+  language: Language;
+  now?: Date;
+}): Promise<UsageNotice[]> {
+  const now = params.now ?? new Date();
+  const owners: UsageOwner[] = [{ userId: params.userId }];
+  if (params.siteKey) owners.push({ siteKey: params.siteKey });
+
+  const notices = await Promise.all(owners.map((owner) => checkOwner(owner, params.language, now)));
+  return notices.flat();
+}
+
+/**
+ * Check the limits before answering a turn
+ * Throws a UsageLimitError once a limit is reached; returns the warnings otherwise.
+ */
+export async function enforceUsageLimits(params: Parameters<typeof checkUsageLimits>[0]): Promise<UsageNotice[]> {
+  const notices = await checkUsageLimits(params);
+  if (notices.some((n) => n.level === "exceeded")) throw new UsageLimitError(notices);
+  return notices;
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  completeText,
+  LLMGatewayError,
+  resetGateway,
+  setProfile,
+  setProvider,
+  setRetryOptions,
+  streamText,
+} from "./gateway";
+import { startLLMStub, type LLMStub, type StubReply } from "./stub";
+import { invokeLLM } from "../_core/llm";
+
+const messages = [{ role: "user", content: "Hello" }];
+
+describe("LLM gateway", () => {
+  const stubs: LLMStub[] = [];
+
+  async function provider(
+    name: string,
+    reply?: (request: { model: string }) => StubReply | Promise<StubReply>,
+    options?: { tokenDelayMs?: number }
+  ) {
+    const stub = await startLLMStub(reply, options);
+    stubs.push(stub);
+    setProvider({ name, url: stub.endpoint, enabled: true });
+    return stub;
+  }
+
+  beforeEach(() => setRetryOptions({ maxRetries: 2, baseDelayMs: 1 }));
+
+  afterEach(async () => {
+    resetGateway();
+    await Promise.all(stubs.splice(0).map((s) => s.close()));
+  });
+
+  it("answers with the first model of the profile", async () => {
+    const primary = await provider("primary", (r) => `Answer from ${r.model}`);
+    setProfile("router", [{ provider: "primary", model: "small-model" }]);
+
+    expect(await completeText("router", { messages, temperature: 0.3 })).toBe("Answer from small-model");
+    expect(primary.requests[0]).toMatchObject({ model: "small-model", temperature: 0.3, messages });
+  });
+
+  it("retries transient errors with backoff", async () => {
+    let calls = 0;
+    await provider("flaky", () => (++calls < 3 ? { status: 503 } : "Recovered"));
+    setProfile("specialist", [{ provider: "flaky", model: "m" }]);
+
+    expect(await completeText("specialist", { messages })).toBe("Recovered");
+    expect(calls).toBe(3);
+  });
+
+  it("falls back to the next provider without retrying client errors", async () => {
+    const broken = await provider("broken", () => ({ status: 400, body: "bad request" }));
+    await provider("backup", () => "Backup answer");
+    setProfile("synthesis", [
+      { provider: "disabled", model: "m" },
+      { provider: "broken", model: "m" },
+      { provider: "backup", model: "m" },
+    ]);
+    setProvider({ name: "disabled", url: "http://127.0.0.1:1/v1/chat/completions", enabled: false });
+
+    expect(await completeText("synthesis", { messages })).toBe("Backup answer");
+    expect(broken.requests).toHaveLength(1);
+  });
+
+  it("reports every failed attempt when no model answers", async () => {
+    await provider("down", () => ({ status: 500 }));
+    setProfile("router", [{ provider: "down", model: "m" }]);
+    setRetryOptions({ maxRetries: 1 });
+
+    const error = await completeText("router", { messages }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LLMGatewayError);
+    expect(error.attempts).toHaveLength(2);
+    expect(error.attempts[0]).toMatchObject({ provider: "down", status: 500 });
+  });
+
+  it("asks providers without json_schema support for a JSON object with the schema in the prompt", async () => {
+    const stub = await provider("json-object", () => '{"mode":"legal"}');
+    setProvider({ name: "json-object", url: stub.endpoint, enabled: true, jsonSchema: false });
+    setProfile("router", [{ provider: "json-object", model: "m" }]);
+    const schema = { type: "object", properties: { mode: { type: "string" } }, required: ["mode"] };
+
+    await completeText("router", {
+      messages,
+      response_format: { type: "json_schema", json_schema: { name: "route", strict: true, schema } },
+    });
+
+    const request = stub.requests[0]!;
+    expect(request.response_format).toEqual({ type: "json_object" });
+    expect(request.messages.slice(0, -1)).toEqual(messages);
+    expect(request.messages.at(-1)).toMatchObject({ role: "system" });
+    expect(request.messages.at(-1)!.content).toContain(JSON.stringify(schema));
+  });
+
+  it("streams tokens", async () => {
+    const stub = await provider("streaming", () => "One two three");
+    setProfile("specialist", [{ provider: "streaming", model: "m" }]);
+
+    const tokens: string[] = [];
+    for await (const token of streamText("specialist", { messages })) tokens.push(token);
+
+    expect(tokens).toEqual(["One ", "two ", "three"]);
+    expect(stub.requests[0]?.stream).toBe(true);
+  });
+
+  it("keeps streams open past the timeout while tokens keep coming", async () => {
+    await provider("slow-stream", () => "One two three four five", { tokenDelayMs: 40 });
+    setProfile("specialist", [{ provider: "slow-stream", model: "m" }]);
+    setRetryOptions({ timeoutMs: 100 });
+
+    const tokens: string[] = [];
+    for await (const token of streamText("specialist", { messages })) tokens.push(token);
+
+    expect(tokens.join("")).toBe("One two three four five");
+  });
+
+  it("times out calls that get no response", async () => {
+    await provider("silent", () => new Promise((resolve) => setTimeout(() => resolve("Too late"), 200)));
+    setProfile("router", [{ provider: "silent", model: "m" }]);
+    setRetryOptions({ maxRetries: 0, timeoutMs: 50 });
+
+    const error = await completeText("router", { messages }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LLMGatewayError);
+    expect(error.attempts[0].message).toContain("No response for 50 ms");
+  });
+
+  it("serves invokeLLM with the requested profile", async () => {
+    await provider("router-provider", () => "Routed");
+    await provider("specialist-provider", () => "Specialised");
+    setProfile("router", [{ provider: "router-provider", model: "m" }]);
+    setProfile("specialist", [{ provider: "specialist-provider", model: "m" }]);
+
+    const routed = await invokeLLM({ profile: "router", messages: [{ role: "user", content: "Hi" }] });
+    const specialised = await invokeLLM({ messages: [{ role: "user", content: "Hi" }] });
+
+    expect(routed.choices[0]?.message.content).toBe("Routed");
+    expect(specialised.choices[0]?.message.content).toBe("Specialised");
+  });
+});
@@ -0,0 +1,440 @@
+/**
+ * LLM gateway
+ * One client for every OpenAI-compatible provider (forge, DeepSeek, a local
+ * server). Callers ask for a model profile; the profile's provider:model
+ * targets are tried in order, each with retry and exponential backoff.
+ */
+
+import { ENV } from "../_core/env";
+import { estimateTokens, recordLLMUsage } from "./usage";
+
+export type ModelProfile = "router" | "specialist" | "synthesis";
+
+export interface LLMProvider {
+  name: string;
+  /** Chat completions endpoint */
+  url: string;
+  apiKey?: string;
+  /** Providers without credentials are skipped */
+  enabled: boolean;
+  /** Request fields this provider needs by default; the request overrides them */
+  defaults?: Record<string, unknown>;
+  /** False for providers that only accept response_format json_object */
+  jsonSchema?: boolean;
+}
+
+export interface ModelTarget {
+  provider: string;
+  model: string;
+}
+
+export interface ChatCompletionMessage {
+  role: string;
+  content: unknown;
+  name?: string;
+  tool_call_id?: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatCompletionMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  response_format?: unknown;
+  tools?: unknown[];
+  tool_choice?: unknown;
+}
+
+export interface ChatCompletion {
+  id: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: { role: string; content: unknown; tool_calls?: unknown[] };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface RetryOptions {
+  /** Retries per target after the first attempt */
+  maxRetries: number;
+  baseDelayMs: number;
+  /** A call fails when nothing arrives for this long: the headers, then each body chunk */
+  timeoutMs: number;
+}
+
+/**
+ * Every target of a profile failed
+ */
+export class LLMGatewayError extends Error {
+  constructor(
+    public profile: ModelProfile,
+    public attempts: Array<{ provider: string; model: string; status?: number; message: string }>
+  ) {
+    super(
+      `All models failed for the ${profile} profile: ` +
+        (attempts.map((a) => `${a.provider}:${a.model} (${a.message})`).join("; ") || "no provider configured")
+    );
+    this.name = "LLMGatewayError";
+  }
+}
+
+/**
+ * One failed call; retryable for network errors, timeouts, 408, 429 and 5xx
+ */
+class ProviderError extends Error {
+  constructor(
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+const defaultProviders = (): LLMProvider[] => [
+  {
+    name: "forge",
+    url:
+      ENV.forgeApiUrl && ENV.forgeApiUrl.trim().length > 0
+        ? `${ENV.forgeApiUrl.replace(/\/$/, "")}/v1/chat/completions`
+        : "https://forge.manus.im/v1/chat/completions",
+    apiKey: ENV.forgeApiKey,
+    enabled: !!ENV.forgeApiKey,
+    defaults: { max_tokens: 32768, thinking: { budget_tokens: 128 } },
+  },
+  {
+    name: "deepseek",
+    url: "https://api.deepseek.com/chat/completions",
+    apiKey: ENV.deepseekApiKey,
+    enabled: !!ENV.deepseekApiKey,
+    jsonSchema: false,
+  },
+  {
+    name: "local",
+    url: `${ENV.llmLocalUrl.replace(/\/$/, "")}/v1/chat/completions`,
+    apiKey: ENV.llmLocalApiKey,
+    enabled: !!ENV.llmLocalUrl,
+  },
+];
+
+/**
+ * Parse "provider:model,provider:model" into targets
+ */
+export function parseModelTargets(value: string): ModelTarget[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      return separator === -1
+        ? { provider: entry, model: "" }
+        : { provider: entry.slice(0, separator), model: entry.slice(separator + 1) };
+    });
+}
+
+const defaultProfiles = (): Record<ModelProfile, ModelTarget[]> => ({
+  router: parseModelTargets(ENV.llmRouterModels),
+  specialist: parseModelTargets(ENV.llmSpecialistModels),
+  synthesis: parseModelTargets(ENV.llmSynthesisModels),
+});
+
+const defaultRetry = (): RetryOptions => ({
+  maxRetries: ENV.llmMaxRetries,
+  baseDelayMs: 500,
+  timeoutMs: ENV.llmTimeoutMs,
+});
+
+let providers = new Map(defaultProviders().map((p) => [p.name, p]));
+let profiles = defaultProfiles();
+let retry = defaultRetry();
+
+/**
+ * Register or replace a provider (tests point one at the local stub)
+ */
+export function setProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Choose the models a profile uses, in fallback order
+ */
+export function setProfile(profile: ModelProfile, targets: ModelTarget[]): void {
+  profiles[profile] = targets;
+}
+
+/**
+ * Change how often and how fast failed calls are retried, and when calls time out
+ */
+export function setRetryOptions(options: Partial<RetryOptions>): void {
+  retry = { ...retry, ...options };
+}
+
+/**
+ * Restore providers, profiles and retry options from the environment
+ */
+export function resetGateway(): void {
+  providers = new Map(defaultProviders().map((p) => [p.name, p]));
+  profiles = defaultProfiles();
+  retry = defaultRetry();
+}
+
+/**
+ * Enabled targets of a profile with their provider
+ */
+function resolveTargets(profile: ModelProfile): Array<{ provider: LLMProvider; model: string }> {
+  return profiles[profile].flatMap((target) => {
+    const provider = providers.get(target.provider);
+    return provider?.enabled ? [{ provider, model: target.model }] : [];
+  });
+}
+
+/**
+ * Ask providers without json_schema support for a JSON object instead, with
+ * the schema given in a system message
+ */
+function adaptResponseFormat(provider: LLMProvider, body: Record<string, unknown>): Record<string, unknown> {
+  const format = body.response_format as { type?: string; json_schema?: { schema?: unknown } } | undefined;
+  if (provider.jsonSchema !== false || format?.type !== "json_schema") return body;
+
+  const instruction = {
+    role: "system",
+    content:
+      "Respond with a single JSON object that conforms to this JSON schema, without any other text:\n" +
+      JSON.stringify(format.json_schema?.schema ?? {}),
+  };
+  return {
+    ...body,
+    messages: [...(body.messages as ChatCompletionMessage[]), instruction],
+    response_format: { type: "json_object" },
+  };
+}
+
+/**
+ * Aborts a call when nothing arrives for the timeout
+ * Restarted when the headers arrive and before each read of the body, so
+ * long streams run as long as tokens keep coming.
+ */
+interface IdleTimeout {
+  signal: AbortSignal;
+  restart(): void;
+  clear(): void;
+}
+
+function idleTimeout(): IdleTimeout {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const restart = () => {
+    clearTimeout(timer);
+    timer = setTimeout(
+      () => controller.abort(new DOMException(`No response for ${retry.timeoutMs} ms`, "TimeoutError")),
+      retry.timeoutMs
+    );
+  };
+  restart();
+  return { signal: controller.signal, restart, clear: () => clearTimeout(timer) };
+}
+
+/**
+ * POST a request to one provider; throws a ProviderError on failure
+ * The timeout stays attached to the body; the caller clears it once read.
+ */
+async function post(
+  provider: LLMProvider,
+  body: Record<string, unknown>,
+  timeout: IdleTimeout,
+  signal?: AbortSignal
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(provider.url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        ...(provider.apiKey ? { authorization: `Bearer ${provider.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ ...provider.defaults, ...adaptResponseFormat(provider, body) }),
+      signal: signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal,
+    });
+  } catch (error) {
+    timeout.clear();
+    if (signal?.aborted) throw error;
+    throw new ProviderError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    timeout.clear();
+    const detail = errorText ? ` – ${errorText}` : "";
+    throw new ProviderError(`${response.status} ${response.statusText}${detail}`, response.status);
+  }
+  timeout.restart();
+  return response;
+}
+
+/**
+ * Run an operation against each target of a profile until one succeeds
+ * Retryable errors are retried with exponential backoff before moving on.
+ */
+async function withFallback<T>(
+  profile: ModelProfile,
+  operation: (provider: LLMProvider, model: string) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const attempts: LLMGatewayError["attempts"] = [];
+
+  for (const { provider, model } of resolveTargets(profile)) {
+    for (let attempt = 0; attempt <= retry.maxRetries; attempt++) {
+      try {
+        return await operation(provider, model);
+      } catch (error) {
+        if (!(error instanceof ProviderError)) throw error;
+        attempts.push({ provider: provider.name, model, status: error.status, message: error.message });
+        console.warn(`[LLM] ${profile} ${provider.name}:${model} failed: ${error.message}`);
+        if (!error.retryable || attempt === retry.maxRetries) break;
+
+        const delay = retry.baseDelayMs * 2 ** attempt * (1 + Math.random());
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        if (signal?.aborted) throw signal.reason;
+      }
+    }
+  }
+
+  throw new LLMGatewayError(profile, attempts);
+}
+
+/**
+ * Chat completion from the first model of the profile that answers
+ */
+export async function chatCompletion(
+  profile: ModelProfile,
+  request: ChatCompletionRequest,
+  signal?: AbortSignal
+): Promise<ChatCompletion> {
+  return withFallback(
+    profile,
+    async (provider, model) => {
+      const timeout = idleTimeout();
+      let completion: ChatCompletion;
+      try {
+        const response = await post(provider, { ...request, model }, timeout, signal);
+        completion = (await response.json()) as ChatCompletion;
+      } catch (error) {
+        if (error instanceof ProviderError || signal?.aborted) throw error;
+        throw new ProviderError(error instanceof Error ? error.message : String(error));
+      } finally {
+        timeout.clear();
+      }
+      recordLLMUsage({
+        profile,
+        provider: provider.name,
+        model,
+        promptTokens: completion.usage?.prompt_tokens ?? estimateTokens(JSON.stringify(request.messages)),
+        completionTokens:
+          completion.usage?.completion_tokens ??
+          estimateTokens(JSON.stringify(completion.choices[0]?.message?.content ?? "")),
+      });
+      return completion;
+    },
+    signal
+  );
+}
+
+/**
+ * Text of the first choice
+ */
+export async function completeText(
+  profile: ModelProfile,
+  request: ChatCompletionRequest,
+  signal?: AbortSignal
+): Promise<string> {
+  const completion = await chatCompletion(profile, request, signal);
+  const content = completion.choices[0]?.message?.content;
+  if (typeof content !== "string" || !content) {
+    throw new Error(`No content in ${profile} response`);
+  }
+  return content;
+}
+
+/**
+ * Stream the tokens of a completion
+ * Fallback and retries only apply until the stream has started; server-sent
+ * event lines split across network chunks are buffered until complete. The
+ * timeout applies to the wait for each chunk, not to the whole stream.
+ * Usage is recorded when the stream ends, estimated if the provider sends none.
+ */
+export async function* streamText(
+  profile: ModelProfile,
+  request: ChatCompletionRequest,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const { response, timeout, provider, model } = await withFallback(
+    profile,
+    async (provider, model) => {
+      const timeout = idleTimeout();
+      const response = await post(provider, { ...request, model, stream: true }, timeout, signal);
+      return { response, timeout, provider, model };
+    },
+    signal
+  );
+  if (!response.body) {
+    timeout.clear();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  let usage: ChatCompletion["usage"];
+
+  try {
+    while (true) {
+      timeout.restart();
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (!line.startsWith("data: ")) continue;
+        const data = line.slice(6).trim();
+        if (data === "[DONE]") return;
+        let content: string | undefined;
+        try {
+          const parsed = JSON.parse(data);
+          usage = parsed.usage ?? usage;
+          content = parsed.choices?.[0]?.delta?.content;
+        } catch {
+          // Skip invalid JSON lines
+        }
+        if (content) {
+          text += content;
+          yield content;
+        }
+      }
+    }
+  } finally {
+    timeout.clear();
+    reader.cancel().catch(() => {});
+    recordLLMUsage({
+      profile,
+      provider: provider.name,
+      model,
+      promptTokens: usage?.prompt_tokens ?? estimateTokens(JSON.stringify(request.messages)),
+      completionTokens: usage?.completion_tokens ?? estimateTokens(text),
+    });
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * OpenAI-compatible local LLM stub
+ * Answers POST /v1/chat/completions (plain or streamed) from a reply function,
+ * so the gateway can be exercised end to end in tests without a real provider.
+ */
+
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import type { ChatCompletionRequest } from "./gateway";
+
+export type StubRequest = ChatCompletionRequest & { model: string; stream?: boolean };
+
+/** A reply text, or an HTTP error to return instead */
+export type StubReply = string | { status: number; body?: string };
+
+export interface LLMStub {
+  /** Base URL, usable as LLM_LOCAL_URL */
+  url: string;
+  /** Chat completions endpoint */
+  endpoint: string;
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+export async function startLLMStub(
+  reply: (request: StubRequest) => StubReply | Promise<StubReply> = () => "Stub reply",
+  options: { /** Pause before each streamed token */ tokenDelayMs?: number } = {}
+): Promise<LLMStub> {
+  const requests: StubRequest[] = [];
+
+  const server = createServer(async (req, res) => {
+    if (req.method !== "POST" || req.url !== "/v1/chat/completions") {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    const request = JSON.parse(raw) as StubRequest;
+    requests.push(request);
+
+    const result = await reply(request);
+    if (typeof result !== "string") {
+      res.writeHead(result.status, { "content-type": "text/plain" }).end(result.body ?? "");
+      return;
+    }
+
+    if (request.stream) {
+      res.writeHead(200, { "content-type": "text/event-stream" });
+      for (const token of result.match(/\S+\s*/g) ?? []) {
+        if (options.tokenDelayMs) await new Promise((resolve) => setTimeout(resolve, options.tokenDelayMs));
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: token } }] })}\n\n`);
+      }
+      res.end("data: [DONE]\n\n");
+      return;
+    }
+
+    const promptTokens = JSON.stringify(request.messages).length;
+    res.writeHead(200, { "content-type": "application/json" }).end(
+      JSON.stringify({
+        id: `stub-${requests.length}`,
+        created: Math.floor(Date.now() / 1000),
+        model: request.model,
+        choices: [{ index: 0, message: { role: "assistant", content: result }, finish_reason: "stop" }],
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: result.length,
+          total_tokens: promptTokens + result.length,
+        },
+      })
+    );
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+
+  return {
+    url,
+    endpoint: `${url}/v1/chat/completions`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
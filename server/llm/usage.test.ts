@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { estimateCost, trackUsage } from "./usage";
+import { completeText, resetGateway, setProfile, setProvider, streamText } from "./gateway";
+import { startLLMStub, type LLMStub } from "./stub";
+import { insertLLMUsage } from "../db";
+
+vi.mock("../db", () => ({
+  insertLLMUsage: vi.fn(async () => {}),
+}));
+
+const messages = [{ role: "user", content: "How many days of annual leave?" }];
+
+describe("LLM usage accounting", () => {
+  let stub: LLMStub;
+
+  beforeEach(async () => {
+    stub = await startLLMStub(() => "Twenty-six working days");
+    setProvider({ name: "stub", url: stub.endpoint, enabled: true });
+    setProfile("specialist", [{ provider: "stub", model: "deepseek-chat" }]);
+    vi.mocked(insertLLMUsage).mockClear();
+  });
+
+  afterEach(async () => {
+    resetGateway();
+    await stub.close();
+  });
+
+  it("prices tokens per model", () => {
+    expect(estimateCost("deepseek-chat", 1_000_000, 1_000_000)).toBeCloseTo(0.42);
+    expect(estimateCost("unknown-model", 1000, 1000)).toBe(0);
+  });
+
+  it("attributes calls to the tracked message, conversation, user and integration", async () => {
+    const usage = trackUsage({ userId: 3, conversationId: 7, siteKey: "wl_site" });
+
+    await usage.run(() => completeText("specialist", { messages }));
+    expect(insertLLMUsage).not.toHaveBeenCalled();
+    await usage.flush(42);
+
+    const [rows] = vi.mocked(insertLLMUsage).mock.calls[0]!;
+    expect(rows).toEqual([
+      expect.objectContaining({
+        messageId: 42,
+        conversationId: 7,
+        userId: 3,
+        externalSiteKey: "wl_site",
+        profile: "specialist",
+        provider: "stub",
+        model: "deepseek-chat",
+        completionTokens: "Twenty-six working days".length,
+      }),
+    ]);
+    expect(rows[0]!.estimatedCost).toBeGreaterThan(0);
+  });
+
+  it("records streamed completions when the stream ends", async () => {
+    const usage = trackUsage({ userId: 3, conversationId: 7 });
+
+    let text = "";
+    for await (const token of usage.iterate(streamText("specialist", { messages }))) text += token;
+    await usage.flush(43);
+
+    expect(text).toBe("Twenty-six working days");
+    expect(vi.mocked(insertLLMUsage).mock.calls[0]![0]).toEqual([
+      expect.objectContaining({ messageId: 43, completionTokens: Math.ceil(text.length / 4) }),
+    ]);
+  });
+
+  it("stores calls made outside a tracker unattributed", async () => {
+    await completeText("specialist", { messages });
+
+    expect(vi.mocked(insertLLMUsage).mock.calls[0]![0]).toEqual([
+      expect.objectContaining({ messageId: null, conversationId: null, userId: null, externalSiteKey: null }),
+    ]);
+  });
+
+  it("saves calls that finish after the flush against the same message", async () => {
+    const usage = trackUsage({ conversationId: 7 });
+    let late: Promise<string> | undefined;
+    await usage.run(async () => {
+      late = completeText("specialist", { messages });
+    });
+    await usage.flush(44);
+    await late;
+
+    expect(vi.mocked(insertLLMUsage).mock.calls.map(([rows]) => rows.length)).toEqual([0, 1]);
+    expect(vi.mocked(insertLLMUsage).mock.calls[1]![0][0]).toMatchObject({ messageId: 44, conversationId: 7 });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * LLM usage accounting
+ * The gateway reports every call here. Calls made inside a usage tracker are
+ * attributed to its user, conversation and integration, and to the message
+ * they produced once it is saved; other calls are stored unattributed.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { insertLLMUsage } from "../db";
+import type { InsertLLMUsageRow } from "../../drizzle/schema";
+import type { ModelProfile } from "./gateway";
+
+export interface LLMCall {
+  profile: ModelProfile;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface UsageScope {
+  userId?: number | null;
+  conversationId?: number | null;
+  siteKey?: string | null;
+}
+
+export interface UsageTracker {
+  /** Run work whose LLM calls are attributed to this scope */
+  run<T>(fn: () => Promise<T>): Promise<T>;
+  /** Iterate a stream (e.g. streamed tokens) inside this scope */
+  iterate<T>(source: AsyncIterable<T>): AsyncGenerator<T>;
+  /** Calls recorded so far and not yet saved */
+  pending(): readonly LLMCall[];
+  /** Save the recorded calls against the message they produced */
+  flush(messageId: number | null): Promise<void>;
+}
+
+/**
+ * USD per million prompt / completion tokens
+ */
+export const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
+  "deepseek-chat": { prompt: 0.14, completion: 0.28 },
+  "gemini-2.5-flash": { prompt: 0.3, completion: 2.5 },
+};
+
+/**
+ * Estimated cost in USD; models without a known price cost 0
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  return (promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000;
+}
+
+/**
+ * Rough token count (~4 characters per token) for providers that report no usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const storage = new AsyncLocalStorage<(call: LLMCall) => void>();
+
+function toRow(call: LLMCall, scope: UsageScope, messageId: number | null): InsertLLMUsageRow {
+  return {
+    messageId,
+    conversationId: scope.conversationId ?? null,
+    userId: scope.userId ?? null,
+    externalSiteKey: scope.siteKey ?? null,
+    ...call,
+    estimatedCost: estimateCost(call.model, call.promptTokens, call.completionTokens),
+  };
+}
+
+/**
+ * Record one LLM call (called by the gateway)
+ */
+export function recordLLMUsage(call: LLMCall): void {
+  const record = storage.getStore();
+  if (record) {
+    record(call);
+    return;
+  }
+  insertLLMUsage([toRow(call, {}, null)]).catch((error) =>
+    console.error("[LLM] Failed to record usage:", error)
+  );
+}
+
+/**
+ * Start attributing LLM calls to a user, conversation and integration
+ */
+export function trackUsage(scope: UsageScope): UsageTracker {
+  let calls: LLMCall[] = [];
+  let flushedAs: { messageId: number | null } | null = null;
+
+  const record = (call: LLMCall) => {
+    if (!flushedAs) {
+      calls.push(call);
+      return;
+    }
+    // A late call (e.g. an agent that finished after its deadline) is saved right away
+    insertLLMUsage([toRow(call, scope, flushedAs.messageId)]).catch((error) =>
+      console.error("[LLM] Failed to record usage:", error)
+    );
+  };
+
+  return {
+    run: (fn) => storage.run(record, fn),
+
+    async *iterate(source) {
+      const iterator = source[Symbol.asyncIterator]();
+      try {
+        while (true) {
+          const next = await storage.run(record, () => iterator.next());
+          if (next.done) return;
+          yield next.value;
+        }
+      } finally {
+        await storage.run(record, async () => {
+          await iterator.return?.();
+        });
+      }
+    },
+
+    pending: () => calls,
+
+    async flush(messageId) {
+      const rows = calls.map((call) => toRow(call, scope, messageId));
+      calls = [];
+      flushedAs = { messageId };
+      try {
+        await insertLLMUsage(rows);
+      } catch (error) {
+        console.error("[LLM] Failed to record usage:", error);
+      }
+    },
+  };
+}
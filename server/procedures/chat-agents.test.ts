@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { chatFormattedRouter } from "../routers/chat-formatted";
+import {
+  addMessage,
+  addMessageSources,
+  createConversation,
+  getConversationWithMessages,
+  getIntegrationBySiteKey,
+} from "../db";
+import { generateChatResponse } from "../llm";
+import { rankKnowledgeBase } from "../knowledge-base";
+import { processQuestion } from "./chat-independent";
+import { createTestContext } from "../test-context";
+import type { ChatResponse } from "@shared/types-independent";
+
+vi.mock("../db", () => ({
+  createConversation: vi.fn(async (data) => ({ id: 1, ...data })),
+  getConversationRole: vi.fn(async () => "owner"),
+  getConversationWithMessages: vi.fn(),
+  getUsageLimits: vi.fn(async () => undefined),
+  insertLLMUsage: vi.fn(async () => {}),
+  insertAuditLog: vi.fn(async () => {}),
+  getIntegrationBySiteKey: vi.fn(async (siteKey: string) =>
+    siteKey === "wl_agents"
+      ? { id: 3, ownerUserId: 1, siteKey, config: JSON.stringify({ defaultPipeline: "agents" }) }
+      : null
+  ),
+  addMessage: vi.fn(async (data) => ({ id: 42, ...data, createdAt: new Date() })),
+  addMessageSources: vi.fn(async () => {}),
+  upsertUserPreferences: vi.fn(async () => ({})),
+}));
+
+vi.mock("../llm", () => ({
+  routeQuery: vi.fn(async () => ({ mode: "procedural", confidence: 1, reasoning: "" })),
+  generateChatResponse: vi.fn(async () => ({ content: "Single answer", mode: "procedural", sources: [] })),
+}));
+
+vi.mock("../knowledge-base", () => ({
+  rankKnowledgeBase: vi.fn(async () => []),
+  extractExcerpts: vi.fn(() => []),
+}));
+
+const AGENT_RESPONSE: ChatResponse = {
+  language: "en",
+  answer: "Send a medical certificate by the third day of absence.",
+  steps: ["Notify your employer", "Send the certificate"],
+  citations: [
+    {
+      title: "Sick leave",
+      url: "https://guichet.public.lu/en/citoyens/travail/conges/maladie.html",
+      section: "Medical certificate",
+      retrieved_at: "2026-01-16",
+      evidence_ids: ["guichet-abc"],
+    },
+  ],
+  confidence: "high",
+  limitations: [],
+  suggested_searches: [],
+  evidence: [
+    {
+      evidence_id: "guichet-abc",
+      url: "https://guichet.public.lu/en/citoyens/travail/conges/maladie.html",
+      title: "Sick leave",
+      section: "Medical certificate",
+      snippet: "An employee on sick leave must send a medical certificate.",
+      source: "guichet",
+      retrieved_at: "2026-01-16",
+    },
+    {
+      evidence_id: "legilux-def",
+      url: "https://legilux.public.lu/eli/etat/leg/code/travail/20240101",
+      title: "Code du travail, Art. L.121-6",
+      section: "Livre Ier > Titre II",
+      snippet: "Le salarié incapable de travailler pour cause de maladie est obligé d'en informer l'employeur.",
+      source: "legal",
+      retrieved_at: "2026-01-16",
+      article_number: "L.121-6",
+    },
+  ],
+};
+
+vi.mock("./chat-independent", () => ({
+  processQuestion: vi.fn(async () => AGENT_RESPONSE),
+}));
+
+function conversationOn(pipeline: "single" | "agents") {
+  return {
+    conversation: { id: 7, userId: 1, language: "en", pipeline },
+    messages: [
+      { id: 1, conversationId: 7, sender: "user", content: "Hello", createdAt: new Date() },
+      { id: 2, conversationId: 7, sender: "assistant", content: "Hi", createdAt: new Date() },
+    ],
+  } as any;
+}
+
+describe("agent pipeline chat", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("answers agent conversations with processQuestion and stores the evidence", async () => {
+    vi.mocked(getConversationWithMessages).mockResolvedValue(conversationOn("agents"));
+    const caller = chatFormattedRouter.createCaller(createTestContext());
+
+    const response = await caller.sendMessage({ conversationId: 7, content: "How do I report sick leave?" });
+
+    expect(response).toEqual({ ...AGENT_RESPONSE, usage_notices: [] });
+    expect(processQuestion).toHaveBeenCalledWith(
+      "How do I report sick leave?",
+      "en",
+      [
+        { role: "user", content: "Hello" },
+        { role: "assistant", content: "Hi" },
+      ],
+      { onPlan: expect.any(Function) }
+    );
+    expect(generateChatResponse).not.toHaveBeenCalled();
+    expect(addMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        sender: "assistant",
+        content: AGENT_RESPONSE.answer,
+        response: JSON.stringify(AGENT_RESPONSE),
+      })
+    );
+    expect(vi.mocked(addMessageSources).mock.calls[0]?.[1]).toEqual([
+      expect.objectContaining({ evidenceId: "guichet-abc", sourceType: "guichet", section: "Medical certificate" }),
+      expect.objectContaining({ evidenceId: "legilux-def", sourceType: "official" }),
+    ]);
+  });
+
+  it("keeps single-LLM conversations on generateChatResponse", async () => {
+    vi.mocked(getConversationWithMessages).mockResolvedValue(conversationOn("single"));
+    const caller = chatFormattedRouter.createCaller(createTestContext());
+
+    await caller.sendMessage({ conversationId: 7, content: "How do I report sick leave?", mode: "procedural" });
+
+    expect(generateChatResponse).toHaveBeenCalled();
+    expect(processQuestion).not.toHaveBeenCalled();
+  });
+
+  it("links each passage of a cited page to its own source row", async () => {
+    const url = "https://guichet.public.lu/en/citoyens/travail/conges/maladie.html";
+    const passage = (id: string, section: string) => ({
+      id,
+      title: "Sick leave",
+      url,
+      content: `${section} passage`,
+      section,
+      category: "Leave",
+      lastUpdated: new Date(),
+      language: "en" as const,
+    });
+    vi.mocked(getConversationWithMessages).mockResolvedValue(conversationOn("single"));
+    vi.mocked(rankKnowledgeBase).mockResolvedValueOnce([
+      { content: passage("guichet-notify", "Notify your employer"), score: 1 },
+      { content: passage("guichet-certificate", "Medical certificate"), score: 0.8 },
+    ]);
+    vi.mocked(generateChatResponse).mockResolvedValueOnce({
+      content: "Notify your employer, then send a certificate.",
+      mode: "procedural",
+      sources: [{ title: "Sick leave", url, type: "guichet" }],
+    });
+    const caller = chatFormattedRouter.createCaller(createTestContext());
+
+    await caller.sendMessage({ conversationId: 7, content: "How do I report sick leave?", mode: "procedural" });
+
+    expect(vi.mocked(addMessageSources).mock.calls[0]?.[1]).toEqual([
+      expect.objectContaining({ sourceUrl: url, evidenceId: "guichet-notify", section: "Notify your employer" }),
+      expect.objectContaining({ sourceUrl: url, evidenceId: "guichet-certificate", section: "Medical certificate" }),
+    ]);
+  });
+
+  it("takes the pipeline from the integration unless one is given", async () => {
+    const caller = chatFormattedRouter.createCaller(createTestContext());
+
+    await caller.createConversation({ siteKey: "wl_agents" });
+    await caller.createConversation({ siteKey: "wl_agents", pipeline: "single" });
+    await caller.createConversation({});
+
+    expect(vi.mocked(createConversation).mock.calls.map(([data]) => data.pipeline)).toEqual([
+      "agents",
+      "single",
+      "single",
+    ]);
+    await expect(caller.createConversation({ siteKey: "wl_unknown" })).rejects.toThrow("Integration not found");
+  });
+
+  it("only lets the integration's owner create conversations for it", async () => {
+    const caller = chatFormattedRouter.createCaller(createTestContext({ id: 2 }));
+
+    await expect(caller.createConversation({ siteKey: "wl_agents" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(createConversation).not.toHaveBeenCalled();
+  });
+
+  it("uses the default pipeline when the integration's config is invalid", async () => {
+    vi.mocked(getIntegrationBySiteKey).mockResolvedValueOnce({
+      id: 4,
+      ownerUserId: 1,
+      siteKey: "wl_broken",
+      config: "{not json",
+    } as any);
+    const caller = chatFormattedRouter.createCaller(createTestContext());
+
+    await caller.createConversation({ siteKey: "wl_broken" });
+
+    expect(createConversation).toHaveBeenCalledWith(expect.objectContaining({ pipeline: "single" }));
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Agent pipeline chat procedure
+ * Answers a conversation message with the orchestrator and specialist agents
+ * (processQuestion) and persists the answer with its evidence
+ */
+
+import { addMessage, addMessageSources } from "../db";
+import { processQuestion } from "./chat-independent";
+import type { InsertMessageSource, Message } from "../../drizzle/schema";
+import type { ExpertiseMode } from "@shared/types";
+import type { ChatResponse, Evidence, Language, OrchestratorPlan } from "@shared/types-independent";
+
+/**
+ * Stored source row for one piece of evidence
+ * Section and snippet are kept so citations can be rebuilt from the stored sources.
+ */
+export function evidenceToMessageSource(
+  messageId: number,
+  evidence: Evidence
+): InsertMessageSource {
+  return {
+    messageId,
+    sourceTitle: evidence.title.slice(0, 255),
+    sourceUrl: evidence.url,
+    sourceType: evidence.source === "legal" ? "official" : "guichet",
+    evidenceId: evidence.evidence_id,
+    section: evidence.section.slice(0, 255),
+    snippet: evidence.snippet,
+  };
+}
+
+/**
+ * Answer a message with the agent pipeline and save the assistant reply
+ * The user message is expected to be saved by the caller.
+ * Returns the response with the id of the saved assistant message and the
+ * orchestrator plan it followed (null if planning failed).
+ */
+export async function answerWithAgents(params: {
+  conversationId: number;
+  question: string;
+  language: Language;
+  mode?: ExpertiseMode;
+  history: Array<Pick<Message, "sender" | "content">>;
+}): Promise<{ response: ChatResponse; messageId: number; plan: OrchestratorPlan | null }> {
+  const history = params.history
+    .filter((m) => m.sender !== "system")
+    .slice(-6)
+    .map((m) => ({ role: m.sender, content: m.content }));
+
+  let plan: OrchestratorPlan | null = null;
+  const response = await processQuestion(params.question, params.language, history, {
+    onPlan: (p) => (plan = p),
+  });
+
+  const assistantMessage = await addMessage({
+    conversationId: params.conversationId,
+    sender: "assistant",
+    content: response.answer,
+    mode: params.mode,
+    response: JSON.stringify(response),
+  });
+
+  if (response.evidence.length > 0) {
+    await addMessageSources(
+      assistantMessage.id,
+      response.evidence.map((e) => evidenceToMessageSource(assistantMessage.id, e))
+    );
+  }
+
+  return { response, messageId: assistantMessage.id, plan };
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { processQuestion, StageTimeoutError } from "./chat-independent";
+import { processGuichetQuery } from "../agents/guichet";
+import { processLegalQuery } from "../agents/legal";
+import { planRequest } from "../agents/orchestrator";
+import { clearCache, resetRetrievers, setRetriever } from "../retrieval/index";
+import { createFixtureRetriever } from "../retrieval/fixtures";
+import type { AgentResponse, Evidence } from "@shared/types-independent";
+
+vi.mock("../agents/orchestrator", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../agents/orchestrator")>()),
+  planRequest: vi.fn(),
+  synthesizeResponses: vi.fn(async (_question, _language, responses: AgentResponse[]) => ({
+    answer: responses.map((r) => r.answer).join(" "),
+    steps: [],
+    confidence: "high",
+    limitations: [],
+    suggested_searches: [],
+  })),
+}));
+
+vi.mock("../agents/guichet", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../agents/guichet")>()),
+  processGuichetQuery: vi.fn(),
+}));
+
+vi.mock("../agents/legal", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../agents/legal")>()),
+  processLegalQuery: vi.fn(),
+}));
+
+// Answers the fixture evidence supports
+const ANSWERS = {
+  guichet: "An employment contract must be in writing.",
+  legal: "Le contrat de travail doit être constaté par écrit.",
+};
+
+function agentAnswer(agent: "guichet" | "legal", evidence: Evidence[], answer = ANSWERS[agent]): AgentResponse {
+  return {
+    agent,
+    answer,
+    steps: [],
+    evidence,
+    confidence: "high",
+    limitations: [],
+    suggested_searches: [],
+  };
+}
+
+const never = () => new Promise<never>(() => {});
+
+describe("processQuestion", () => {
+  beforeEach(async () => {
+    await clearCache();
+    setRetriever(createFixtureRetriever("guichet"));
+    setRetriever(createFixtureRetriever("legal"));
+    vi.mocked(planRequest).mockResolvedValue({
+      language: "en",
+      intent: "mixed",
+      confidence: 0.9,
+      reasoning: "",
+      retrieval_queries: ["written contract"],
+      agents_to_call: ["guichet", "legal"],
+    });
+  });
+
+  afterEach(() => {
+    resetRetrievers();
+    vi.clearAllMocks();
+  });
+
+  it("runs the specialists concurrently", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const slowly = (agent: "guichet" | "legal") => async (_q: string, _l: string, evidence: Evidence[]) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      inFlight--;
+      return agentAnswer(agent, evidence);
+    };
+    vi.mocked(processGuichetQuery).mockImplementation(slowly("guichet"));
+    vi.mocked(processLegalQuery).mockImplementation(slowly("legal"));
+
+    const response = await processQuestion("Do I need a written contract?", "en");
+
+    expect(maxInFlight).toBe(2);
+    expect(response.answer).toBe(`${ANSWERS.guichet} ${ANSWERS.legal}`);
+    expect(response.confidence).toBe("high");
+  });
+
+  it("answers from the other specialist with a limitation when one times out", async () => {
+    vi.mocked(processGuichetQuery).mockImplementation(async (_q, _l, evidence) =>
+      agentAnswer("guichet", evidence)
+    );
+    vi.mocked(processLegalQuery).mockImplementation(never);
+
+    const response = await processQuestion("Do I need a written contract?", "en", [], {
+      timeouts: { agentMs: 30 },
+    });
+
+    expect(response.answer).toBe(ANSWERS.guichet);
+    expect(response.evidence.every((e) => e.source === "guichet")).toBe(true);
+    expect(response.limitations).toContain(
+      "The employment law (Legilux) specialist did not respond in time, so this answer may be incomplete."
+    );
+    expect(response.confidence).toBe("medium");
+    expect(response.confidence_reasons).toContain("Some sources did not respond in time.");
+  });
+
+  it("aborts the LLM call of a stage that times out", async () => {
+    let legalSignal: AbortSignal | undefined;
+    vi.mocked(processGuichetQuery).mockImplementation(async (_q, _l, evidence, signal) => {
+      expect(signal?.aborted).toBe(false);
+      return agentAnswer("guichet", evidence);
+    });
+    vi.mocked(processLegalQuery).mockImplementation((_q, _l, _evidence, signal) => {
+      legalSignal = signal;
+      return never();
+    });
+
+    await processQuestion("Do I need a written contract?", "en", [], { timeouts: { agentMs: 30 } });
+
+    expect(legalSignal?.aborted).toBe(true);
+    expect(legalSignal?.reason).toBeInstanceOf(StageTimeoutError);
+  });
+
+  it("cites only the evidence that supports the answer and flags the rest", async () => {
+    vi.mocked(processGuichetQuery).mockImplementation(async (_q, _l, evidence) =>
+      agentAnswer("guichet", evidence, `${ANSWERS.guichet} Probation periods last twelve months.`)
+    );
+    vi.mocked(processLegalQuery).mockImplementation(async (_q, _l, evidence) =>
+      agentAnswer("legal", evidence, "Overtime is paid at a premium rate.")
+    );
+
+    const response = await processQuestion("Do I need a written contract?", "en");
+
+    expect(response.evidence).toHaveLength(2);
+    expect(response.citations.flatMap((c) => c.evidence_ids)).toEqual(["guichet-fixture-contract"]);
+    expect(response.limitations).toContain(
+      "2 of 3 statements in this answer could not be matched to the cited sources; verify them before relying on them."
+    );
+    expect(response.confidence).toBe("low");
+  });
+
+  it("falls back to searching both sources when planning runs out of time", async () => {
+    vi.mocked(planRequest).mockImplementation(never);
+    vi.mocked(processGuichetQuery).mockImplementation(async (_q, _l, evidence) =>
+      agentAnswer("guichet", evidence)
+    );
+    vi.mocked(processLegalQuery).mockImplementation(async (_q, _l, evidence) =>
+      agentAnswer("legal", evidence)
+    );
+
+    const response = await processQuestion("Do I need a written contract?", "fr", [], {
+      timeouts: { planMs: 20 },
+    });
+
+    expect(response.language).toBe("fr");
+    expect(processGuichetQuery).toHaveBeenCalled();
+    expect(processLegalQuery).toHaveBeenCalled();
+  });
+
+  it("caps every stage by the request deadline", async () => {
+    vi.mocked(processGuichetQuery).mockImplementation(never);
+    vi.mocked(processLegalQuery).mockImplementation(never);
+
+    const response = await processQuestion("Do I need a written contract?", "en", [], {
+      timeouts: { deadlineMs: 40 },
+    });
+
+    expect(response.evidence).toEqual([]);
+    expect(response.limitations.filter((l) => l.includes("did not respond in time"))).toHaveLength(2);
+  });
+});
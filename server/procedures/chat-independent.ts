@@ -3,82 +3,284 @@
  * Orchestrates the three-agent system with exact output schema
  */
 
-import { planRequest, synthesizeResponses, validateResponse } from "../agents/orchestrator";
+import {
+  combineAgentResponses,
+  fallbackPlan,
+  planRequest,
+  synthesizeResponses,
+  validateResponse,
+} from "../agents/orchestrator";
 import { processGuichetQuery, validateGuichetEvidence } from "../agents/guichet";
-import { processLegalQuery, validateLegalEvidence, detectConflicts } from "../agents/legal";
+import { processLegalQuery, validateLegalEvidence } from "../agents/legal";
+import { detectConflicts } from "../agents/conflicts";
+import { verifyGrounding, type GroundingOptions } from "../agents/verifier";
+import { scoreConfidence } from "../agents/confidence";
 import { retrieveGuichetEvidence, retrieveLegalEvidence, validateEvidenceDomains } from "../retrieval/index";
-import type { ChatResponse, Language, Citation, Evidence } from "@shared/types-independent";
+import { ENV } from "../_core/env";
+import type {
+  AgentResponse,
+  AgentType,
+  ChatResponse,
+  Language,
+  Citation,
+  Evidence,
+  OrchestratorPlan,
+} from "@shared/types-independent";
+
+/**
+ * Time budgets in milliseconds
+ * Each stage gets its own timeout, capped by what is left of the request deadline.
+ */
+export interface PipelineTimeouts {
+  deadlineMs: number;
+  planMs: number;
+  retrievalMs: number;
+  agentMs: number;
+  synthesisMs: number;
+  /** Only used by the LLM judge; lexical verification is immediate */
+  verificationMs: number;
+}
+
+export const DEFAULT_PIPELINE_TIMEOUTS: PipelineTimeouts = {
+  deadlineMs: 45_000,
+  planMs: 8_000,
+  retrievalMs: 5_000,
+  agentMs: 25_000,
+  synthesisMs: 12_000,
+  verificationMs: 5_000,
+};
+
+type Stage = "plan" | "retrieval" | "agent" | "synthesis" | "verification";
+
+type Specialist = Exclude<AgentType, "orchestrator">;
+
+export class StageTimeoutError extends Error {
+  constructor(
+    public stage: Stage,
+    public timeoutMs: number
+  ) {
+    super(`${stage} stage timed out after ${timeoutMs}ms`);
+    this.name = "StageTimeoutError";
+  }
+}
+
+/**
+ * Run a stage, rejecting with a StageTimeoutError if it does not settle in time
+ * The stage's signal is aborted on timeout, so its LLM calls stop instead of
+ * using tokens for a result that is ignored.
+ */
+function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, stage: Stage, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new StageTimeoutError(stage, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, Math.max(0, timeoutMs));
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+const SOURCE_LABELS: Record<Specialist, string> = {
+  guichet: "Guichet.lu procedures",
+  legal: "employment law (Legilux)",
+};
+
+/** Limitation shown when a specialist's retrieval or answer did not arrive in time */
+function timeoutLimitation(agent: Specialist, stage: Stage): string {
+  return stage === "retrieval"
+    ? `The ${SOURCE_LABELS[agent]} sources could not be searched in time, so this answer may be incomplete.`
+    : `The ${SOURCE_LABELS[agent]} specialist did not respond in time, so this answer may be incomplete.`;
+}
+
+/**
+ * Outcome of one specialist: its evidence and answer, or the stage that timed out
+ */
+interface AgentRun {
+  agent: Specialist;
+  evidence: Evidence[];
+  response: AgentResponse | null;
+  timedOut?: Stage;
+}
+
+const SPECIALISTS: Record<
+  Specialist,
+  {
+    retrieve: (queries: string[], language: Language) => Promise<Evidence[]>;
+    answer: (question: string, language: string, evidence: Evidence[], signal?: AbortSignal) => Promise<AgentResponse>;
+  }
+> = {
+  guichet: { retrieve: retrieveGuichetEvidence, answer: processGuichetQuery },
+  legal: { retrieve: retrieveLegalEvidence, answer: processLegalQuery },
+};
+
+/**
+ * Retrieve evidence for one specialist, then let it answer
+ */
+async function runAgent(
+  agent: Specialist,
+  question: string,
+  plan: OrchestratorPlan,
+  budget: (stage: Stage) => number
+): Promise<AgentRun> {
+  const specialist = SPECIALISTS[agent];
+  let evidence: Evidence[] = [];
+
+  try {
+    evidence =
+      plan.retrieval_queries.length > 0
+        ? await withTimeout(
+            () => specialist.retrieve(plan.retrieval_queries, plan.language),
+            "retrieval",
+            budget("retrieval")
+          )
+        : [];
+    if (evidence.length === 0) return { agent, evidence, response: null };
+
+    const response = await withTimeout(
+      (signal) => specialist.answer(question, plan.language, evidence, signal),
+      "agent",
+      budget("agent")
+    );
+    return { agent, evidence, response };
+  } catch (error) {
+    if (!(error instanceof StageTimeoutError)) throw error;
+    console.warn(`[Chat] ${agent} ${error.message}`);
+    // Evidence the specialist never answered from is not cited
+    return { agent, evidence: [], response: null, timedOut: error.stage };
+  }
+}
 
 /**
  * Main chat procedure - returns strict JSON schema
+ * Specialists run concurrently under a per-request deadline; when one times
+ * out, the others' answers are returned with a limitation saying so.
  */
 export async function processQuestion(
   question: string,
   language?: Language,
-  conversationHistory: Array<{ role: string; content: string }> = []
+  conversationHistory: Array<{ role: string; content: string }> = [],
+  options: {
+    timeouts?: Partial<PipelineTimeouts>;
+    grounding?: Partial<GroundingOptions>;
+    /** Called with the plan the answer follows (e.g. for the audit trail) */
+    onPlan?: (plan: OrchestratorPlan) => void;
+  } = {}
 ): Promise<ChatResponse> {
   console.log(`[Chat] Processing: ${question}`);
 
+  const timeouts = { ...DEFAULT_PIPELINE_TIMEOUTS, ...options.timeouts };
+  const deadline = Date.now() + timeouts.deadlineMs;
+  const stageTimeouts: Record<Stage, number> = {
+    plan: timeouts.planMs,
+    retrieval: timeouts.retrievalMs,
+    agent: timeouts.agentMs,
+    synthesis: timeouts.synthesisMs,
+    verification: timeouts.verificationMs,
+  };
+  const grounding = { judge: ENV.groundingJudge, ...options.grounding };
+  const budget = (stage: Stage) => Math.min(stageTimeouts[stage], deadline - Date.now());
+
   try {
     // Step 1: Orchestrator analyzes and plans
-    const plan = await planRequest(question, conversationHistory);
+    const plan = await withTimeout(
+      (signal) => planRequest(question, conversationHistory, signal),
+      "plan",
+      budget("plan")
+    ).catch((error) => {
+      if (!(error instanceof StageTimeoutError)) throw error;
+      console.warn(`[Chat] ${error.message}, using fallback plan`);
+      return { ...fallbackPlan(question), language: language || "en" };
+    });
     console.log(`[Chat] Plan: intent=${plan.intent}, agents=${plan.agents_to_call.join(",")}`);
+    options.onPlan?.(plan);
 
-    // Step 2: Retrieve evidence based on plan
-    const guichetEvidence =
-      plan.agents_to_call.includes("guichet") && plan.retrieval_queries.length > 0
-        ? await retrieveGuichetEvidence(plan.retrieval_queries, plan.language)
-        : [];
+    // Steps 2-3: Retrieve evidence and call specialist agents, one branch per agent
+    const runs = await Promise.all(
+      (["guichet", "legal"] as const)
+        .filter((agent) => plan.agents_to_call.includes(agent))
+        .map((agent) => runAgent(agent, question, plan, budget))
+    );
 
-    const legalEvidence =
-      plan.agents_to_call.includes("legal") && plan.retrieval_queries.length > 0
-        ? await retrieveLegalEvidence(plan.retrieval_queries, plan.language)
-        : [];
+    const guichetEvidence = runs.find((r) => r.agent === "guichet")?.evidence ?? [];
+    const legalEvidence = runs.find((r) => r.agent === "legal")?.evidence ?? [];
 
     // Validate evidence domains
     if (!validateEvidenceDomains([...guichetEvidence, ...legalEvidence])) {
       console.warn("[Chat] Evidence validation failed - domain mismatch");
     }
 
-    // Step 3: Call specialist agents
-    const agentResponses = [];
+    const agentResponses = runs.flatMap((r) => (r.response ? [r.response] : []));
+    const timeoutLimitations = runs.flatMap((r) =>
+      r.timedOut ? [timeoutLimitation(r.agent, r.timedOut)] : []
+    );
 
-    if (plan.agents_to_call.includes("guichet") && guichetEvidence.length > 0) {
-      const guichetResponse = await processGuichetQuery(question, plan.language, guichetEvidence);
-      agentResponses.push(guichetResponse);
-    }
+    // Sources that disagree are pointed out to the synthesis along with the one to follow
+    const allEvidence = [...guichetEvidence, ...legalEvidence];
+    const conflicts = detectConflicts(allEvidence);
 
-    if (plan.agents_to_call.includes("legal") && legalEvidence.length > 0) {
-      const legalResponse = await processLegalQuery(question, plan.language, legalEvidence);
-      agentResponses.push(legalResponse);
-    }
+    // Step 4: Synthesize responses (concatenated if synthesis runs out of time)
+    const synthesized = await withTimeout(
+      (signal) => synthesizeResponses(question, plan.language, agentResponses, conflicts, signal),
+      "synthesis",
+      budget("synthesis")
+    ).catch((error) => {
+      if (!(error instanceof StageTimeoutError)) throw error;
+      console.warn(`[Chat] ${error.message}, combining agent answers`);
+      return combineAgentResponses(agentResponses);
+    });
+    synthesized.limitations.push(...timeoutLimitations);
 
-    // Step 4: Synthesize responses
-    const synthesized = await synthesizeResponses(question, plan.language, agentResponses);
+    // Step 5: Check each sentence and step against the evidence (lexically only if the judge is too slow)
+    const toVerify = { ...synthesized, evidence: allEvidence, language: plan.language };
+    const verified = await withTimeout(
+      (signal) => verifyGrounding(toVerify, grounding, signal),
+      "verification",
+      budget("verification")
+    ).catch((error) => {
+      if (!(error instanceof StageTimeoutError)) throw error;
+      console.warn(`[Chat] ${error.message}, using lexical alignment only`);
+      return verifyGrounding(toVerify, { ...grounding, judge: false });
+    });
+    synthesized.limitations.push(...verified.limitations);
 
-    // Step 5: Build citations from evidence
-    const allEvidence = [...guichetEvidence, ...legalEvidence];
-    const citations = buildCitations(allEvidence);
+    // Citations only point at evidence that supports the answer
+    const supporting = new Set(verified.supportingEvidenceIds);
+    const citations = buildCitations(allEvidence.filter((e) => supporting.has(e.evidence_id)));
 
-    // Step 6: Check for conflicts
-    const conflicts = detectConflicts(legalEvidence);
-    if (conflicts.length > 0) {
-      synthesized.limitations.push(...conflicts);
-    }
+    // Step 6: Report conflicts between sources
+    synthesized.limitations.push(...conflicts.map((c) => c.message));
+
+    // Step 7: Rate confidence from the supporting evidence, source agreement and grounding
+    const assessment = scoreConfidence({
+      relevances: allEvidence
+        .filter((e) => supporting.has(e.evidence_id))
+        .map((e) => e.relevance_score ?? 0),
+      conflicts: conflicts.map((c) => c.message),
+      unsupportedRatio: verified.unsupportedRatio,
+      // A partial answer is never reported with high confidence
+      caps:
+        timeoutLimitations.length > 0
+          ? [{ level: "medium", reason: "Some sources did not respond in time." }]
+          : [],
+    });
 
-    // Step 7: Build final response
+    // Step 8: Build final response
     const response: ChatResponse = {
       language: plan.language,
-      answer: synthesized.answer,
-      steps: synthesized.steps,
+      answer: verified.answer,
+      steps: verified.steps,
       citations: citations,
-      confidence: synthesized.confidence,
+      confidence: assessment.level,
+      confidence_reasons: assessment.reasons,
       limitations: synthesized.limitations,
       suggested_searches: synthesized.suggested_searches,
       evidence: allEvidence,
+      conflicts,
     };
 
-    // Step 8: Validate response schema
+    // Step 9: Validate response schema
     if (!validateResponse(response)) {
       console.warn("[Chat] Response validation failed - schema mismatch");
     }
@@ -127,6 +329,7 @@ function buildErrorResponse(question: string, language?: Language): ChatResponse
     steps: [],
     citations: [],
     confidence: "low",
+    confidence_reasons: ["The question could not be processed."],
     limitations: [
       "An error occurred while processing your question.",
       "Please try again or contact support.",
@@ -0,0 +1,93 @@
+/**
+ * Streamed chat turns
+ * A turn runs once, on the server, from the moment it is started; its events
+ * are kept so that subscribers can follow it, and resume after a reconnect
+ * from the last event they received. Finished turns are forgotten after a
+ * few minutes.
+ */
+
+import { randomUUID } from "crypto";
+
+const FINISHED_TURN_RETENTION_MS = 5 * 60 * 1000;
+
+export interface ChatTurn<TEvent> {
+  id: string;
+  /** The user who started the turn, the only one who may follow it */
+  userId: number;
+  conversationId: number;
+  events: TEvent[];
+  finished: boolean;
+  error?: unknown;
+  /** Subscribers waiting for the next event */
+  waiters: Array<() => void>;
+}
+
+const turns = new Map<string, ChatTurn<unknown>>();
+
+/**
+ * Start running a turn in the background and return its id
+ */
+export function startChatTurn<TEvent>(
+  owner: { userId: number; conversationId: number },
+  run: () => AsyncIterable<TEvent>
+): string {
+  const turn: ChatTurn<TEvent> = { id: randomUUID(), ...owner, events: [], finished: false, waiters: [] };
+  turns.set(turn.id, turn);
+
+  const notify = () => turn.waiters.splice(0).forEach((wake) => wake());
+
+  void (async () => {
+    try {
+      for await (const event of run()) {
+        turn.events.push(event);
+        notify();
+      }
+    } catch (error) {
+      turn.error = error;
+    } finally {
+      turn.finished = true;
+      notify();
+      setTimeout(() => turns.delete(turn.id), FINISHED_TURN_RETENTION_MS).unref();
+    }
+  })();
+
+  return turn.id;
+}
+
+/**
+ * A turn the user started in the conversation, if it is still known
+ */
+export function getChatTurn<TEvent>(
+  id: string,
+  owner: { userId: number; conversationId: number }
+): ChatTurn<TEvent> | undefined {
+  const turn = turns.get(id) as ChatTurn<TEvent> | undefined;
+  return turn && turn.userId === owner.userId && turn.conversationId === owner.conversationId ? turn : undefined;
+}
+
+/**
+ * The events of a turn from an index on, then each new one until it ends
+ * Rethrows the turn's error once its events are delivered.
+ */
+export async function* followChatTurn<TEvent>(
+  turn: ChatTurn<TEvent>,
+  from: number,
+  signal?: AbortSignal
+): AsyncGenerator<{ index: number; event: TEvent }> {
+  let index = Math.max(0, from);
+
+  while (!signal?.aborted) {
+    for (; index < turn.events.length; index++) {
+      yield { index, event: turn.events[index]! };
+    }
+    if (turn.finished) {
+      if (turn.error !== undefined) throw turn.error;
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      turn.waiters.push(resolve);
+      signal?.addEventListener("abort", () => resolve(), { once: true });
+    });
+  }
+}
@@ -69,7 +69,7 @@ export const chatWithKBProcedure = protectedProcedure
     }
 
     // Search knowledge base for relevant content
-    const relevantContent = searchKnowledgeBase(message, 5);
+    const relevantContent = await searchKnowledgeBase(message, 5, { mode: "hybrid" });
 
     // Build system prompt with knowledge base context
     const systemPrompt = buildSystemPrompt(relevantContent, language);
@@ -92,6 +92,7 @@ export const chatWithKBProcedure = protectedProcedure
     const userMessage = await addMessage({
       conversationId: convId,
       sender: "user",
+      senderUserId: ctx.user.id,
       content: message,
     });
 
@@ -109,6 +110,7 @@ export const chatWithKBProcedure = protectedProcedure
         sourceTitle: content.title,
         sourceUrl: content.url,
         sourceType: "guichet" as const,
+        evidenceId: content.id,
       }));
 
       await addMessageSources(assistantMessage.id, sources);
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createMemoryCacheBackend, createRetrievalCache, getQueryHash } from "./cache";
+import { clearCache, getCacheStats, resetRetrievers, retrieveGuichetEvidence, setRetriever } from "./index";
+import { createFixtureRetriever, GUICHET_FIXTURES } from "./fixtures";
+import { clearKnowledgeBase } from "../knowledge-base";
+import type { RetrievalResult } from "@shared/types-independent";
+
+const results: RetrievalResult[] = GUICHET_FIXTURES;
+
+describe("retrieval cache", () => {
+  it("hits for the same normalised query and misses otherwise", async () => {
+    const cache = createRetrievalCache();
+    await cache.set("guichet", "en", "Sick leave", results);
+
+    expect(await cache.get("guichet", "en", "  sick   LEAVE ")).toEqual(results);
+    expect(await cache.get("guichet", "fr", "sick leave")).toBeNull();
+    expect(await cache.get("legal", "en", "sick leave")).toBeNull();
+
+    const metrics = await cache.getMetrics();
+    expect(metrics).toMatchObject({ backend: "memory", size: 1, hits: 1, misses: 2 });
+    expect(metrics.bySource.legal).toEqual({ hits: 0, misses: 1 });
+  });
+
+  it("evicts the least recently used entry beyond its size bound", async () => {
+    const cache = createRetrievalCache({ backend: createMemoryCacheBackend({ maxEntries: 2 }) });
+    await cache.set("guichet", "en", "a", results);
+    await cache.set("guichet", "en", "b", results);
+    await cache.get("guichet", "en", "a");
+    await cache.set("guichet", "en", "c", results);
+
+    expect(await cache.get("guichet", "en", "b")).toBeNull();
+    expect(await cache.get("guichet", "en", "a")).not.toBeNull();
+    expect(await cache.getMetrics()).toMatchObject({ size: 2, evictions: 1 });
+  });
+
+  it("expires entries after their source's TTL", async () => {
+    const cache = createRetrievalCache({ ttlHours: { guichet: 0 } });
+    await cache.set("guichet", "en", "a", results);
+    await cache.set("legal", "en", "a", results);
+
+    expect(await cache.get("guichet", "en", "a")).toBeNull();
+    expect(await cache.get("legal", "en", "a")).not.toBeNull();
+    expect(await cache.getMetrics()).toMatchObject({ expirations: 1, size: 1 });
+  });
+
+  it("invalidates one source at a time", async () => {
+    const cache = createRetrievalCache();
+    await cache.set("guichet", "en", "a", results);
+    await cache.set("legal", "en", "a", results);
+
+    await cache.invalidate("guichet");
+
+    expect(await cache.get("guichet", "en", "a")).toBeNull();
+    expect(await cache.get("legal", "en", "a")).not.toBeNull();
+    expect((await cache.getMetrics()).invalidations).toBe(1);
+  });
+
+  it("hashes queries into CachedRetrieval keys", () => {
+    expect(getQueryHash("guichet", "en", "Sick leave")).toMatch(/^[0-9a-f]{64}$/);
+    expect(getQueryHash("guichet", "en", "Sick leave")).toBe(getQueryHash("guichet", "en", "sick  leave"));
+  });
+});
+
+describe("retrieval layer caching", () => {
+  beforeEach(() => clearCache());
+  afterEach(() => resetRetrievers());
+
+  it("serves repeated queries from the cache until the knowledge base changes", async () => {
+    let calls = 0;
+    const fixture = createFixtureRetriever("guichet");
+    setRetriever({
+      source: "guichet",
+      retrieve: (query, options) => {
+        calls++;
+        return fixture.retrieve(query, options);
+      },
+    });
+
+    await retrieveGuichetEvidence(["sick leave"], "en");
+    await retrieveGuichetEvidence(["sick leave"], "en");
+    expect(calls).toBe(1);
+
+    clearKnowledgeBase();
+    await retrieveGuichetEvidence(["sick leave"], "en");
+    expect(calls).toBe(2);
+
+    expect(await getCacheStats()).toMatchObject({ hits: 1, misses: 2 });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Retrieval cache
+ * Bounded LRU cache of retrieval results with per-source TTLs and hit/miss
+ * metrics, backed by process memory or by the database (shared by instances)
+ */
+
+import { createHash } from "crypto";
+import type {
+  CachedRetrieval,
+  Language,
+  RetrievalResult,
+  SourceType,
+} from "@shared/types-independent";
+import {
+  countRetrievalCacheEntries,
+  deleteRetrievalCacheEntries,
+  evictRetrievalCacheEntries,
+  getRetrievalCacheEntry,
+  touchRetrievalCacheEntry,
+  upsertRetrievalCacheEntry,
+} from "../db";
+
+/**
+ * Storage for cache entries
+ * Backends enforce the size bound; expiry is checked by the cache itself.
+ */
+export interface RetrievalCacheBackend {
+  name: string;
+  /** Returns the entry and marks it as most recently used */
+  get(queryHash: string): Promise<CachedRetrieval | null>;
+  /** Stores the entry and returns how many entries were evicted to make room */
+  set(entry: CachedRetrieval): Promise<number>;
+  delete(queryHash: string): Promise<void>;
+  /** Removes every entry, or only those of one source; returns how many were removed */
+  clear(source?: SourceType): Promise<number>;
+  size(): Promise<number>;
+}
+
+export interface RetrievalCacheMetrics {
+  backend: string;
+  size: number;
+  hits: number;
+  misses: number;
+  /** Entries dropped because their TTL had passed */
+  expirations: number;
+  /** Entries dropped to stay within the size bound */
+  evictions: number;
+  /** Entries dropped because their corpus changed */
+  invalidations: number;
+  bySource: Record<SourceType, { hits: number; misses: number }>;
+}
+
+export interface RetrievalCache {
+  get(source: SourceType, language: Language, query: string): Promise<RetrievalResult[] | null>;
+  set(source: SourceType, language: Language, query: string, results: RetrievalResult[]): Promise<void>;
+  /** Drop the entries of one source (or all) after its corpus changed */
+  invalidate(source?: SourceType): Promise<void>;
+  getMetrics(): Promise<RetrievalCacheMetrics>;
+  resetMetrics(): void;
+}
+
+// Guichet pages are re-crawled daily; consolidated legal texts change rarely
+export const DEFAULT_TTL_HOURS: Record<SourceType, number> = {
+  guichet: 24,
+  legal: 24 * 7,
+  mixed: 24,
+};
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Cache key: the same question in the same language hits the same entry
+ */
+export function getQueryHash(source: SourceType, language: Language, query: string): string {
+  const normalized = query.toLowerCase().replace(/\s+/g, " ").trim();
+  return createHash("sha256").update(`${source}:${language}:${normalized}`).digest("hex");
+}
+
+/**
+ * In-process backend; Map iteration order doubles as recency order
+ */
+export function createMemoryCacheBackend(options: { maxEntries?: number } = {}): RetrievalCacheBackend {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const entries = new Map<string, CachedRetrieval>();
+
+  return {
+    name: "memory",
+    async get(queryHash) {
+      const entry = entries.get(queryHash);
+      if (!entry) return null;
+      entries.delete(queryHash);
+      entries.set(queryHash, entry);
+      return entry;
+    },
+    async set(entry) {
+      entries.delete(entry.query_hash);
+      entries.set(entry.query_hash, entry);
+
+      let evicted = 0;
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+        evicted++;
+      }
+      return evicted;
+    },
+    async delete(queryHash) {
+      entries.delete(queryHash);
+    },
+    async clear(source) {
+      if (!source) {
+        const removed = entries.size;
+        entries.clear();
+        return removed;
+      }
+      let removed = 0;
+      entries.forEach((entry, key) => {
+        if (entry.source === source) {
+          entries.delete(key);
+          removed++;
+        }
+      });
+      return removed;
+    },
+    async size() {
+      return entries.size;
+    },
+  };
+}
+
+/**
+ * Database backend (retrievalCache table), shared by every server instance
+ */
+export function createDbCacheBackend(options: { maxEntries?: number } = {}): RetrievalCacheBackend {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+  return {
+    name: "db",
+    async get(queryHash) {
+      const row = await getRetrievalCacheEntry(queryHash);
+      if (!row) return null;
+      await touchRetrievalCacheEntry(queryHash);
+      return {
+        query_hash: row.queryHash,
+        source: row.source,
+        results: JSON.parse(row.results) as RetrievalResult[],
+        cached_at: row.cachedAt.toISOString(),
+        ttl_hours: row.ttlHours,
+      };
+    },
+    async set(entry) {
+      const now = new Date();
+      await upsertRetrievalCacheEntry({
+        queryHash: entry.query_hash,
+        source: entry.source,
+        results: JSON.stringify(entry.results),
+        ttlHours: entry.ttl_hours,
+        cachedAt: new Date(entry.cached_at),
+        lastAccessedAt: now,
+      });
+      return evictRetrievalCacheEntries(maxEntries);
+    },
+    async delete(queryHash) {
+      await deleteRetrievalCacheEntries({ queryHash });
+    },
+    async clear(source) {
+      return deleteRetrievalCacheEntries({ source });
+    },
+    async size() {
+      return countRetrievalCacheEntries();
+    },
+  };
+}
+
+/**
+ * Create a cache over a backend
+ * Backend failures are logged and treated as misses so retrieval keeps working.
+ */
+export function createRetrievalCache(
+  options: { backend?: RetrievalCacheBackend; ttlHours?: Partial<Record<SourceType, number>> } = {}
+): RetrievalCache {
+  const backend = options.backend ?? createMemoryCacheBackend();
+  const ttlHours = { ...DEFAULT_TTL_HOURS, ...options.ttlHours };
+
+  const emptyCounters = () => ({
+    hits: 0,
+    misses: 0,
+    expirations: 0,
+    evictions: 0,
+    invalidations: 0,
+    bySource: {
+      guichet: { hits: 0, misses: 0 },
+      legal: { hits: 0, misses: 0 },
+      mixed: { hits: 0, misses: 0 },
+    },
+  });
+  let counters = emptyCounters();
+
+  const miss = (source: SourceType) => {
+    counters.misses++;
+    counters.bySource[source].misses++;
+    return null;
+  };
+
+  return {
+    async get(source, language, query) {
+      const queryHash = getQueryHash(source, language, query);
+      try {
+        const entry = await backend.get(queryHash);
+        if (!entry) return miss(source);
+
+        if (Date.now() - Date.parse(entry.cached_at) >= entry.ttl_hours * 60 * 60 * 1000) {
+          counters.expirations++;
+          await backend.delete(queryHash);
+          return miss(source);
+        }
+
+        counters.hits++;
+        counters.bySource[source].hits++;
+        return entry.results;
+      } catch (error) {
+        console.error("[Retrieval] Cache read failed:", error);
+        return miss(source);
+      }
+    },
+
+    async set(source, language, query, results) {
+      try {
+        counters.evictions += await backend.set({
+          query_hash: getQueryHash(source, language, query),
+          source,
+          results,
+          cached_at: new Date().toISOString(),
+          ttl_hours: ttlHours[source],
+        });
+      } catch (error) {
+        console.error("[Retrieval] Cache write failed:", error);
+      }
+    },
+
+    async invalidate(source) {
+      try {
+        counters.invalidations += await backend.clear(source);
+      } catch (error) {
+        console.error("[Retrieval] Cache invalidation failed:", error);
+      }
+    },
+
+    async getMetrics() {
+      return { backend: backend.name, size: await backend.size(), ...counters };
+    },
+
+    resetMetrics() {
+      counters = emptyCounters();
+    },
+  };
+}
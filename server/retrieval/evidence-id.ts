@@ -0,0 +1,25 @@
+/**
+ * Stable evidence identifiers
+ * Derived from where a passage lives and what it says, so the same passage
+ * keeps its id across scrapes, cache hits, server instances and turns
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * `${prefix}-` followed by the first 20 hex chars of sha256(url, section, content)
+ */
+export function evidenceId(prefix: string, url: string, section: string, content: string): string {
+  const hash = createHash("sha256")
+    .update(`${url}\n${section}\n${content}`)
+    .digest("hex")
+    .slice(0, 20);
+  return `${prefix}-${hash}`;
+}
+
+/**
+ * Id for a link cited without a stored passage (e.g. a URL named by the LLM)
+ */
+export function linkEvidenceId(url: string): string {
+  return evidenceId("link", url, "", "");
+}
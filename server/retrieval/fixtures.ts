@@ -0,0 +1,60 @@
+/**
+ * Fixture retrievers (for testing)
+ * Return canned results instead of searching the corpora; never used in production.
+ */
+
+import type { RetrievalResult } from "@shared/types-independent";
+import type { RetrievalSource, Retriever } from "./retriever";
+
+export const GUICHET_FIXTURES: RetrievalResult[] = [
+  {
+    id: "guichet-fixture-contract",
+    url: "https://guichet.public.lu/en/citoyens/emploi-travail/contrat-travail",
+    title: "Employment Contract",
+    section: "Rights and Obligations",
+    snippet:
+      "An employment contract must be in writing and contain the essential terms of employment including salary, working hours, and duration.",
+    source: "guichet",
+    retrieved_at: "2026-01-16",
+    score: 1,
+  },
+];
+
+export const LEGAL_FIXTURES: RetrievalResult[] = [
+  {
+    id: "legilux-fixture-l121-4",
+    url: "https://legilux.public.lu/eli/etat/leg/code/travail/20240101",
+    title: "Code du travail, Art. L.121-4",
+    section: "Livre Ier > Titre II – Contrat de travail",
+    snippet:
+      "Le contrat de travail doit être constaté par écrit pour chaque salarié au plus tard au moment de l'entrée en service.",
+    source: "legal",
+    retrieved_at: "2026-01-16",
+    score: 1,
+    article_number: "L.121-4",
+    eli_uri: "https://legilux.public.lu/eli/etat/leg/code/travail/20240101",
+    version_date: "2024-01-01",
+  },
+];
+
+/**
+ * Retriever returning the given results for every query
+ * Results tagged with a language (by their URL's /en/, /fr/, /de/ segment) are
+ * filtered like the real retrievers filter by language.
+ */
+export function createFixtureRetriever(
+  source: RetrievalSource,
+  results: RetrievalResult[] = source === "guichet" ? GUICHET_FIXTURES : LEGAL_FIXTURES
+): Retriever {
+  return {
+    source,
+    async retrieve(_query, { language, limit }) {
+      return results
+        .filter((r) => {
+          const tagged = new URL(r.url).pathname.match(/^\/(en|fr|de)\//);
+          return !language || !tagged || tagged[1] === language;
+        })
+        .slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  clearCache,
+  resetRetrievers,
+  retrieveGuichetEvidence,
+  retrieveLegalEvidence,
+  setRetriever,
+} from "./index";
+import { createFixtureRetriever, LEGAL_FIXTURES } from "./fixtures";
+import { addToKnowledgeBase, clearKnowledgeBase } from "../knowledge-base";
+import type { RetrievalResult } from "@shared/types-independent";
+
+function fixture(path: string, score: number, snippet = `Snippet for ${path}`): RetrievalResult {
+  return {
+    id: `guichet-${path}`,
+    url: `https://guichet.public.lu${path}`,
+    title: path,
+    section: "Section",
+    snippet,
+    source: "guichet",
+    retrieved_at: "2026-01-16",
+    score,
+  };
+}
+
+describe("retrieval with fixture retrievers", () => {
+  beforeEach(() => clearCache());
+  afterEach(() => resetRetrievers());
+
+  it("deduplicates results found by several queries and ranks them by score", async () => {
+    setRetriever(
+      createFixtureRetriever("guichet", [
+        fixture("/en/a.html", 0.4),
+        fixture("/en/b.html", 0.9),
+      ])
+    );
+
+    const evidence = await retrieveGuichetEvidence(["sick leave", "medical certificate"], "en");
+
+    expect(evidence.map((e) => e.title)).toEqual(["/en/b.html", "/en/a.html"]);
+    expect(evidence.map((e) => e.relevance_score)).toEqual([0.9, 0.4]);
+  });
+
+  it("filters by language", async () => {
+    setRetriever(
+      createFixtureRetriever("guichet", [fixture("/en/a.html", 0.8), fixture("/fr/a.html", 0.9)])
+    );
+
+    const evidence = await retrieveGuichetEvidence(["congé"], "en");
+
+    expect(evidence.map((e) => e.url)).toEqual(["https://guichet.public.lu/en/a.html"]);
+  });
+
+  it("keeps the legal metadata of article evidence", async () => {
+    setRetriever(createFixtureRetriever("legal"));
+
+    const [evidence] = await retrieveLegalEvidence(["written contract"], "en");
+
+    expect(evidence).toMatchObject({
+      source: "legal",
+      article_number: LEGAL_FIXTURES[0]!.article_number,
+      relevance_score: 1,
+    });
+  });
+});
+
+describe("retrieval from the knowledge base", () => {
+  beforeEach(async () => {
+    await clearCache();
+    clearKnowledgeBase();
+    await addToKnowledgeBase(
+      [
+        {
+          id: "sick-en",
+          title: "Sick leave",
+          url: "https://guichet.public.lu/en/citoyens/travail/conges/maladie.html",
+          content: "An employee on sick leave must send a medical certificate to the employer.",
+          section: "Medical certificate",
+          category: "Leave",
+          lastUpdated: new Date(),
+          language: "en",
+        },
+        {
+          id: "sick-fr",
+          title: "Congé de maladie",
+          url: "https://guichet.public.lu/fr/citoyens/travail/conges/maladie.html",
+          content: "Le salarié en congé de maladie doit envoyer un certificat médical à l'employeur.",
+          section: "Certificat médical",
+          category: "Leave",
+          lastUpdated: new Date(),
+          language: "fr",
+        },
+      ],
+      { persist: false }
+    );
+  });
+
+  it("returns scored evidence in the requested language", async () => {
+    const evidence = await retrieveGuichetEvidence(["sick leave medical certificate"], "en");
+
+    expect(evidence.map((e) => e.url)).toEqual([
+      "https://guichet.public.lu/en/citoyens/travail/conges/maladie.html",
+    ]);
+    expect(evidence[0]?.relevance_score).toBeGreaterThan(0);
+    expect(evidence[0]?.relevance_score).toBeLessThanOrEqual(1);
+  });
+
+  it("uses the stored passage id as a stable evidence id", async () => {
+    const first = await retrieveGuichetEvidence(["sick leave"], "en");
+    const cached = await retrieveGuichetEvidence(["sick leave"], "en");
+    await clearCache();
+    const fresh = await retrieveGuichetEvidence(["medical certificate sick leave"], "en");
+
+    expect(first[0]?.evidence_id).toBe("sick-en");
+    expect(cached[0]?.evidence_id).toBe("sick-en");
+    expect(fresh[0]?.evidence_id).toBe("sick-en");
+  });
+
+  it("falls back to other languages when nothing matches in the requested one", async () => {
+    const evidence = await retrieveGuichetEvidence(["certificat médical"], "de");
+
+    expect(evidence.map((e) => e.url)).toContain(
+      "https://guichet.public.lu/fr/citoyens/travail/conges/maladie.html"
+    );
+  });
+});
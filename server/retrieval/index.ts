@@ -1,9 +1,25 @@
 /**
  * Retrieval Layer - Fetches evidence from authorized sources
- * Supports caching and domain allowlisting
+ * Supports caching (see ./cache) and domain allowlisting
  */
 
-import type { RetrievalResult, Evidence } from "@shared/types-independent";
+import type { Evidence, Language, RetrievalResult } from "@shared/types-independent";
+import { ENV } from "../_core/env";
+import { onKnowledgeBaseChange } from "../knowledge-base";
+import { onLegalCorpusChange } from "../legal-corpus";
+import {
+  createDbCacheBackend,
+  createMemoryCacheBackend,
+  createRetrievalCache,
+  type RetrievalCache,
+  type RetrievalCacheMetrics,
+} from "./cache";
+import {
+  createGuichetRetriever,
+  createLegalRetriever,
+  type RetrievalSource,
+  type Retriever,
+} from "./retriever";
 
 /**
  * Domain allowlist - only these domains are used
@@ -13,92 +29,101 @@ const DOMAIN_ALLOWLIST = {
   legal: ["legilux.public.lu", "mt.gouvernement.lu"],
 };
 
-/**
- * Cache for retrieval results (in-memory, production should use Redis)
- */
-const retrievalCache = new Map<string, { results: RetrievalResult[]; timestamp: number }>();
-const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const RESULTS_PER_QUERY = 3;
+// Evidence handed to one agent across all of a plan's queries
+const MAX_EVIDENCE = 8;
+
+const defaultRetrievers = (): Record<RetrievalSource, Retriever> => ({
+  guichet: createGuichetRetriever(),
+  legal: createLegalRetriever(),
+});
+let retrievers = defaultRetrievers();
+
+const defaultCache = (): RetrievalCache =>
+  createRetrievalCache({
+    backend:
+      ENV.retrievalCacheBackend === "db"
+        ? createDbCacheBackend({ maxEntries: ENV.retrievalCacheMaxEntries })
+        : createMemoryCacheBackend({ maxEntries: ENV.retrievalCacheMaxEntries }),
+  });
+let retrievalCache = defaultCache();
 
-/**
- * Generate cache key from query
- */
-function getCacheKey(query: string, source: "guichet" | "legal"): string {
-  return `${source}:${query.toLowerCase().replace(/\s+/g, "_")}`;
-}
+// Cached results would keep citing passages that were rewritten or removed
+onKnowledgeBaseChange(() => void retrievalCache.invalidate("guichet"));
+onLegalCorpusChange(() => void retrievalCache.invalidate("legal"));
 
 /**
- * Check cache for existing results
+ * Run one query against a source, preferring results in the user's language
  */
-function getCachedResults(query: string, source: "guichet" | "legal"): RetrievalResult[] | null {
-  const key = getCacheKey(query, source);
-  const cached = retrievalCache.get(key);
-
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-    console.log(`[Retrieval] Cache hit for ${key}`);
-    return cached.results;
+async function retrieveResults(
+  source: RetrievalSource,
+  query: string,
+  language: Language
+): Promise<RetrievalResult[]> {
+  const cached = await retrievalCache.get(source, language, query);
+  if (cached) return cached;
+
+  const retriever = retrievers[source];
+  let results = await retriever.retrieve(query, { language, limit: RESULTS_PER_QUERY });
+  // Better evidence in another language than none (the Code du travail is
+  // only published in French)
+  if (results.length === 0) {
+    results = await retriever.retrieve(query, { limit: RESULTS_PER_QUERY });
   }
 
-  if (cached) {
-    retrievalCache.delete(key);
+  // An empty result may only mean the corpus is still being indexed
+  if (results.length > 0) {
+    await retrievalCache.set(source, language, query, results);
   }
-  return null;
+  return results;
 }
 
 /**
- * Store results in cache
+ * Retrieve evidence for every query, deduplicated and ranked by relevance
  */
-function cacheResults(query: string, source: "guichet" | "legal", results: RetrievalResult[]): void {
-  const key = getCacheKey(query, source);
-  retrievalCache.set(key, { results, timestamp: Date.now() });
+async function retrieveEvidence(
+  source: RetrievalSource,
+  queries: string[],
+  language: Language
+): Promise<Evidence[]> {
+  const best = new Map<string, RetrievalResult>();
+
+  for (const query of queries) {
+    for (const result of await retrieveResults(source, query, language)) {
+      // The same passage is usually found by several of a plan's queries
+      const existing = best.get(result.id);
+      if (!existing || result.score > existing.score) {
+        best.set(result.id, result);
+      }
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_EVIDENCE)
+    .map((r) => ({
+      evidence_id: r.id,
+      url: r.url,
+      title: r.title,
+      section: r.section,
+      snippet: r.snippet,
+      source: r.source,
+      retrieved_at: new Date().toISOString().split("T")[0],
+      relevance_score: r.score,
+      ...(r.article_number
+        ? { article_number: r.article_number, eli_uri: r.eli_uri, version_date: r.version_date }
+        : {}),
+    }));
 }
 
 /**
  * Retrieve evidence from Guichet sources
- * In production, this would call a real search API or web scraper
  */
 export async function retrieveGuichetEvidence(
   queries: string[],
-  language: string
+  language: Language
 ): Promise<Evidence[]> {
-  const evidence: Evidence[] = [];
-
-  for (const query of queries) {
-    // Check cache first
-    const cached = getCachedResults(query, "guichet");
-    if (cached) {
-      evidence.push(
-        ...cached.map((r) => ({
-          evidence_id: `ev_${Math.random().toString(36).substr(2, 9)}`,
-          url: r.url,
-          title: r.title,
-          section: r.section,
-          snippet: r.snippet,
-          source: "guichet" as const,
-          retrieved_at: new Date().toISOString().split("T")[0],
-        }))
-      );
-      continue;
-    }
-
-    // In production, call real retrieval API
-    // For now, return mock data
-    const mockResults = getMockGuichetResults(query, language);
-    cacheResults(query, "guichet", mockResults);
-
-    evidence.push(
-      ...mockResults.map((r) => ({
-        evidence_id: `ev_${Math.random().toString(36).substr(2, 9)}`,
-        url: r.url,
-        title: r.title,
-        section: r.section,
-        snippet: r.snippet,
-        source: "guichet" as const,
-        retrieved_at: new Date().toISOString().split("T")[0],
-      }))
-    );
-  }
-
-  return evidence;
+  return retrieveEvidence("guichet", queries, language);
 }
 
 /**
@@ -106,81 +131,23 @@ export async function retrieveGuichetEvidence(
  */
 export async function retrieveLegalEvidence(
   queries: string[],
-  language: string
+  language: Language
 ): Promise<Evidence[]> {
-  const evidence: Evidence[] = [];
-
-  for (const query of queries) {
-    // Check cache first
-    const cached = getCachedResults(query, "legal");
-    if (cached) {
-      evidence.push(
-        ...cached.map((r) => ({
-          evidence_id: `ev_${Math.random().toString(36).substr(2, 9)}`,
-          url: r.url,
-          title: r.title,
-          section: r.section,
-          snippet: r.snippet,
-          source: "legal" as const,
-          retrieved_at: new Date().toISOString().split("T")[0],
-        }))
-      );
-      continue;
-    }
-
-    // In production, call real retrieval API
-    // For now, return mock data
-    const mockResults = getMockLegalResults(query, language);
-    cacheResults(query, "legal", mockResults);
-
-    evidence.push(
-      ...mockResults.map((r) => ({
-        evidence_id: `ev_${Math.random().toString(36).substr(2, 9)}`,
-        url: r.url,
-        title: r.title,
-        section: r.section,
-        snippet: r.snippet,
-        source: "legal" as const,
-        retrieved_at: new Date().toISOString().split("T")[0],
-      }))
-    );
-  }
-
-  return evidence;
+  return retrieveEvidence("legal", queries, language);
 }
 
 /**
- * Mock data for Guichet (replace with real API)
+ * Override the retriever for its source (for testing)
  */
-function getMockGuichetResults(query: string, language: string): RetrievalResult[] {
-  return [
-    {
-      url: "https://guichet.public.lu/en/citoyens/emploi-travail/contrat-travail",
-      title: "Employment Contract",
-      section: "Rights and Obligations",
-      snippet:
-        "An employment contract must be in writing and contain the essential terms of employment including salary, working hours, and duration.",
-      source: "guichet",
-      retrieved_at: new Date().toISOString().split("T")[0],
-    },
-  ];
+export function setRetriever(retriever: Retriever): void {
+  retrievers[retriever.source] = retriever;
 }
 
 /**
- * Mock data for Legal (replace with real API)
+ * Restore the corpus-backed retrievers
  */
-function getMockLegalResults(query: string, language: string): RetrievalResult[] {
-  return [
-    {
-      url: "https://legilux.public.lu/eli/etat/leg/loi/2018/05/08/a710",
-      title: "Labour Code - Article 1",
-      section: "General Provisions",
-      snippet:
-        "Every worker has the right to a written employment contract specifying the terms and conditions of employment.",
-      source: "legal",
-      retrieved_at: new Date().toISOString().split("T")[0],
-    },
-  ];
+export function resetRetrievers(): void {
+  retrievers = defaultRetrievers();
 }
 
 /**
@@ -196,19 +163,24 @@ export function validateEvidenceDomains(evidence: Evidence[]): boolean {
   });
 }
 
+/**
+ * Replace the retrieval cache (pass null to restore the configured one)
+ */
+export function setRetrievalCache(next: RetrievalCache | null): void {
+  retrievalCache = next ?? defaultCache();
+}
+
 /**
  * Clear cache (for testing)
  */
-export function clearCache(): void {
-  retrievalCache.clear();
+export async function clearCache(): Promise<void> {
+  await retrievalCache.invalidate();
+  retrievalCache.resetMetrics();
 }
 
 /**
- * Get cache stats
+ * Get cache hit/miss, eviction and size metrics
  */
-export function getCacheStats(): { size: number; entries: string[] } {
-  return {
-    size: retrievalCache.size,
-    entries: Array.from(retrievalCache.keys()),
-  };
+export async function getCacheStats(): Promise<RetrievalCacheMetrics> {
+  return retrievalCache.getMetrics();
 }
@@ -0,0 +1,80 @@
+/**
+ * Retrievers - source-specific evidence search over the indexed corpora
+ */
+
+import type { Language, RetrievalResult } from "@shared/types-independent";
+import { rankKnowledgeBase } from "../knowledge-base";
+import { rankLegalArticles } from "../legal-corpus";
+import { formatArticleCitation, formatArticlePath } from "../scrapers/legilux";
+
+export type RetrievalSource = "guichet" | "legal";
+
+export interface RetrievalOptions {
+  /** Only return content in this language; omit to search every language */
+  language?: Language;
+  limit: number;
+}
+
+export interface Retriever {
+  source: RetrievalSource;
+  /** Results best first, each with a relevance score in [0, 1] */
+  retrieve(query: string, options: RetrievalOptions): Promise<RetrievalResult[]>;
+}
+
+// Long passages are trimmed so several fit in an agent prompt
+const MAX_SNIPPET_CHARS = 800;
+
+function truncate(text: string): string {
+  return text.length > MAX_SNIPPET_CHARS ? `${text.slice(0, MAX_SNIPPET_CHARS)}…` : text;
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+/**
+ * Guichet.lu passages from the knowledge base (hybrid BM25 + embeddings)
+ */
+export function createGuichetRetriever(): Retriever {
+  return {
+    source: "guichet",
+    async retrieve(query, { language, limit }) {
+      const hits = await rankKnowledgeBase(query, limit, { mode: "hybrid", language });
+      return hits.map(({ content, score }) => ({
+        id: content.id,
+        url: content.url,
+        title: content.title,
+        section: content.section,
+        snippet: truncate(content.content),
+        source: "guichet",
+        retrieved_at: today(),
+        score,
+      }));
+    },
+  };
+}
+
+/**
+ * Code du travail articles from the Legilux corpus
+ */
+export function createLegalRetriever(): Retriever {
+  return {
+    source: "legal",
+    async retrieve(query, { language, limit }) {
+      const hits = await rankLegalArticles(query, limit, { language });
+      return hits.map(({ article, score }) => ({
+        id: article.id,
+        url: article.url,
+        title: `${article.documentTitle}, ${formatArticleCitation(article)}`,
+        section: formatArticlePath(article) || article.documentTitle,
+        snippet: truncate(article.content),
+        source: "legal",
+        retrieved_at: today(),
+        score,
+        article_number: article.articleNumber,
+        eli_uri: article.eliUri,
+        version_date: article.versionDate?.toISOString().split("T")[0],
+      }));
+    },
+  };
+}
@@ -7,6 +7,10 @@ import { chatRouter } from "./routers/chat";
 import { chatFormattedRouter } from "./routers/chat-formatted";
 import { integrationsRouter } from "./routers/integrations";
 import { debugRouter } from "./routers/debug";
+import { usageRouter } from "./routers/usage";
+import { auditRouter } from "./routers/audit";
+import { shareLinksRouter } from "./routers/share-links";
+import { conversationExportRouter } from "./routers/conversation-export";
 
 export const appRouter = router({
     // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -28,6 +32,10 @@ export const appRouter = router({
   chat: chatFormattedRouter,
   integrations: integrationsRouter,
   debug: debugRouter,
+  usage: usageRouter,
+  audit: auditRouter,
+  shareLinks: shareLinksRouter,
+  conversationExport: conversationExportRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { auditRouter } from "./audit";
+import { chatFormattedRouter } from "./chat-formatted";
+import { getConversationWithMessages, insertAuditLog, searchAuditLogs } from "../db";
+import { processQuestion } from "../procedures/chat-independent";
+import { recordLLMUsage } from "../llm/usage";
+import { createTestContext } from "../test-context";
+import type { AuditLogRow } from "../../drizzle/schema";
+import type { OrchestratorPlan } from "@shared/types-independent";
+
+vi.mock("../db", () => ({
+  getConversationRole: vi.fn(async () => "owner"),
+  getConversationWithMessages: vi.fn(),
+  getUsageLimits: vi.fn(async () => undefined),
+  insertLLMUsage: vi.fn(async () => {}),
+  insertAuditLog: vi.fn(async () => {}),
+  searchAuditLogs: vi.fn(),
+  addMessage: vi.fn(async (data) => ({ id: data.sender === "user" ? 10 : 11, ...data, createdAt: new Date() })),
+  addMessageSources: vi.fn(async () => {}),
+}));
+
+vi.mock("../llm", () => ({
+  routeQuery: vi.fn(async () => ({ mode: "legal", confidence: 1, reasoning: "" })),
+  generateChatResponse: vi.fn(async () => ({ content: "Single answer", mode: "legal", sources: [] })),
+}));
+
+vi.mock("../knowledge-base", () => ({
+  rankKnowledgeBase: vi.fn(async () => []),
+  extractExcerpts: vi.fn(() => []),
+}));
+
+const PLAN: OrchestratorPlan = {
+  language: "fr",
+  intent: "mixed",
+  confidence: 0.9,
+  reasoning: "Procedure and legal basis",
+  retrieval_queries: ["congé maladie"],
+  agents_to_call: ["guichet", "legal"],
+};
+
+const AGENT_RESPONSE = {
+  language: "fr" as const,
+  answer: "Envoyez un certificat médical.",
+  steps: [],
+  citations: [],
+  confidence: "medium" as const,
+  limitations: [],
+  suggested_searches: [],
+  evidence: [],
+};
+
+vi.mock("../procedures/chat-independent", () => ({
+  processQuestion: vi.fn(),
+}));
+
+function auditRow(values: Partial<AuditLogRow> = {}): AuditLogRow {
+  return {
+    id: 5,
+    userId: 1,
+    conversationId: 7,
+    messageId: 11,
+    externalSiteKey: null,
+    pipeline: "agents",
+    question: 'Quel est le délai pour un "certificat", svp?',
+    language: "fr",
+    intent: "mixed",
+    plan: JSON.stringify(PLAN),
+    response: JSON.stringify(AGENT_RESPONSE),
+    agentsCalled: JSON.stringify(["orchestrator", "guichet", "legal"]),
+    costTokens: 1200,
+    createdAt: new Date("2026-03-14T10:00:00Z"),
+    ...values,
+  };
+}
+
+describe("audit trail", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("audits agent answers with the plan, the response and the turn's tokens", async () => {
+    vi.mocked(getConversationWithMessages).mockResolvedValue({
+      conversation: { id: 7, userId: 1, language: "fr", pipeline: "agents", externalSiteKey: "wl_site" },
+      messages: [],
+    } as any);
+    vi.mocked(processQuestion).mockImplementation(async (_question, _language, _history, options) => {
+      options?.onPlan?.(PLAN);
+      recordLLMUsage({ profile: "router", provider: "p", model: "m", promptTokens: 300, completionTokens: 50 });
+      recordLLMUsage({ profile: "synthesis", provider: "p", model: "m", promptTokens: 800, completionTokens: 150 });
+      return AGENT_RESPONSE;
+    });
+
+    const caller = chatFormattedRouter.createCaller(createTestContext());
+    await caller.sendMessage({ conversationId: 7, content: "Délai du certificat médical ?" });
+
+    expect(insertAuditLog).toHaveBeenCalledWith({
+      userId: 1,
+      conversationId: 7,
+      messageId: 11,
+      externalSiteKey: "wl_site",
+      pipeline: "agents",
+      question: "Délai du certificat médical ?",
+      language: "fr",
+      intent: "mixed",
+      plan: JSON.stringify(PLAN),
+      response: JSON.stringify(AGENT_RESPONSE),
+      agentsCalled: JSON.stringify(["orchestrator", "guichet", "legal"]),
+      costTokens: 1300,
+    });
+  });
+
+  it("audits single LLM answers with their expertise mode", async () => {
+    vi.mocked(getConversationWithMessages).mockResolvedValue({
+      conversation: { id: 7, userId: 1, language: "en", pipeline: "single", externalSiteKey: null },
+      messages: [],
+    } as any);
+
+    const caller = chatFormattedRouter.createCaller(createTestContext());
+    await caller.sendMessage({ conversationId: 7, content: "Notice period?" });
+
+    expect(vi.mocked(insertAuditLog).mock.calls[0]?.[0]).toMatchObject({
+      pipeline: "single",
+      intent: "legal",
+      plan: null,
+      agentsCalled: "[]",
+    });
+  });
+
+  it("retries a failed audit write, then fails the turn", async () => {
+    vi.mocked(getConversationWithMessages).mockResolvedValue({
+      conversation: { id: 7, userId: 1, language: "en", pipeline: "single", externalSiteKey: null },
+      messages: [],
+    } as any);
+    const caller = chatFormattedRouter.createCaller(createTestContext());
+
+    vi.mocked(insertAuditLog).mockRejectedValueOnce(new Error("Deadlock"));
+    await expect(caller.sendMessage({ conversationId: 7, content: "Notice period?" })).resolves.toBeDefined();
+    expect(insertAuditLog).toHaveBeenCalledTimes(2);
+
+    vi.mocked(insertAuditLog).mockClear();
+    for (let i = 0; i < 3; i++) vi.mocked(insertAuditLog).mockRejectedValueOnce(new Error("Connection lost"));
+    await expect(caller.sendMessage({ conversationId: 7, content: "Notice period?" })).rejects.toMatchObject({
+      code: "INTERNAL_SERVER_ERROR",
+    });
+    expect(insertAuditLog).toHaveBeenCalledTimes(3);
+  });
+
+  it("searches entries for admins only", async () => {
+    vi.mocked(searchAuditLogs).mockResolvedValue({ entries: [auditRow()], total: 1 });
+
+    const result = await auditRouter
+      .createCaller(createTestContext({ role: "admin" }))
+      .search({ intent: "mixed", language: "fr", from: new Date("2026-03-01") });
+
+    expect(searchAuditLogs).toHaveBeenCalledWith(
+      { intent: "mixed", language: "fr", from: new Date("2026-03-01") },
+      { limit: 50, offset: 0 }
+    );
+    expect(result.total).toBe(1);
+    expect(result.entries[0]).toMatchObject({
+      id: "5",
+      user_id: "1",
+      plan: PLAN,
+      response: AGENT_RESPONSE,
+      agents_called: ["orchestrator", "guichet", "legal"],
+      cost_tokens: 1200,
+      created_at: "2026-03-14T10:00:00.000Z",
+    });
+
+    await expect(auditRouter.createCaller(createTestContext()).search({})).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("exports entries as CSV with quoted text and JSON columns", async () => {
+    vi.mocked(searchAuditLogs).mockResolvedValue({ entries: [auditRow({ plan: null })], total: 1 });
+
+    const file = await auditRouter.createCaller(createTestContext({ role: "admin" })).export({ userId: 1 });
+    const [header, row, end] = file.content.split("\r\n");
+
+    expect(file.mimeType).toBe("text/csv");
+    expect(header).toBe(
+      "id,created_at,user_id,conversation_id,message_id,site_key,pipeline,language,intent,agents_called,cost_tokens,question,plan,response"
+    );
+    expect(row).toContain(',"[""orchestrator"",""guichet"",""legal""]",1200,');
+    expect(row).toContain('"Quel est le délai pour un ""certificat"", svp?",,');
+    expect(end).toBe("");
+    expect(file.nextCursor).toBeNull();
+  });
+
+  it("neutralises cells that spreadsheets would run as formulas", async () => {
+    vi.mocked(searchAuditLogs).mockResolvedValue({
+      entries: [auditRow({ question: '=HYPERLINK("https://evil.example","Click")', intent: "@SUM(A1)" })],
+      total: 1,
+    });
+
+    const file = await auditRouter.createCaller(createTestContext({ role: "admin" })).export({});
+    const row = file.content.split("\r\n")[1];
+
+    expect(row).toContain(",'@SUM(A1),");
+    expect(row).toContain(`"'=HYPERLINK(""https://evil.example"",""Click"")"`);
+  });
+
+  it("neutralises cells starting with a tab or a carriage return", async () => {
+    vi.mocked(searchAuditLogs).mockResolvedValue({
+      entries: [auditRow({ question: "\t=1+1", intent: "\r=1+1" })],
+      total: 1,
+    });
+
+    const file = await auditRouter.createCaller(createTestContext({ role: "admin" })).export({});
+
+    expect(file.content).toContain(",'\t=1+1,");
+    expect(file.content).toContain(`,"'\r=1+1",`);
+  });
+
+  it("exports pages that continue after the last entry of the previous one", async () => {
+    const page = Array.from({ length: 500 }, (_, i) => auditRow({ id: 1000 - i }));
+    vi.mocked(searchAuditLogs).mockResolvedValueOnce({ entries: page, total: 501 });
+    vi.mocked(searchAuditLogs).mockResolvedValueOnce({ entries: [auditRow({ id: 3 })], total: 501 });
+    const caller = auditRouter.createCaller(createTestContext({ role: "admin" }));
+
+    const first = await caller.export({ format: "jsonl" });
+    const second = await caller.export({ format: "jsonl", cursor: first.nextCursor! });
+
+    expect(first.nextCursor).toEqual({ createdAt: new Date("2026-03-14T10:00:00Z"), id: 501 });
+    expect(searchAuditLogs).toHaveBeenLastCalledWith({}, { limit: 500, offset: 0, after: first.nextCursor });
+    expect(first.content.trimEnd().split("\n")).toHaveLength(500);
+    expect(JSON.parse(second.content)).toMatchObject({ id: "3", plan: PLAN });
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("writes the CSV header on the first page only", async () => {
+    vi.mocked(searchAuditLogs).mockResolvedValue({ entries: [auditRow()], total: 1 });
+
+    const file = await auditRouter
+      .createCaller(createTestContext({ role: "admin" }))
+      .export({ cursor: { createdAt: new Date("2026-03-15T00:00:00Z"), id: 9 } });
+
+    expect(file.content.startsWith("5,2026-03-14T10:00:00.000Z,")).toBe(true);
+  });
+});
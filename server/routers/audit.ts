@@ -0,0 +1,132 @@
+/**
+ * Audit router for Workforce Luxembourg
+ * Search and export the audit trail of answered questions, for administrators
+ */
+
+import { z } from "zod";
+import { adminProcedure, router } from "../_core/trpc";
+import { searchAuditLogs } from "../db";
+import type { AuditLogRow } from "../../drizzle/schema";
+import type { AuditLog, Language } from "@shared/types-independent";
+
+/** Entries in one page of an export */
+const EXPORT_PAGE_SIZE = 500;
+
+const AuditFilterSchema = z.object({
+  from: z.date().optional(),
+  /** Exclusive */
+  to: z.date().optional(),
+  userId: z.number().optional(),
+  intent: z.string().optional(),
+  language: z.enum(["en", "fr", "de"]).optional(),
+});
+
+export const auditRouter = router({
+  /**
+   * Audit entries matching the filter, newest first
+   */
+  search: adminProcedure
+    .input(
+      AuditFilterSchema.extend({
+        limit: z.number().int().min(1).max(200).default(50),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ input }) => {
+      const { limit, offset, ...filter } = input;
+      const { entries, total } = await searchAuditLogs(filter, { limit, offset });
+      return { entries: entries.map(toAuditLog), total };
+    }),
+
+  /**
+   * Audit entries matching the filter as a CSV or JSON Lines file, one page
+   * at a time: pass the returned cursor to get the next page, whose content
+   * is appended to the file, until it is null
+   */
+  export: adminProcedure
+    .input(
+      AuditFilterSchema.extend({
+        format: z.enum(["csv", "jsonl"]).default("csv"),
+        cursor: z.object({ createdAt: z.date(), id: z.number() }).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const { format, cursor, ...filter } = input;
+      const { entries, total } = await searchAuditLogs(filter, {
+        limit: EXPORT_PAGE_SIZE,
+        offset: 0,
+        after: cursor,
+      });
+      const logs = entries.map(toAuditLog);
+      const last = entries.at(-1);
+
+      return {
+        filename: `audit-${new Date().toISOString().slice(0, 10)}.${format}`,
+        mimeType: format === "csv" ? "text/csv" : "application/x-ndjson",
+        content: format === "csv" ? toCsv(logs, { header: !cursor }) : toJsonLines(logs),
+        /** Entries matching the filter, in all pages */
+        total,
+        nextCursor: last && entries.length === EXPORT_PAGE_SIZE ? { createdAt: last.createdAt, id: last.id } : null,
+      };
+    }),
+});
+
+/**
+ * Helper functions
+ */
+
+function toAuditLog(row: AuditLogRow): AuditLog {
+  return {
+    id: String(row.id),
+    user_id: row.userId === null ? null : String(row.userId),
+    conversation_id: row.conversationId === null ? null : String(row.conversationId),
+    message_id: row.messageId === null ? null : String(row.messageId),
+    site_key: row.externalSiteKey,
+    pipeline: row.pipeline,
+    question: row.question,
+    language: row.language as Language,
+    intent: row.intent,
+    plan: row.plan ? JSON.parse(row.plan) : null,
+    response: JSON.parse(row.response),
+    agents_called: JSON.parse(row.agentsCalled),
+    cost_tokens: row.costTokens,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+const CSV_COLUMNS: Array<keyof AuditLog> = [
+  "id",
+  "created_at",
+  "user_id",
+  "conversation_id",
+  "message_id",
+  "site_key",
+  "pipeline",
+  "language",
+  "intent",
+  "agents_called",
+  "cost_tokens",
+  "question",
+  "plan",
+  "response",
+];
+
+/**
+ * One row per entry; plan, response and agents are written as JSON
+ * Every row ends with a line break, so that pages can be appended.
+ */
+function toCsv(logs: AuditLog[], options: { header: boolean }): string {
+  const cell = (value: unknown) => {
+    let text = value == null ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+    // Spreadsheets run cells starting with these as formulas
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = logs.map((log) => CSV_COLUMNS.map((column) => cell(log[column])).join(","));
+  return [...(options.header ? [CSV_COLUMNS.join(",")] : []), ...rows].map((row) => `${row}\r\n`).join("");
+}
+
+function toJsonLines(logs: AuditLog[]): string {
+  return logs.map((log) => `${JSON.stringify(log)}\n`).join("");
+}
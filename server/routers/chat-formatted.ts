@@ -5,23 +5,42 @@
 
 import { z } from "zod";
 import { protectedProcedure, router } from "../_core/trpc";
-import { TRPCError } from "@trpc/server";
+import { conversationProcedure } from "./conversation-access";
+import { TRPCError, tracked } from "@trpc/server";
 import {
   addMessage,
   addMessageSources,
   createConversation,
   deleteConversation,
+  getConversationRole,
+  getConversationShares,
   getConversationWithMessages,
   getConversations,
+  getIntegrationBySiteKey,
+  getSharedConversations,
+  getUserByEmail,
   getUserPreferences,
+  insertAuditLog,
+  removeConversationShare,
+  shareConversation,
+  updateConversationPipeline,
   updateConversationTitle,
   upsertUserPreferences,
 } from "../db";
-import { generateChatResponse, routeQuery } from "../llm";
-import { searchKnowledgeBase } from "../knowledge-base";
+import { extractSources, generateChatResponse, routeQuery, streamChatResponse } from "../llm";
+import type { LLMChatRequest, LLMChatResponse } from "../llm";
+import { extractExcerpts, rankKnowledgeBase } from "../knowledge-base";
+import { linkEvidenceId } from "../retrieval/evidence-id";
+import { answerWithAgents } from "../procedures/chat-agents";
+import { followChatTurn, getChatTurn, startChatTurn } from "../procedures/chat-turns";
+import { scoreConfidence } from "../agents/confidence";
+import { trackUsage, type UsageTracker } from "../llm/usage";
+import { enforceUsageLimits, UsageLimitError } from "../llm/budget";
 import { formatChatResponse } from "@shared/response-format";
-import type { Language, ExpertiseMode } from "@shared/types";
+import { MODE_DISCLAIMERS } from "@shared/types";
+import type { ChatPipeline, IntegrationConfig, Language, ExpertiseMode, UsageNotice } from "@shared/types";
 import type { ChatResponse } from "@shared/response-format";
+import type { ChatResponse as AgentChatResponse, OrchestratorPlan } from "@shared/types-independent";
 
 // Extend response source type to include section and excerpt
 type ResponseSource = {
@@ -32,16 +51,30 @@ type ResponseSource = {
   excerpt?: string;
 };
 
-function getDisclaimer(mode: ExpertiseMode): string {
-  const disclaimers = {
-    procedural:
-      "This information is based on official Guichet.lu sources and current Luxembourg employment regulations. Always verify with official sources for critical decisions.",
-    legal: "This is not legal advice. For legal matters, please consult with a qualified employment law attorney. Information is based on current Luxembourg law.",
-    ai_innovation:
-      "This response includes AI-generated suggestions and may not be based on official sources. Use for inspiration only and verify all information independently.",
-  };
-  return disclaimers[mode];
-}
+const SharePermissionSchema = z.enum(["view", "edit", "admin"]);
+
+const SendMessageInputSchema = z.object({
+  conversationId: z.number(),
+  content: z.string().min(1).max(5000),
+  mode: z.enum(["procedural", "legal", "ai_innovation"]).optional(),
+});
+
+type SendMessageInput = z.infer<typeof SendMessageInputSchema>;
+
+/** Attempts at writing a turn's audit entry before the turn fails */
+const AUDIT_WRITE_ATTEMPTS = 3;
+const AUDIT_RETRY_DELAY_MS = 100;
+
+type ConversationWithMessages = NonNullable<Awaited<ReturnType<typeof getConversationWithMessages>>>;
+
+/** An answer with the warnings of the usage limits that are nearly reached */
+export type TurnResponse = (ChatResponse | AgentChatResponse) & { usage_notices: UsageNotice[] };
+
+/** Events of a turn started with chat.startStream, in the order they are emitted */
+export type ChatStreamEvent =
+  | { type: "token"; token: string }
+  | { type: "response"; response: TurnResponse }
+  | { type: "done"; messageId: number };
 
 export const chatFormattedRouter = router({
   /**
@@ -52,13 +85,37 @@ export const chatFormattedRouter = router({
       z.object({
         title: z.string().optional(),
         language: z.enum(["en", "fr", "de"]).default("en"),
+        /** Overrides the integration's default pipeline */
+        pipeline: z.enum(["single", "agents"]).optional(),
+        /** Embedded widget the conversation belongs to; only its owner may use it */
+        siteKey: z.string().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
+      let pipeline: ChatPipeline = input.pipeline ?? "single";
+      if (input.siteKey) {
+        const integration = await getIntegrationBySiteKey(input.siteKey);
+        if (!integration) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Integration not found",
+          });
+        }
+        if (integration.ownerUserId !== ctx.user.id) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "You do not have access to this integration",
+          });
+        }
+        pipeline = input.pipeline ?? parseIntegrationConfig(integration).defaultPipeline ?? "single";
+      }
+
       const conversation = await createConversation({
         userId: ctx.user.id,
+        externalSiteKey: input.siteKey,
         title: input.title || "New Conversation",
         language: input.language,
+        pipeline,
       });
 
       await upsertUserPreferences(ctx.user.id, {
@@ -76,129 +133,106 @@ export const chatFormattedRouter = router({
   }),
 
   /**
-   * Get a specific conversation with all messages
+   * Get a specific conversation with all messages, and the user's role on it
    */
-  getConversation: protectedProcedure
-    .input(z.object({ conversationId: z.number() }))
-    .query(async ({ ctx, input }) => {
-      const result = await getConversationWithMessages(input.conversationId);
+  getConversation: conversationProcedure("view").query(async ({ ctx, input }) => {
+    const result = await getConversationWithMessages(input.conversationId);
 
-      if (!result) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Conversation not found",
-        });
-      }
+    if (!result) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Conversation not found",
+      });
+    }
+
+    return { ...result, role: ctx.conversationRole };
+  }),
 
-      return result;
+  /**
+   * Choose the pipeline that answers a conversation from now on
+   */
+  setPipeline: conversationProcedure("admin")
+    .input(z.object({ pipeline: z.enum(["single", "agents"]) }))
+    .mutation(async ({ input }) => {
+      return await updateConversationPipeline(input.conversationId, input.pipeline);
     }),
 
   /**
    * Send a message and get AI response in the exact specification format
+   * Conversations on the "agents" pipeline are answered by the orchestrator and
+   * specialist agents instead of a single LLM call.
    */
-  sendMessage: protectedProcedure
-    .input(
-      z.object({
-        conversationId: z.number(),
-        content: z.string().min(1).max(5000),
-        mode: z.enum(["procedural", "legal", "ai_innovation"]).optional(),
-      })
-    )
-    .mutation(async ({ ctx, input }): Promise<ChatResponse> => {
-      const conversation = await getConversationWithMessages(input.conversationId);
-      if (!conversation) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Conversation not found",
-        });
-      }
-
-      // Save user message
-      const userMessage = await addMessage({
-        conversationId: input.conversationId,
-        sender: "user",
-        content: input.content,
-      });
+  sendMessage: conversationProcedure("edit")
+    .input(SendMessageInputSchema)
+    .mutation(async ({ ctx, input }): Promise<TurnResponse> => {
+      const { conversation, notices } = await startTurn(ctx.user.id, input);
+      const usage = trackTurnUsage(ctx.user.id, conversation);
+      let messageId: number | null = null;
 
       try {
-        // Determine mode if not provided
-        let mode: ExpertiseMode = input.mode || "procedural";
-        if (!input.mode) {
-          const routing = await routeQuery(
-            input.content,
-            (conversation.conversation.language as Language) || "en"
-          );
-          mode = routing.mode;
-        }
-
-        const language = (conversation.conversation.language as Language) || "en";
-
-        // Search knowledge base for relevant sources
-        const relevantSources = searchKnowledgeBase(input.content, 5);
-
-        // Build conversation history for context
-        const history = conversation.messages
-          .filter((m) => m.sender !== "system")
-          .slice(-6)
-          .map((m) => ({
-            role: m.sender as "user" | "assistant",
-            content: m.content,
-          }));
-
-        // Generate AI response
-        const response = await generateChatResponse({
-          userMessage: input.content,
-          conversationHistory: history,
-          language,
-          mode,
-        });
-
-        // Save assistant message
-        const assistantMessage = await addMessage({
-          conversationId: input.conversationId,
-          sender: "assistant",
-          content: response.content,
-          mode,
-        });
-
-        // Save sources
-        if (response.sources.length > 0) {
-          await addMessageSources(
-            assistantMessage.id,
-            response.sources.map((s, idx) => ({
-              messageId: assistantMessage.id,
-              sourceTitle: s.title,
-              sourceUrl: s.url,
-              sourceType: s.type,
-            }))
-          );
+        if (conversation.conversation.pipeline === "agents") {
+          const answer = await usage.run(() => answerWithAgents(agentRequest(conversation, input)));
+          messageId = answer.messageId;
+          await auditTurn(ctx.user.id, conversation, input.content, answer, usage);
+          return { ...answer.response, usage_notices: notices };
         }
 
-        // Format response according to specification
-        const formattedResponse = formatChatResponse(
-          language,
-          response.content,
-          response.sources.map((s) => ({
-            title: s.title,
-            url: s.url,
-            section: "General",
-            content: "",
-          })),
-          {
-            steps: extractSteps(response.content),
-            confidence: determineConfidence(mode, response.sources.length),
-            limitations: [getDisclaimer(mode)],
-            suggested_searches: generateSuggestedSearches(input.content, language),
-          }
-        );
-
-        return formattedResponse;
+        const prepared = await usage.run(() => prepareAnswer(conversation, input));
+        const response = await usage.run(() => generateChatResponse(prepared.request));
+        const saved = await saveAnswer(input, prepared, response);
+        messageId = saved.messageId;
+        const audited = { response: saved.formatted, messageId, mode: prepared.mode };
+        await auditTurn(ctx.user.id, conversation, input.content, audited, usage);
+        return { ...saved.formatted, usage_notices: notices };
       } catch (error) {
         console.error("Error generating response:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
           message: "Failed to generate response",
         });
+      } finally {
+        await usage.flush(messageId);
+      }
+    }),
+
+  /**
+   * Start answering a message, streamed: saves the question and returns the
+   * id of the turn to follow with chat.streamMessage
+   * Usage limits are checked here, so a reached limit fails the mutation.
+   */
+  startStream: conversationProcedure("edit")
+    .input(SendMessageInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { conversation, notices } = await startTurn(ctx.user.id, input);
+      const turnId = startChatTurn({ userId: ctx.user.id, conversationId: input.conversationId }, () =>
+        streamAnswer(ctx.user.id, conversation, notices, input)
+      );
+      return { turnId };
+    }),
+
+  /**
+   * Follow a turn over SSE: answer tokens as they are generated, then the
+   * structured response, then the saved message id
+   * Events are tracked, so a reconnecting client resumes after the last
+   * event it received instead of replaying the turn.
+   */
+  streamMessage: conversationProcedure("edit")
+    .input(z.object({ turnId: z.string(), lastEventId: z.string().nullish() }))
+    .subscription(async function* ({ ctx, input, signal }) {
+      const turn = getChatTurn<ChatStreamEvent>(input.turnId, {
+        userId: ctx.user.id,
+        conversationId: input.conversationId,
+      });
+      if (!turn) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Turn not found",
+        });
+      }
+
+      const from = input.lastEventId ? Number(input.lastEventId) + 1 : 0;
+      for await (const { index, event } of followChatTurn(turn, from, signal)) {
+        yield tracked(String(index), event);
       }
     }),
 
@@ -231,30 +265,413 @@ export const chatFormattedRouter = router({
   /**
    * Rename a conversation
    */
-  renameConversation: protectedProcedure
+  renameConversation: conversationProcedure("edit")
+    .input(z.object({ title: z.string().min(1).max(255) }))
+    .mutation(async ({ input }) => {
+      return await updateConversationTitle(input.conversationId, input.title);
+    }),
+
+  /**
+   * Delete a conversation
+   */
+  deleteConversation: conversationProcedure("owner").mutation(async ({ input }) => {
+    return await deleteConversation(input.conversationId);
+  }),
+
+  /**
+   * Get conversations shared with the current user, with their owner and permission
+   */
+  getSharedWithMe: protectedProcedure.query(async ({ ctx }) => {
+    return await getSharedConversations(ctx.user.id);
+  }),
+
+  /**
+   * List the users a conversation is shared with
+   */
+  listShares: conversationProcedure("admin").query(async ({ input }) => {
+    return await getConversationShares(input.conversationId);
+  }),
+
+  /**
+   * Share a conversation with the user who has this email address
+   * Sharing again with the same user changes their permission.
+   */
+  shareConversation: conversationProcedure("admin")
     .input(
       z.object({
-        conversationId: z.number(),
-        title: z.string().min(1).max(255),
+        email: z.string().email(),
+        permission: SharePermissionSchema.default("view"),
       })
     )
-    .mutation(async ({ input }) => {
-      return await updateConversationTitle(input.conversationId, input.title);
+    .mutation(async ({ ctx, input }) => {
+      const user = await getUserByEmail(input.email);
+
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "No user has this email address",
+        });
+      }
+
+      await assertShareable(input.conversationId, user.id, ctx.user.id);
+      return await shareConversation(input.conversationId, user.id, input.permission);
     }),
 
   /**
-   * Delete a conversation
+   * Change the permission of a user the conversation is shared with
    */
-  deleteConversation: protectedProcedure
-    .input(z.object({ conversationId: z.number() }))
+  updateShare: conversationProcedure("admin")
+    .input(
+      z.object({
+        userId: z.number(),
+        permission: SharePermissionSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const shares = await getConversationShares(input.conversationId);
+
+      if (!shares.some((s) => s.userId === input.userId)) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "The conversation is not shared with this user",
+        });
+      }
+
+      await assertShareable(input.conversationId, input.userId, ctx.user.id);
+      return await shareConversation(input.conversationId, input.userId, input.permission);
+    }),
+
+  /**
+   * Stop sharing a conversation with a user
+   */
+  removeShare: conversationProcedure("admin")
+    .input(z.object({ userId: z.number() }))
     .mutation(async ({ input }) => {
-      return await deleteConversation(input.conversationId);
+      await removeConversationShare(input.conversationId, input.userId);
+      return { success: true } as const;
     }),
 });
 
 /**
- * Helper functions for response formatting
+ * Helper functions for answering and response formatting
+ */
+
+/**
+ * Refuse shares with the owner, who always has full access, and with oneself
+ */
+async function assertShareable(conversationId: number, userId: number, currentUserId: number): Promise<void> {
+  if (userId === currentUserId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "You cannot change your own access to a conversation",
+    });
+  }
+
+  if ((await getConversationRole(conversationId, userId)) === "owner") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "The conversation owner always has full access",
+    });
+  }
+}
+
+/**
+ * The settings of an integration; defaults when its stored config is not valid JSON
+ */
+function parseIntegrationConfig(integration: { siteKey: string; config: string | null }): IntegrationConfig {
+  if (!integration.config) return {};
+  try {
+    return JSON.parse(integration.config) as IntegrationConfig;
+  } catch (error) {
+    console.warn(`[Integrations] Invalid config for ${integration.siteKey}, using defaults:`, error);
+    return {};
+  }
+}
+
+/**
+ * Load the conversation, check the usage limits and save the user's message
+ * A reached limit is reported as TOO_MANY_REQUESTS with its localised notices.
+ */
+async function startTurn(
+  userId: number,
+  input: SendMessageInput
+): Promise<{ conversation: ConversationWithMessages; notices: UsageNotice[] }> {
+  const conversation = await getConversationWithMessages(input.conversationId);
+  if (!conversation) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Conversation not found",
+    });
+  }
+
+  let notices: UsageNotice[];
+  try {
+    notices = await enforceUsageLimits({
+      userId,
+      siteKey: conversation.conversation.externalSiteKey,
+      language: (conversation.conversation.language as Language) || "en",
+    });
+  } catch (error) {
+    if (!(error instanceof UsageLimitError)) throw error;
+    throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: error.message, cause: error });
+  }
+
+  await addMessage({
+    conversationId: input.conversationId,
+    sender: "user",
+    senderUserId: userId,
+    content: input.content,
+  });
+
+  return { conversation, notices };
+}
+
+/**
+ * Answer a turn, streamed: tokens as they are generated, then the structured
+ * response, then the saved message id
+ */
+async function* streamAnswer(
+  userId: number,
+  conversation: ConversationWithMessages,
+  notices: UsageNotice[],
+  input: SendMessageInput
+): AsyncGenerator<ChatStreamEvent> {
+  const usage = trackTurnUsage(userId, conversation);
+  let messageId: number | null = null;
+
+  try {
+    if (conversation.conversation.pipeline === "agents") {
+      // The agent pipeline only has an answer once synthesis is done
+      const answer = await usage.run(() => answerWithAgents(agentRequest(conversation, input)));
+      messageId = answer.messageId;
+      await auditTurn(userId, conversation, input.content, answer, usage);
+      yield { type: "token", token: answer.response.answer };
+      yield { type: "response", response: { ...answer.response, usage_notices: notices } };
+      yield { type: "done", messageId };
+      return;
+    }
+
+    const prepared = await usage.run(() => prepareAnswer(conversation, input));
+    let content = "";
+    for await (const token of usage.iterate(streamChatResponse(prepared.request))) {
+      content += token;
+      yield { type: "token", token };
+    }
+
+    const saved = await saveAnswer(input, prepared, {
+      content,
+      mode: prepared.mode,
+      sources: extractSources(content),
+    });
+    messageId = saved.messageId;
+    const audited = { response: saved.formatted, messageId, mode: prepared.mode };
+    await auditTurn(userId, conversation, input.content, audited, usage);
+    yield { type: "response", response: { ...saved.formatted, usage_notices: notices } };
+    yield { type: "done", messageId };
+  } catch (error) {
+    console.error("Error streaming response:", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to generate response",
+    });
+  } finally {
+    await usage.flush(messageId);
+  }
+}
+
+/**
+ * Attribute the turn's LLM calls to the user, conversation and integration
+ */
+function trackTurnUsage(userId: number, conversation: ConversationWithMessages) {
+  return trackUsage({
+    userId,
+    conversationId: conversation.conversation.id,
+    siteKey: conversation.conversation.externalSiteKey,
+  });
+}
+
+/**
+ * Write the audit entry of an answered question
+ * Agent answers are audited with the orchestrator plan, single LLM answers
+ * with their expertise mode; tokens are those of the turn's calls so far.
+ * A failed write is retried, and fails the turn once out of attempts.
+ */
+async function auditTurn(
+  userId: number,
+  conversation: ConversationWithMessages,
+  question: string,
+  answer: {
+    response: ChatResponse | AgentChatResponse;
+    messageId: number;
+    plan?: OrchestratorPlan | null;
+    mode?: ExpertiseMode;
+  },
+  usage: UsageTracker
+): Promise<void> {
+  const plan = answer.plan ?? null;
+  const entry = {
+    userId,
+    conversationId: conversation.conversation.id,
+    messageId: answer.messageId,
+    externalSiteKey: conversation.conversation.externalSiteKey,
+    pipeline: conversation.conversation.pipeline,
+    question,
+    language: answer.response.language,
+    intent: plan?.intent ?? answer.mode ?? "unknown",
+    plan: plan ? JSON.stringify(plan) : null,
+    response: JSON.stringify(answer.response),
+    agentsCalled: JSON.stringify(
+      plan ? ["orchestrator", ...plan.agents_to_call.filter((a) => a !== "orchestrator")] : []
+    ),
+    costTokens: usage.pending().reduce((total, c) => total + c.promptTokens + c.completionTokens, 0),
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await insertAuditLog(entry);
+    } catch (error) {
+      if (attempt === AUDIT_WRITE_ATTEMPTS) throw error;
+      console.warn(`[Audit] Failed to write audit entry (attempt ${attempt}), retrying:`, error);
+      await new Promise((resolve) => setTimeout(resolve, AUDIT_RETRY_DELAY_MS * attempt));
+    }
+  }
+}
+
+function agentRequest(conversation: ConversationWithMessages, input: SendMessageInput) {
+  return {
+    conversationId: input.conversationId,
+    question: input.content,
+    language: (conversation.conversation.language as Language) || "en",
+    mode: input.mode,
+    history: conversation.messages,
+  };
+}
+
+/**
+ * Route the question, retrieve sources and build the LLM request
  */
+async function prepareAnswer(conversation: ConversationWithMessages, input: SendMessageInput) {
+  const language = (conversation.conversation.language as Language) || "en";
+
+  // Determine mode if not provided
+  let mode: ExpertiseMode = input.mode || "procedural";
+  if (!input.mode) {
+    const routing = await routeQuery(input.content, language);
+    mode = routing.mode;
+  }
+
+  // Search knowledge base for relevant sources, keeping their relevance for the confidence score
+  const ranked = await rankKnowledgeBase(input.content, 5, { mode: "hybrid" });
+  const relevantSources = ranked.map((hit) => hit.content);
+  const relevanceByUrl = new Map(ranked.map((hit) => [hit.content.url, hit.score]));
+
+  // Build conversation history for context
+  const history = conversation.messages
+    .filter((m) => m.sender !== "system")
+    .slice(-6)
+    .map((m) => ({
+      role: m.sender as "user" | "assistant",
+      content: m.content,
+    }));
+
+  const request: LLMChatRequest = {
+    userMessage: input.content,
+    conversationHistory: history,
+    language,
+    mode,
+    sources: relevantSources
+      .map((c) => `- ${c.title} (${c.url}): ${extractExcerpts(c, input.content, 2).join(" ")}`)
+      .join("\n"),
+  };
+
+  return { language, mode, relevantSources, relevanceByUrl, request };
+}
+
+/**
+ * Format the response and save it with the assistant message and its sources
+ */
+async function saveAnswer(
+  input: SendMessageInput,
+  prepared: Awaited<ReturnType<typeof prepareAnswer>>,
+  response: LLMChatResponse
+): Promise<{ formatted: ChatResponse; messageId: number }> {
+  const { language, mode, relevantSources, relevanceByUrl } = prepared;
+
+  // Knowledge base passages first, then any other links the model cited
+  const passageUrls = new Set(relevantSources.map((c) => c.url));
+  const evidenceSources = [
+    ...relevantSources.map((c) => ({
+      id: c.id,
+      title: c.title,
+      url: c.url,
+      section: c.section,
+      content: extractExcerpts(c, input.content, 2).join(" "),
+    })),
+    ...response.sources
+      .filter((s) => !passageUrls.has(s.url))
+      .map((s) => ({
+        id: linkEvidenceId(s.url),
+        title: s.title,
+        url: s.url,
+        section: "General",
+        content: "",
+      })),
+  ];
+
+  // Rate confidence from the knowledge base passages the answer cites
+  const assessment = scoreConfidence({
+    relevances: response.sources.flatMap((s) => {
+      const relevance = relevanceByUrl.get(s.url);
+      return relevance === undefined ? [] : [relevance];
+    }),
+    caps:
+      mode === "ai_innovation"
+        ? [{ level: "low", reason: "AI & Innovation answers include suggestions not based on official sources." }]
+        : [],
+  });
+
+  // Format response according to specification
+  const formatted = formatChatResponse(language, response.content, evidenceSources, {
+    steps: extractSteps(response.content),
+    confidence: assessment.level,
+    confidence_reasons: assessment.reasons,
+    limitations: [MODE_DISCLAIMERS[mode]],
+    suggested_searches: generateSuggestedSearches(input.content, language),
+  });
+
+  // Save assistant message with the structured answer, so history renders the same
+  const assistantMessage = await addMessage({
+    conversationId: input.conversationId,
+    sender: "assistant",
+    content: response.content,
+    mode,
+    response: JSON.stringify(formatted),
+  });
+
+  // Save sources, one per passage of each cited page, or the link itself
+  // when it is not a knowledge base page
+  if (response.sources.length > 0) {
+    const evidenceById = new Map(formatted.evidence.map((e) => [e.evidence_id, e]));
+    await addMessageSources(
+      assistantMessage.id,
+      response.sources.flatMap((s) => {
+        const passageIds = relevantSources.filter((c) => c.url === s.url).map((c) => c.id);
+        return (passageIds.length > 0 ? passageIds : [linkEvidenceId(s.url)]).map((evidenceId) => ({
+          messageId: assistantMessage.id,
+          sourceTitle: s.title,
+          sourceUrl: s.url,
+          sourceType: s.type,
+          evidenceId,
+          section: evidenceById.get(evidenceId)?.section.slice(0, 255) ?? null,
+          snippet: evidenceById.get(evidenceId)?.text || null,
+        }));
+      })
+    );
+  }
+
+  return { formatted, messageId: assistantMessage.id };
+}
+
 
 function extractSteps(content: string): string[] {
   // Extract numbered or bulleted steps from the response
@@ -272,12 +689,6 @@ function extractSteps(content: string): string[] {
   return steps.length > 0 ? steps : [];
 }
 
-function determineConfidence(mode: ExpertiseMode, sourceCount: number): "high" | "medium" | "low" {
-  if (mode === "legal") return sourceCount > 0 ? "medium" : "low";
-  if (mode === "ai_innovation") return "low";
-  return sourceCount > 2 ? "high" : sourceCount > 0 ? "medium" : "low";
-}
-
 function generateSuggestedSearches(query: string, language: Language): string[] {
   // Generate related search suggestions based on the query
   const suggestions: Record<Language, Record<string, string[]>> = {
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { chatFormattedRouter, type ChatStreamEvent } from "./chat-formatted";
+import { addMessage, countQuestions, getConversationRole, getConversationWithMessages, getUsageLimits } from "../db";
+import { createTestContext } from "../test-context";
+
+vi.mock("../db", () => ({
+  getConversationRole: vi.fn(async () => "owner"),
+  getConversationWithMessages: vi.fn(),
+  getUsageLimits: vi.fn(async () => undefined),
+  getSpendTotals: vi.fn(),
+  countQuestions: vi.fn(async () => 0),
+  insertLLMUsage: vi.fn(async () => {}),
+  insertAuditLog: vi.fn(async () => {}),
+  addMessage: vi.fn(async (data) => ({ id: data.sender === "user" ? 10 : 11, ...data, createdAt: new Date() })),
+  addMessageSources: vi.fn(async () => {}),
+}));
+
+vi.mock("../llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../llm")>()),
+  routeQuery: vi.fn(async () => ({ mode: "procedural", confidence: 1, reasoning: "" })),
+  streamChatResponse: vi.fn(async function* () {
+    yield "1. Tell your employer.\n";
+    yield "2. Send a certificate from https://guichet.lu/en/sick-leave\n";
+  }),
+}));
+
+vi.mock("../knowledge-base", () => ({
+  rankKnowledgeBase: vi.fn(async () => []),
+  extractExcerpts: vi.fn(() => []),
+}));
+
+vi.mock("../procedures/chat-independent", () => ({
+  processQuestion: vi.fn(async () => ({
+    language: "en",
+    answer: "Agent answer",
+    steps: [],
+    citations: [],
+    confidence: "low",
+    limitations: [],
+    suggested_searches: [],
+    evidence: [],
+  })),
+}));
+
+/** Events of a turn, from the one after lastEventId if given */
+async function follow(userId: number, turnId: string, lastEventId?: string) {
+  const caller = chatFormattedRouter.createCaller(createTestContext({ id: userId }));
+  const events: Array<{ id: string; event: ChatStreamEvent }> = [];
+  for await (const [id, event] of await caller.streamMessage({ conversationId: 7, turnId, lastEventId })) {
+    events.push({ id, event });
+  }
+  return events;
+}
+
+async function start(pipeline: "single" | "agents", userId = 1): Promise<string> {
+  vi.mocked(getConversationWithMessages).mockResolvedValue({
+    conversation: { id: 7, userId: 1, language: "en", pipeline },
+    messages: [],
+  } as any);
+  const caller = chatFormattedRouter.createCaller(createTestContext({ id: userId }));
+  const { turnId } = await caller.startStream({ conversationId: 7, content: "Sick leave?" });
+  return turnId;
+}
+
+async function collect(pipeline: "single" | "agents", userId = 1): Promise<ChatStreamEvent[]> {
+  const events = await follow(userId, await start(pipeline, userId));
+  return events.map((e) => e.event);
+}
+
+describe("chat.streamMessage", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("emits tokens, then the structured response, then the saved message id", async () => {
+    const events = await collect("single");
+
+    expect(events.map((e) => e.type)).toEqual(["token", "token", "response", "done"]);
+    const response = events[2]?.type === "response" ? events[2].response : null;
+    expect(response).toMatchObject({
+      steps: ["Tell your employer.", "Send a certificate from https://guichet.lu/en/sick-leave"],
+      citations: [expect.objectContaining({ url: "https://guichet.lu/en/sick-leave" })],
+    });
+    expect(events[3]).toEqual({ type: "done", messageId: 11 });
+    expect(addMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        sender: "assistant",
+        content: "1. Tell your employer.\n2. Send a certificate from https://guichet.lu/en/sick-leave\n",
+      })
+    );
+    // The saved structured answer is the one streamed, without the usage notices
+    const { usage_notices, ...saved } = response!;
+    expect(JSON.parse(vi.mocked(addMessage).mock.lastCall![0].response!)).toEqual(
+      JSON.parse(JSON.stringify(saved))
+    );
+  });
+
+  it("emits the agent pipeline's answer in one piece", async () => {
+    const events = await collect("agents");
+
+    expect(events).toEqual([
+      { type: "token", token: "Agent answer" },
+      { type: "response", response: expect.objectContaining({ answer: "Agent answer" }) },
+      { type: "done", messageId: 11 },
+    ]);
+  });
+
+  it("counts a shared editor's question against the editor, not the owner", async () => {
+    vi.mocked(getConversationRole).mockResolvedValueOnce("edit");
+    vi.mocked(getUsageLimits).mockResolvedValueOnce({ userId: 3, dailyMessageQuota: 20 } as any);
+
+    await collect("single", 3);
+
+    expect(countQuestions).toHaveBeenCalledWith({ userId: 3, since: expect.any(Date) });
+    expect(addMessage).toHaveBeenCalledWith(expect.objectContaining({ sender: "user", senderUserId: 3 }));
+  });
+
+  it("resumes after the last event received without answering again", async () => {
+    const turnId = await start("single");
+    const events = await follow(1, turnId);
+
+    const resumed = await follow(1, turnId, events[0]!.id);
+
+    expect(resumed).toEqual(events.slice(1));
+    expect(vi.mocked(addMessage).mock.calls.filter(([m]) => m.sender === "user")).toHaveLength(1);
+    expect(vi.mocked(addMessage).mock.calls.filter(([m]) => m.sender === "assistant")).toHaveLength(1);
+  });
+
+  it("only lets the user who started a turn follow it", async () => {
+    const turnId = await start("single");
+
+    await expect(follow(3, turnId)).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(follow(1, "unknown-turn")).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
@@ -22,6 +22,7 @@ import {
   upsertUserPreferences,
 } from "../db";
 import { generateChatResponse, routeQuery } from "../llm";
+import { MODE_DISCLAIMERS } from "@shared/types";
 import type { Language, ExpertiseMode } from "@shared/types";
 
 export const chatRouter = router({
@@ -104,6 +105,7 @@ export const chatRouter = router({
       const userMessage = await addMessage({
         conversationId: input.conversationId,
         sender: "user",
+        senderUserId: ctx.user.id,
         content: input.content,
       });
 
@@ -167,7 +169,7 @@ export const chatRouter = router({
             })),
           },
           mode,
-          disclaimer: getDisclaimer(mode),
+          disclaimer: MODE_DISCLAIMERS[mode],
         };
       } catch (error) {
         console.error("Error generating response:", error);
@@ -323,19 +325,3 @@ export const chatRouter = router({
       return { success: true };
     }),
 });
-
-/**
- * Get appropriate disclaimer based on expertise mode
- */
-function getDisclaimer(mode: ExpertiseMode): string {
-  const disclaimers = {
-    procedural:
-      "This information is based on official sources. Procedures and requirements may change. Always verify with the official sources linked below before taking action.",
-    legal:
-      "This is general information and not legal advice. Laws and regulations can change. For legal decisions, consult a qualified lawyer.",
-    ai_innovation:
-      "This information is based on public sources. For detailed eligibility and application, verify with the official sources linked below.",
-  };
-
-  return disclaimers[mode];
-}
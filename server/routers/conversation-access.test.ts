@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { chatFormattedRouter } from "./chat-formatted";
+import { hasConversationRole } from "./conversation-access";
+import {
+  addMessage,
+  deleteConversation,
+  getConversationRole,
+  updateConversationPipeline,
+  updateConversationTitle,
+  type ConversationRole,
+} from "../db";
+import { createTestContext } from "../test-context";
+
+vi.mock("../db", () => ({
+  getConversationRole: vi.fn(),
+  getConversationWithMessages: vi.fn(async () => ({
+    conversation: { id: 7, userId: 1, language: "en", pipeline: "single" },
+    messages: [],
+  })),
+  updateConversationTitle: vi.fn(async () => {}),
+  updateConversationPipeline: vi.fn(async () => {}),
+  deleteConversation: vi.fn(async () => {}),
+  addMessage: vi.fn(),
+}));
+
+/** Each conversation procedure, the role it needs and its effect */
+const PROCEDURES = [
+  {
+    name: "getConversation",
+    required: "view",
+    call: (caller: ReturnType<typeof chatFormattedRouter.createCaller>) =>
+      caller.getConversation({ conversationId: 7 }),
+    effect: null,
+  },
+  {
+    name: "renameConversation",
+    required: "edit",
+    call: (caller: ReturnType<typeof chatFormattedRouter.createCaller>) =>
+      caller.renameConversation({ conversationId: 7, title: "Renamed" }),
+    effect: updateConversationTitle,
+  },
+  {
+    name: "setPipeline",
+    required: "admin",
+    call: (caller: ReturnType<typeof chatFormattedRouter.createCaller>) =>
+      caller.setPipeline({ conversationId: 7, pipeline: "agents" }),
+    effect: updateConversationPipeline,
+  },
+  {
+    name: "deleteConversation",
+    required: "owner",
+    call: (caller: ReturnType<typeof chatFormattedRouter.createCaller>) =>
+      caller.deleteConversation({ conversationId: 7 }),
+    effect: deleteConversation,
+  },
+] as const;
+
+const ROLES: ConversationRole[] = ["view", "edit", "admin", "owner"];
+
+describe("conversation authorization", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("ranks roles from view to owner", () => {
+    expect(hasConversationRole("admin", "edit")).toBe(true);
+    expect(hasConversationRole("edit", "admin")).toBe(false);
+    expect(hasConversationRole("owner", "owner")).toBe(true);
+    expect(hasConversationRole(null, "view")).toBe(false);
+  });
+
+  for (const procedure of PROCEDURES) {
+    describe(procedure.name, () => {
+      it("hides conversations the user has no access to", async () => {
+        vi.mocked(getConversationRole).mockResolvedValue(null);
+
+        await expect(procedure.call(chatFormattedRouter.createCaller(createTestContext({ id: 2 })))).rejects.toMatchObject({
+          code: "NOT_FOUND",
+        });
+        expect(getConversationRole).toHaveBeenCalledWith(7, 2);
+        if (procedure.effect) expect(procedure.effect).not.toHaveBeenCalled();
+      });
+
+      for (const role of ROLES) {
+        const allowed = ROLES.indexOf(role) >= ROLES.indexOf(procedure.required);
+
+        it(`${allowed ? "allows" : "forbids"} ${role} access`, async () => {
+          vi.mocked(getConversationRole).mockResolvedValue(role);
+          const result = procedure.call(chatFormattedRouter.createCaller(createTestContext({ id: 2 })));
+
+          if (allowed) {
+            await result;
+            if (procedure.effect) expect(procedure.effect).toHaveBeenCalledOnce();
+          } else {
+            await expect(result).rejects.toMatchObject({ code: "FORBIDDEN" });
+            if (procedure.effect) expect(procedure.effect).not.toHaveBeenCalled();
+          }
+        });
+      }
+    });
+  }
+
+  it("returns the user's role with the conversation", async () => {
+    vi.mocked(getConversationRole).mockResolvedValue("edit");
+    const caller = chatFormattedRouter.createCaller(createTestContext({ id: 2 }));
+
+    const result = await caller.getConversation({ conversationId: 7 });
+
+    expect(result.role).toBe("edit");
+  });
+
+  it("does not let viewers send messages", async () => {
+    vi.mocked(getConversationRole).mockResolvedValue("view");
+    const caller = chatFormattedRouter.createCaller(createTestContext({ id: 2 }));
+
+    await expect(caller.sendMessage({ conversationId: 7, content: "Sick leave?" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    expect(addMessage).not.toHaveBeenCalled();
+  });
+});
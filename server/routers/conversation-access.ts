@@ -0,0 +1,52 @@
+/**
+ * Conversation authorization
+ * Procedures on a conversation require a role on it: its owner, or a user it
+ * is shared with for view, edit or admin. Each role includes those before it.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "../_core/trpc";
+import { getConversationRole, type ConversationRole } from "../db";
+
+/** Weakest first: view reads, edit asks and renames, admin manages, the owner deletes */
+export const CONVERSATION_ROLES: ConversationRole[] = ["view", "edit", "admin", "owner"];
+
+/**
+ * Whether a role on a conversation is enough for what requires another
+ */
+export function hasConversationRole(role: ConversationRole | null, required: ConversationRole): boolean {
+  return role !== null && CONVERSATION_ROLES.indexOf(role) >= CONVERSATION_ROLES.indexOf(required);
+}
+
+/**
+ * Procedure on the conversation given by `conversationId`, for users with at least `required`
+ * A conversation the user cannot see is reported as not found; one they may
+ * only see less of is forbidden. The role is passed on as ctx.conversationRole.
+ */
+export function conversationProcedure(required: ConversationRole) {
+  return protectedProcedure
+    .input(z.object({ conversationId: z.number() }))
+    .use(async ({ ctx, input, next }) => {
+      const role = await getConversationRole(input.conversationId, ctx.user.id);
+
+      if (!role) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Conversation not found",
+        });
+      }
+
+      if (!hasConversationRole(role, required)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message:
+            required === "owner"
+              ? "Only the conversation owner can do this"
+              : `This needs ${required} access to the conversation`,
+        });
+      }
+
+      return next({ ctx: { ...ctx, conversationRole: role } });
+    });
+}
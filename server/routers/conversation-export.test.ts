@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { inflateRawSync } from "zlib";
+import { conversationExportRouter } from "./conversation-export";
+import { getConversationRole } from "../db";
+import { storagePut } from "../storage";
+import { createTestContext } from "../test-context";
+
+vi.mock("../db", () => ({
+  getConversationRole: vi.fn(async () => "view"),
+  getConversationWithMessages: vi.fn(async () => ({
+    conversation: { id: 7, userId: 1, title: "Notice periods", language: "en", createdAt: new Date() },
+    messages: [
+      { id: 1, sender: "user", content: "How long is my notice?", mode: null, response: null, sources: [] },
+      { id: 2, sender: "assistant", content: "Two months.", mode: "legal", response: null, sources: [] },
+      { id: 3, sender: "user", content: "And after ten years?", mode: null, response: null, sources: [] },
+      { id: 4, sender: "assistant", content: "Four months.", mode: "legal", response: null, sources: [] },
+    ],
+  })),
+}));
+
+vi.mock("../storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://files.example.com/${key}` })),
+}));
+
+/** The stored file of the last export */
+function storedFile() {
+  const [key, data, contentType] = vi.mocked(storagePut).mock.calls.at(-1)!;
+  return { key, data: Buffer.from(data as Buffer | string), contentType };
+}
+
+/** Text of a deflated file in a zip archive */
+function zipEntry(archive: Buffer, name: string): string {
+  // Local headers come first and are 30 bytes before the name
+  const offset = archive.indexOf(name) - 30;
+  const compressedSize = archive.readUInt32LE(offset + 18);
+  const start = offset + 30 + archive.readUInt16LE(offset + 26);
+  return inflateRawSync(archive.subarray(start, start + compressedSize)).toString("utf8");
+}
+
+describe("conversationExport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getConversationRole).mockResolvedValue("view");
+  });
+
+  it("stores a Markdown export of the whole conversation", async () => {
+    const caller = conversationExportRouter.createCaller(createTestContext({ id: 2 }));
+
+    const result = await caller.create({ conversationId: 7, format: "markdown" });
+
+    const { key, data, contentType } = storedFile();
+    expect(result.fileName).toBe("notice-periods.md");
+    expect(result.url).toBe(`https://files.example.com/${key}`);
+    expect(key).toMatch(/^exports\/conversation-7\/[\w-]{16}\/notice-periods\.md$/);
+    expect(contentType).toBe("text/markdown; charset=utf-8");
+    expect(data.toString()).toContain("Two months.");
+    expect(data.toString()).toContain("Four months.");
+  });
+
+  it("exports a single answer with its question", async () => {
+    const caller = conversationExportRouter.createCaller(createTestContext({ id: 2 }));
+
+    const result = await caller.create({ conversationId: 7, format: "docx", messageId: 4 });
+
+    const { data, contentType } = storedFile();
+    const documentXml = zipEntry(data, "word/document.xml");
+    expect(result.fileName).toBe("notice-periods-answer-4.docx");
+    expect(contentType).toBe("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+    expect(documentXml).toContain("And after ten years?");
+    expect(documentXml).toContain("Four months.");
+    expect(documentXml).not.toContain("Two months.");
+  });
+
+  it("renders PDF files", async () => {
+    const caller = conversationExportRouter.createCaller(createTestContext({ id: 2 }));
+
+    await caller.create({ conversationId: 7, format: "pdf", messageId: 2 });
+
+    const { data, contentType } = storedFile();
+    expect(contentType).toBe("application/pdf");
+    expect(data.subarray(0, 8).toString()).toBe("%PDF-1.4");
+    expect(data.toString("latin1").trimEnd().endsWith("%%EOF")).toBe(true);
+  });
+
+  it("only exports answers of the conversation", async () => {
+    const caller = conversationExportRouter.createCaller(createTestContext({ id: 2 }));
+
+    await expect(caller.create({ conversationId: 7, format: "pdf", messageId: 3 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    await expect(caller.create({ conversationId: 7, format: "pdf", messageId: 99 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    expect(storagePut).not.toHaveBeenCalled();
+  });
+
+  it("requires access to the conversation", async () => {
+    vi.mocked(getConversationRole).mockResolvedValue(null);
+    const caller = conversationExportRouter.createCaller(createTestContext({ id: 2 }));
+
+    await expect(caller.create({ conversationId: 7, format: "markdown" })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    expect(storagePut).not.toHaveBeenCalled();
+  });
+});
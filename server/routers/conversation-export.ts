@@ -0,0 +1,94 @@
+/**
+ * Conversation export router for Workforce Luxembourg
+ * Renders a conversation, or a single answer with its question, to PDF, DOCX
+ * or Markdown for filing, stores the file and returns a download link.
+ */
+
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { TRPCError } from "@trpc/server";
+import { router } from "../_core/trpc";
+import { conversationProcedure } from "./conversation-access";
+import { getConversationWithMessages } from "../db";
+import { storagePut } from "../storage";
+import { buildExportDocument, renderMarkdown, type ExportDocument } from "../export/document";
+import { renderPdf } from "../export/pdf";
+import { renderDocx } from "../export/docx";
+
+const ExportFormatSchema = z.enum(["pdf", "docx", "markdown"]);
+
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+const EXPORT_FILES: Record<
+  ExportFormat,
+  { extension: string; contentType: string; render: (document: ExportDocument) => Buffer | string }
+> = {
+  pdf: { extension: "pdf", contentType: "application/pdf", render: renderPdf },
+  docx: {
+    extension: "docx",
+    contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    render: (document) => renderDocx(document),
+  },
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8", render: renderMarkdown },
+};
+
+export const conversationExportRouter = router({
+  /**
+   * Export the conversation, or one answer of it when messageId is given
+   * Anyone who can view the conversation can export it.
+   */
+  create: conversationProcedure("view")
+    .input(
+      z.object({
+        format: ExportFormatSchema,
+        messageId: z.number().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const data = await getConversationWithMessages(input.conversationId);
+      if (!data) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Conversation not found",
+        });
+      }
+
+      const document = buildExportDocument(data, {
+        messages: input.messageId === undefined ? undefined : answerWithQuestion(data.messages, input.messageId),
+      });
+
+      const file = EXPORT_FILES[input.format];
+      const fileName = `${document.fileName}.${file.extension}`;
+      // The random segment keeps download links of a conversation from being guessed
+      const { url } = await storagePut(
+        `exports/conversation-${input.conversationId}/${nanoid(16)}/${fileName}`,
+        file.render(document),
+        file.contentType
+      );
+
+      return { url, fileName, format: input.format };
+    }),
+});
+
+/**
+ * Helper functions
+ */
+
+/**
+ * The answer with the given id and the question it answers
+ */
+function answerWithQuestion<T extends { id: number; sender: string }>(messages: T[], messageId: number): T[] {
+  const index = messages.findIndex((m) => m.id === messageId && m.sender === "assistant");
+  if (index === -1) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Answer not found in this conversation",
+    });
+  }
+
+  const question = messages
+    .slice(0, index)
+    .reverse()
+    .find((m) => m.sender === "user");
+  return question ? [question, messages[index]!] : [messages[index]!];
+}
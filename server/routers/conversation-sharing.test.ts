@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { chatFormattedRouter } from "./chat-formatted";
+import {
+  getConversationRole,
+  getConversationShares,
+  getSharedConversations,
+  getUserByEmail,
+  removeConversationShare,
+  shareConversation,
+} from "../db";
+import { createTestContext } from "../test-context";
+
+vi.mock("../db", () => ({
+  getConversationRole: vi.fn(),
+  getConversationShares: vi.fn(async () => []),
+  getSharedConversations: vi.fn(async () => []),
+  getUserByEmail: vi.fn(async () => undefined),
+  removeConversationShare: vi.fn(async () => {}),
+  shareConversation: vi.fn(async (conversationId, sharedWithUserId, permission) => ({
+    id: 1,
+    conversationId,
+    sharedWithUserId,
+    permission,
+    createdAt: new Date(),
+  })),
+}));
+
+const OWNER_ID = 1;
+const COLLEAGUE = { id: 3, email: "colleague@example.com", name: "Colleague" };
+
+/** Roles of each user on conversation 7 */
+function mockRoles(roles: Record<number, "owner" | "view" | "edit" | "admin">) {
+  vi.mocked(getConversationRole).mockImplementation(async (_conversationId, userId) => roles[userId] ?? null);
+}
+
+describe("conversation sharing", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRoles({ [OWNER_ID]: "owner", [COLLEAGUE.id]: "edit" });
+    vi.mocked(getUserByEmail).mockResolvedValue(undefined);
+    vi.mocked(getConversationShares).mockResolvedValue([]);
+  });
+
+  it("shares by email with the requested permission", async () => {
+    vi.mocked(getUserByEmail).mockResolvedValue(COLLEAGUE as any);
+    const caller = chatFormattedRouter.createCaller(createTestContext());
+
+    const share = await caller.shareConversation({
+      conversationId: 7,
+      email: "Colleague@Example.com",
+      permission: "edit",
+    });
+
+    expect(getUserByEmail).toHaveBeenCalledWith("Colleague@Example.com");
+    expect(shareConversation).toHaveBeenCalledWith(7, COLLEAGUE.id, "edit");
+    expect(share.permission).toBe("edit");
+  });
+
+  it("reports unknown email addresses", async () => {
+    const caller = chatFormattedRouter.createCaller(createTestContext());
+
+    await expect(
+      caller.shareConversation({ conversationId: 7, email: "nobody@example.com" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(shareConversation).not.toHaveBeenCalled();
+  });
+
+  it("does not share with the owner", async () => {
+    mockRoles({ [OWNER_ID]: "owner", 2: "admin" });
+    vi.mocked(getUserByEmail).mockResolvedValue({ id: OWNER_ID, email: "owner@example.com" } as any);
+    const caller = chatFormattedRouter.createCaller(createTestContext({ id: 2 }));
+
+    await expect(
+      caller.shareConversation({ conversationId: 7, email: "owner@example.com" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(shareConversation).not.toHaveBeenCalled();
+  });
+
+  it("lets only admins and the owner manage collaborators", async () => {
+    const caller = chatFormattedRouter.createCaller(createTestContext({ id: COLLEAGUE.id }));
+
+    await expect(caller.listShares({ conversationId: 7 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(
+      caller.removeShare({ conversationId: 7, userId: OWNER_ID })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(removeConversationShare).not.toHaveBeenCalled();
+  });
+
+  it("changes the permission of existing collaborators only", async () => {
+    const caller = chatFormattedRouter.createCaller(createTestContext());
+
+    await expect(
+      caller.updateShare({ conversationId: 7, userId: COLLEAGUE.id, permission: "admin" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+    vi.mocked(getConversationShares).mockResolvedValue([
+      { userId: COLLEAGUE.id, name: COLLEAGUE.name, email: COLLEAGUE.email, permission: "edit", createdAt: new Date() },
+    ]);
+    await caller.updateShare({ conversationId: 7, userId: COLLEAGUE.id, permission: "admin" });
+
+    expect(shareConversation).toHaveBeenCalledOnce();
+    expect(shareConversation).toHaveBeenCalledWith(7, COLLEAGUE.id, "admin");
+  });
+
+  it("lists the conversations shared with the current user", async () => {
+    const caller = chatFormattedRouter.createCaller(createTestContext({ id: COLLEAGUE.id }));
+
+    await caller.getSharedWithMe();
+
+    expect(getSharedConversations).toHaveBeenCalledWith(COLLEAGUE.id);
+  });
+});
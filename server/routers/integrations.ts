@@ -29,6 +29,7 @@ export const integrationsRouter = router({
             logo: z.string().optional(),
             defaultLanguage: z.enum(["en", "fr", "de"]).optional(),
             defaultMode: z.enum(["procedural", "legal", "ai_innovation"]).optional(),
+            defaultPipeline: z.enum(["single", "agents"]).optional(),
           })
           .optional(),
       })
@@ -190,6 +191,7 @@ export const integrationsRouter = router({
           logo: z.string().optional(),
           defaultLanguage: z.enum(["en", "fr", "de"]).optional(),
           defaultMode: z.enum(["procedural", "legal", "ai_innovation"]).optional(),
+          defaultPipeline: z.enum(["single", "agents"]).optional(),
         }),
       })
     )
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { shareLinksRouter } from "./share-links";
+import {
+  createEvent,
+  createShareLink,
+  deleteShareLink,
+  getConversationRole,
+  getShareLinkByToken,
+} from "../db";
+import { createTestContext } from "../test-context";
+
+vi.mock("../db", () => ({
+  SHARE_LINK_VIEW_EVENT: "share_link_view",
+  getConversationRole: vi.fn(async () => "owner"),
+  getConversationWithMessages: vi.fn(async () => ({
+    conversation: { id: 7, userId: 1, title: "Notice periods", language: "en", externalSiteKey: "wl_x" },
+    messages: [
+      { id: 1, conversationId: 7, senderUserId: 1, sender: "user", content: "How long is my notice?", sources: [] },
+      {
+        id: 2,
+        conversationId: 7,
+        senderUserId: null,
+        sender: "assistant",
+        content: "Two months.",
+        mode: "legal",
+        sources: [
+          {
+            id: 9,
+            messageId: 2,
+            sourceTitle: "Notice periods",
+            sourceUrl: "https://guichet.lu/notice",
+            sourceType: "guichet",
+            evidenceId: "kb-notice",
+          },
+        ],
+      },
+      { id: 3, sender: "system", content: "Internal note", sources: [] },
+    ],
+  })),
+  createEvent: vi.fn(async () => {}),
+  createShareLink: vi.fn(async (conversationId, token, expiresAt) => ({
+    id: 5,
+    conversationId,
+    sharedWithUserId: null,
+    permission: "view",
+    token,
+    expiresAt,
+    createdAt: new Date(),
+  })),
+  deleteShareLink: vi.fn(async () => {}),
+  getShareLinkByToken: vi.fn(async () => null),
+  getShareLinks: vi.fn(async () => []),
+}));
+
+function link(expiresAt: Date | null) {
+  return {
+    id: 5,
+    conversationId: 7,
+    sharedWithUserId: null,
+    permission: "view" as const,
+    token: "abc",
+    expiresAt,
+    createdAt: new Date(),
+  };
+}
+
+describe("shareLinks", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getConversationRole).mockResolvedValue("owner");
+    vi.mocked(getShareLinkByToken).mockResolvedValue(null);
+  });
+
+  it("creates links that expire after the requested number of days", async () => {
+    const caller = shareLinksRouter.createCaller(createTestContext());
+
+    const created = await caller.create({ conversationId: 7, expiresInDays: 30 });
+
+    const [, token, expiresAt] = vi.mocked(createShareLink).mock.calls[0]!;
+    expect(token).toHaveLength(32);
+    expect(expiresAt!.getTime() - Date.now()).toBeGreaterThan(29 * 24 * 60 * 60 * 1000);
+    expect(created.views).toBe(0);
+  });
+
+  it("lets only admins and the owner create and revoke links", async () => {
+    vi.mocked(getConversationRole).mockResolvedValue("edit");
+    const caller = shareLinksRouter.createCaller(createTestContext());
+
+    await expect(caller.create({ conversationId: 7 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.revoke({ conversationId: 7, linkId: 5 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(createShareLink).not.toHaveBeenCalled();
+    expect(deleteShareLink).not.toHaveBeenCalled();
+  });
+
+  it("revokes links of the given conversation only", async () => {
+    const caller = shareLinksRouter.createCaller(createTestContext());
+
+    await caller.revoke({ conversationId: 7, linkId: 5 });
+
+    expect(deleteShareLink).toHaveBeenCalledWith(7, 5);
+  });
+
+  it("shows the conversation without an account and without counting a view", async () => {
+    vi.mocked(getShareLinkByToken).mockResolvedValue(link(new Date(Date.now() + 60_000)));
+    const caller = shareLinksRouter.createCaller(createTestContext(null));
+
+    const shared = await caller.view({ token: "abc" });
+    await caller.view({ token: "abc" });
+
+    expect(shared.title).toBe("Notice periods");
+    expect(shared.messages.map((m) => m.id)).toEqual([1, 2]);
+    expect(shared).not.toHaveProperty("conversation");
+    expect(createEvent).not.toHaveBeenCalled();
+  });
+
+  it("leaves out who sent each message and internal ids", async () => {
+    vi.mocked(getShareLinkByToken).mockResolvedValue(link(null));
+    const caller = shareLinksRouter.createCaller(createTestContext(null));
+
+    const { messages } = await caller.view({ token: "abc" });
+
+    expect(messages[0]).not.toHaveProperty("senderUserId");
+    expect(messages[0]).not.toHaveProperty("conversationId");
+    expect(messages[1]?.sources).toEqual([
+      { sourceTitle: "Notice periods", sourceUrl: "https://guichet.lu/notice", sourceType: "guichet" },
+    ]);
+  });
+
+  it("counts a view when the page records one", async () => {
+    vi.mocked(getShareLinkByToken).mockResolvedValue(link(null));
+    const caller = shareLinksRouter.createCaller(createTestContext(null));
+
+    await caller.recordView({ token: "abc" });
+
+    expect(createEvent).toHaveBeenCalledTimes(1);
+    expect(createEvent).toHaveBeenCalledWith({
+      userId: null,
+      eventType: "share_link_view",
+      metadata: JSON.stringify({ shareId: 5, conversationId: 7 }),
+    });
+  });
+
+  it("rejects unknown and expired links without counting a view", async () => {
+    const caller = shareLinksRouter.createCaller(createTestContext(null));
+
+    await expect(caller.view({ token: "missing" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.recordView({ token: "missing" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+    vi.mocked(getShareLinkByToken).mockResolvedValue(link(new Date(Date.now() - 60_000)));
+    await expect(caller.view({ token: "abc" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.recordView({ token: "abc" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+    expect(createEvent).not.toHaveBeenCalled();
+  });
+});
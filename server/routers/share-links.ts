@@ -0,0 +1,140 @@
+/**
+ * Share links router for Workforce Luxembourg
+ * Public read-only links to a conversation, for people without an account.
+ * Links can expire and be revoked; the shared page records each opening as
+ * an event, once per page load.
+ */
+
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { TRPCError } from "@trpc/server";
+import { publicProcedure, router } from "../_core/trpc";
+import { conversationProcedure } from "./conversation-access";
+import {
+  SHARE_LINK_VIEW_EVENT,
+  createEvent,
+  createShareLink,
+  deleteShareLink,
+  getConversationWithMessages,
+  getShareLinkByToken,
+  getShareLinks,
+} from "../db";
+import type { SharedMessageData } from "@shared/types";
+
+/** Longest a link can be valid for */
+const MAX_EXPIRY_DAYS = 365;
+
+const LINK_NOT_FOUND = "This link is invalid or has expired";
+
+const ShareTokenSchema = z.object({ token: z.string().min(1).max(64) });
+
+export const shareLinksRouter = router({
+  /**
+   * Create a public link to a conversation, valid forever or for a number of days
+   */
+  create: conversationProcedure("admin")
+    .input(z.object({ expiresInDays: z.number().int().min(1).max(MAX_EXPIRY_DAYS).optional() }))
+    .mutation(async ({ input }) => {
+      const expiresAt = input.expiresInDays
+        ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+        : null;
+      const link = await createShareLink(input.conversationId, nanoid(32), expiresAt);
+      return { ...link, views: 0 };
+    }),
+
+  /**
+   * The public links of a conversation and how often each was opened
+   */
+  list: conversationProcedure("admin").query(async ({ input }) => {
+    return await getShareLinks(input.conversationId);
+  }),
+
+  /**
+   * Revoke a public link; it stops working immediately
+   */
+  revoke: conversationProcedure("admin")
+    .input(z.object({ linkId: z.number() }))
+    .mutation(async ({ input }) => {
+      await deleteShareLink(input.conversationId, input.linkId);
+      return { success: true } as const;
+    }),
+
+  /**
+   * The conversation a link points to, read-only and without private details
+   * Unknown, revoked and expired links are all reported as not found.
+   */
+  view: publicProcedure.input(ShareTokenSchema).query(async ({ input }) => {
+    const link = await getActiveLink(input.token);
+    const conversation = await getConversationWithMessages(link.conversationId);
+
+    if (!conversation) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: LINK_NOT_FOUND,
+      });
+    }
+
+    return {
+      title: conversation.conversation.title,
+      language: conversation.conversation.language,
+      createdAt: conversation.conversation.createdAt,
+      expiresAt: link.expiresAt,
+      messages: conversation.messages.filter((m) => m.sender !== "system").map(toSharedMessage),
+    };
+  }),
+
+  /**
+   * Count an opening of a link; the shared page calls it once per load, so
+   * refetches of the view do not inflate the count
+   */
+  recordView: publicProcedure.input(ShareTokenSchema).mutation(async ({ ctx, input }) => {
+    const link = await getActiveLink(input.token);
+
+    await createEvent({
+      userId: ctx.user?.id ?? null,
+      eventType: SHARE_LINK_VIEW_EVENT,
+      metadata: JSON.stringify({ shareId: link.id, conversationId: link.conversationId }),
+    });
+
+    return { success: true } as const;
+  }),
+});
+
+/**
+ * Helper functions
+ */
+
+/**
+ * The link with this token, unless it is unknown, revoked or expired
+ */
+async function getActiveLink(token: string) {
+  const link = await getShareLinkByToken(token);
+  if (!link || isExpired(link.expiresAt)) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: LINK_NOT_FOUND,
+    });
+  }
+  return link;
+}
+
+type ConversationMessage = NonNullable<Awaited<ReturnType<typeof getConversationWithMessages>>>["messages"][number];
+
+/**
+ * The parts of a message a link shows: no sender account, conversation or source ids
+ */
+function toSharedMessage(message: ConversationMessage): SharedMessageData {
+  return {
+    id: message.id,
+    sender: message.sender,
+    content: message.content,
+    mode: message.mode,
+    sources: message.sources.map(({ sourceTitle, sourceUrl, sourceType }) => ({ sourceTitle, sourceUrl, sourceType })),
+    response: message.response,
+    createdAt: message.createdAt,
+  };
+}
+
+function isExpired(expiresAt: Date | null): boolean {
+  return expiresAt !== null && expiresAt.getTime() <= Date.now();
+}
@@ -0,0 +1,82 @@
+/**
+ * Usage router for Workforce Luxembourg
+ * LLM token usage and estimated spend, for administrators
+ */
+
+import { z } from "zod";
+import { adminProcedure, router } from "../_core/trpc";
+import { getSpendByDay, getSpendByIntegration, getUsageLimits, upsertUsageLimits } from "../db";
+import { resolveUsageLimits } from "../llm/budget";
+
+/** The user or integration whose limits are read or set */
+const UsageOwnerSchema = z.union([z.object({ userId: z.number() }), z.object({ siteKey: z.string() })]);
+
+export const usageRouter = router({
+  /**
+   * Spend by day and by integration over a period
+   * `to` is exclusive; siteKey restricts both breakdowns to one integration.
+   */
+  getSpend: adminProcedure
+    .input(
+      z.object({
+        from: z.date().optional(),
+        to: z.date().optional(),
+        siteKey: z.string().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const [byDay, byIntegration] = await Promise.all([
+        getSpendByDay(input),
+        getSpendByIntegration(input),
+      ]);
+
+      return {
+        byDay,
+        byIntegration,
+        total: byDay.reduce(
+          (total, day) => ({
+            calls: total.calls + day.calls,
+            promptTokens: total.promptTokens + day.promptTokens,
+            completionTokens: total.completionTokens + day.completionTokens,
+            estimatedCost: total.estimatedCost + day.estimatedCost,
+          }),
+          { calls: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0 }
+        ),
+      };
+    }),
+
+  /**
+   * Limits of a user or integration: its own (null where unset) and the effective ones
+   */
+  getLimits: adminProcedure
+    .input(z.object({ owner: UsageOwnerSchema }))
+    .query(async ({ input }) => {
+      const [configured, effective] = await Promise.all([
+        getUsageLimits(input.owner),
+        resolveUsageLimits(input.owner),
+      ]);
+      return { configured: configured ?? null, effective };
+    }),
+
+  /**
+   * Set the limits of a user or integration
+   * Null falls back to the environment default; 0 means unlimited (no warnings
+   * for the warning ratio).
+   */
+  setLimits: adminProcedure
+    .input(
+      z.object({
+        owner: UsageOwnerSchema,
+        limits: z.object({
+          monthlyTokenBudget: z.number().int().min(0).nullable(),
+          monthlyCostBudget: z.number().min(0).nullable(),
+          dailyMessageQuota: z.number().int().min(0).nullable(),
+          warningRatio: z.number().min(0).max(1).nullable(),
+        }),
+      })
+    )
+    .mutation(async ({ input }) => {
+      await upsertUsageLimits(input.owner, input.limits);
+      return await resolveUsageLimits(input.owner);
+    }),
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { chunkGuichetPage, passageId } from "./chunker";
+
+const PAGE = `
+<html>
+  <head><title>Notice period | Guichet.lu</title></head>
+  <body>
+    <nav><ul><li>Home</li><li>Citizens</li></ul></nav>
+    <main>
+      <article>
+        <h1>Notice period in case of dismissal</h1>
+        <p>The employer must respect a notice period when dismissing an employee on a permanent contract.</p>
+        <h2>Duration of the notice period</h2>
+        <p>The duration depends on the employee's length of service with the company.</p>
+        <h3>Less than 5 years of service</h3>
+        <ul>
+          <li>The notice period is 2 months for employees with less than 5 years of service.</li>
+        </ul>
+        <h3>5 to 10 years of service</h3>
+        <p>The notice period is 4 months for employees with 5 to 10 years of service.</p>
+        <h2>Resignation</h2>
+        <p>An employee who resigns must also respect a notice period, which is halved.</p>
+      </article>
+    </main>
+  </body>
+</html>`;
+
+const options = {
+  url: "https://guichet.public.lu/en/citoyens/travail-emploi/fin-relation-travail/preavis.html",
+  category: "Termination",
+  language: "en" as const,
+};
+
+describe("chunkGuichetPage", () => {
+  it("splits the page into passages along the heading hierarchy", () => {
+    const passages = chunkGuichetPage(PAGE, options);
+
+    expect(passages.map((p) => p.section)).toEqual([
+      "Termination",
+      "Duration of the notice period",
+      "Duration of the notice period > Less than 5 years of service",
+      "Duration of the notice period > 5 to 10 years of service",
+      "Resignation",
+    ]);
+    expect(passages.every((p) => p.title === "Notice period in case of dismissal")).toBe(true);
+    expect(passages[2]?.content).toContain("2 months");
+    expect(passages.some((p) => p.content.includes("Home"))).toBe(false);
+  });
+
+  it("produces the same ids for the same content on every scrape", () => {
+    const first = chunkGuichetPage(PAGE, options).map((p) => p.id);
+    const second = chunkGuichetPage(PAGE, { ...options, lastUpdated: new Date(0) }).map((p) => p.id);
+
+    expect(second).toEqual(first);
+    expect(new Set(first).size).toBe(first.length);
+  });
+
+  it("changes only the id of the passage whose text changed", () => {
+    const before = chunkGuichetPage(PAGE, options);
+    const after = chunkGuichetPage(PAGE.replace("4 months", "6 months"), options);
+
+    const changed = before.filter((p, i) => p.id !== after[i]?.id);
+    expect(changed.map((p) => p.section)).toEqual([
+      "Duration of the notice period > 5 to 10 years of service",
+    ]);
+  });
+
+  it("derives ids from url, section and content", () => {
+    expect(passageId("https://a", "S", "text")).toBe(passageId("https://a", "S", "text"));
+    expect(passageId("https://a", "S", "text")).not.toBe(passageId("https://b", "S", "text"));
+    expect(passageId("https://a", "S", "text")).toMatch(/^guichet-[0-9a-f]{20}$/);
+  });
+});
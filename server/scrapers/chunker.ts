@@ -0,0 +1,139 @@
+/**
+ * Passage chunker for scraped Guichet.lu pages
+ * Splits a page along its h2/h3 heading hierarchy so citations can point at
+ * the passage that supports them rather than the whole page
+ */
+
+import * as cheerio from "cheerio";
+import { evidenceId } from "../retrieval/evidence-id";
+import type { GuichetContent } from "./guichet";
+
+// Passages shorter than this are navigation or boilerplate
+const MIN_PASSAGE_CHARS = 50;
+// Longer sections are split on paragraph boundaries
+const MAX_PASSAGE_CHARS = 2000;
+// Shorter paragraphs are labels, buttons and breadcrumbs
+const MIN_PARAGRAPH_CHARS = 20;
+
+const SECTION_SEPARATOR = " > ";
+
+export interface ChunkOptions {
+  url: string;
+  category: string;
+  language: GuichetContent["language"];
+  lastUpdated?: Date;
+}
+
+/**
+ * Stable passage id: the same text under the same heading on the same page
+ * always produces the same id, across scrapes and server instances.
+ * Doubles as the evidence_id of the passage.
+ */
+export function passageId(url: string, section: string, content: string): string {
+  return evidenceId("guichet", url, section, content);
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Group paragraphs into passages of at most MAX_PASSAGE_CHARS
+ */
+function packParagraphs(paragraphs: string[]): string[] {
+  const passages: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const paragraph of paragraphs) {
+    if (current.length > 0 && length + paragraph.length > MAX_PASSAGE_CHARS) {
+      passages.push(current.join("\n\n"));
+      current = [];
+      length = 0;
+    }
+    current.push(paragraph);
+    length += paragraph.length;
+  }
+  if (current.length > 0) passages.push(current.join("\n\n"));
+
+  return passages;
+}
+
+/**
+ * Split a page into passages keyed by heading path ("Notice period > Resignation")
+ */
+export function chunkGuichetPage(html: string, options: ChunkOptions): GuichetContent[] {
+  const $ = cheerio.load(html);
+  const root = $("main article, article, main, .content").first();
+  const $root = root.length > 0 ? root : $("body");
+
+  const title =
+    normalizeWhitespace($root.find("h1").first().text()) ||
+    normalizeWhitespace($("h1").first().text()) ||
+    normalizeWhitespace($("title").text());
+
+  type Section = { path: string[]; paragraphs: string[] };
+  const sections: Section[] = [];
+  let h2: string | null = null;
+  let h3: string | null = null;
+  let current: Section | null = null;
+
+  const startSection = (): Section => {
+    const section = { path: [h2, h3].filter((h): h is string => !!h), paragraphs: [] };
+    sections.push(section);
+    return section;
+  };
+
+  $root.find("h2, h3, p, li").each((_: number, el: any) => {
+    const tag = (el.tagName || el.name || "").toLowerCase();
+    const $el = $(el);
+    const text = normalizeWhitespace($el.text());
+
+    if (tag === "h2") {
+      h2 = text || null;
+      h3 = null;
+      current = null;
+      return;
+    }
+    if (tag === "h3") {
+      h3 = text || null;
+      current = null;
+      return;
+    }
+
+    // Nested paragraphs and list items are visited on their own
+    if (tag === "li" && $el.find("p, li").length > 0) return;
+    if (text.length <= MIN_PARAGRAPH_CHARS) return;
+
+    if (!current) current = startSection();
+    current.paragraphs.push(text);
+  });
+
+  const seen = new Set<string>();
+  const passages: GuichetContent[] = [];
+
+  for (const { path, paragraphs } of sections) {
+    const section = path.length > 0 ? path.join(SECTION_SEPARATOR) : options.category;
+
+    for (const content of packParagraphs(paragraphs)) {
+      if (content.length < MIN_PASSAGE_CHARS) continue;
+
+      const id = passageId(options.url, section, content);
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      passages.push({
+        id,
+        title: title || section,
+        url: options.url,
+        content,
+        section,
+        category: options.category,
+        lastUpdated: options.lastUpdated ?? new Date(),
+        language: options.language,
+      });
+    }
+  }
+
+  return passages;
+}
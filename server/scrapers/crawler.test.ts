@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { discoverGuichetPages, parseRobotsTxt, parseSitemap, type CrawlSeed } from "./crawler";
+import { scrapeAllGuichetPages } from "./guichet";
+
+// Local fixture standing in for guichet.public.lu
+let routes: Record<string, string> = {};
+const requested: string[] = [];
+const userAgents: string[] = [];
+let server: Server;
+let baseUrl: string;
+
+function links(...hrefs: string[]): string {
+  return `<html><body>${hrefs.map((h) => `<a href="${h}">link</a>`).join("")}</body></html>`;
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requested.push(req.url ?? "");
+    userAgents.push(req.headers["user-agent"] ?? "");
+    const body = routes[req.url ?? ""];
+    if (body === undefined) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200).end(body.replace(/BASE/g, baseUrl));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("parseRobotsTxt", () => {
+  it("applies the longest matching rule of the wildcard group", () => {
+    const robots = parseRobotsTxt(`
+      User-agent: Googlebot
+      Disallow: /
+
+      User-agent: *
+      Disallow: /en/citoyens/
+      Allow: /en/citoyens/travail
+      Disallow: /*.pdf$
+      Crawl-delay: 2
+      Sitemap: https://guichet.public.lu/sitemap.xml
+    `);
+
+    expect(robots.allows("/en/citoyens/logement.html")).toBe(false);
+    expect(robots.allows("/en/citoyens/travail/conges.html")).toBe(true);
+    expect(robots.allows("/en/entreprises/guide.pdf")).toBe(false);
+    expect(robots.allows("/en/entreprises.html")).toBe(true);
+    expect(robots.crawlDelayMs).toBe(2000);
+    expect(robots.sitemaps).toEqual(["https://guichet.public.lu/sitemap.xml"]);
+  });
+
+  it("prefers a group naming our agent", () => {
+    const robots = parseRobotsTxt(`
+      User-agent: *
+      Disallow: /
+
+      User-agent: workforce-luxembourg
+      Disallow:
+    `);
+
+    expect(robots.allows("/en/citoyens.html")).toBe(true);
+  });
+});
+
+describe("parseSitemap", () => {
+  it("reads url sets and sitemap indexes", () => {
+    expect(
+      parseSitemap(`<urlset><url><loc>https://guichet.public.lu/a.html?x=1&amp;y=2</loc></url></urlset>`)
+    ).toEqual({ isIndex: false, urls: ["https://guichet.public.lu/a.html?x=1&y=2"] });
+    expect(parseSitemap(`<sitemapindex><sitemap><loc>https://x/s1.xml</loc></sitemap></sitemapindex>`).isIndex).toBe(
+      true
+    );
+  });
+});
+
+describe("discoverGuichetPages", () => {
+  let seeds: CrawlSeed[];
+  const options = { delayMs: 0, allowedDomains: ["127.0.0.1"] };
+
+  beforeEach(() => {
+    routes = {};
+    requested.length = 0;
+    userAgents.length = 0;
+    seeds = [{ url: `${baseUrl}/en/citoyens/travail.html`, category: "Employment", language: "en" }];
+  });
+
+  it("follows in-section links up to the depth limit", async () => {
+    routes["/en/citoyens/travail.html"] = links(
+      "/en/citoyens/travail/conges.html",
+      "travail/teletravail.html#top",
+      "/en/citoyens/logement.html",
+      "https://example.com/en/citoyens/travail/other.html",
+      "/en/citoyens/travail/formulaire.pdf"
+    );
+    routes["/en/citoyens/travail/conges.html"] = links("/en/citoyens/travail/conges/maladie.html");
+    routes["/en/citoyens/travail/conges/maladie.html"] = links("/en/citoyens/travail/conges/maladie/deep.html");
+
+    const targets = await discoverGuichetPages(seeds, { ...options, maxDepth: 2 });
+
+    expect(targets.map((t) => new URL(t.url).pathname).sort()).toEqual([
+      "/en/citoyens/travail.html",
+      "/en/citoyens/travail/conges.html",
+      "/en/citoyens/travail/conges/maladie.html",
+      "/en/citoyens/travail/teletravail.html",
+    ]);
+    expect(targets.every((t) => t.category === "Employment")).toBe(true);
+    expect(requested).not.toContain("/en/citoyens/travail/conges/maladie.html");
+  });
+
+  it("skips pages disallowed by robots.txt", async () => {
+    routes["/robots.txt"] = "User-agent: *\nDisallow: /en/citoyens/travail/prive";
+    routes["/en/citoyens/travail.html"] = links(
+      "/en/citoyens/travail/public.html",
+      "/en/citoyens/travail/prive.html"
+    );
+
+    const targets = await discoverGuichetPages(seeds, options);
+
+    expect(targets.map((t) => new URL(t.url).pathname)).not.toContain("/en/citoyens/travail/prive.html");
+    expect(targets).toHaveLength(2);
+    // Identifies itself with the token its robots.txt group is matched on
+    expect(userAgents.every((agent) => agent.includes("workforce-luxembourg"))).toBe(true);
+  });
+
+  it("uses the sitemap from robots.txt instead of following links", async () => {
+    routes["/robots.txt"] = "Sitemap: BASE/index.xml";
+    routes["/index.xml"] = `<sitemapindex><sitemap><loc>BASE/pages.xml</loc></sitemap></sitemapindex>`;
+    routes["/pages.xml"] = `<urlset>
+      <url><loc>BASE/en/citoyens/travail/conges.html</loc></url>
+      <url><loc>BASE/fr/citoyens/travail/conges.html</loc></url>
+      <url><loc>https://example.com/en/citoyens/travail/x.html</loc></url>
+    </urlset>`;
+    seeds.push({ url: `${baseUrl}/fr/citoyens/travail.html`, category: "Emploi", language: "fr" });
+
+    const targets = await discoverGuichetPages(seeds, options);
+
+    expect(targets).toContainEqual({
+      url: `${baseUrl}/fr/citoyens/travail/conges.html`,
+      category: "Emploi",
+      language: "fr",
+    });
+    expect(targets).toHaveLength(4);
+    expect(requested).not.toContain("/en/citoyens/travail.html");
+  });
+
+  it("stops at maxPages and ignores seeds outside the allowlist", async () => {
+    routes["/en/citoyens/travail.html"] = links(
+      ...Array.from({ length: 10 }, (_, i) => `/en/citoyens/travail/page-${i}.html`)
+    );
+    seeds.push({ url: "https://example.com/en/citoyens/travail.html", category: "Other", language: "en" });
+
+    const targets = await discoverGuichetPages(seeds, { ...options, maxPages: 5 });
+
+    expect(targets).toHaveLength(5);
+    expect(targets.every((t) => t.url.startsWith(baseUrl))).toBe(true);
+  });
+
+  it("gives each seed its own page budget", async () => {
+    routes["/en/citoyens/travail.html"] = links(
+      ...Array.from({ length: 10 }, (_, i) => `/en/citoyens/travail/page-${i}.html`)
+    );
+    routes["/en/entreprises/rh.html"] = links(
+      ...Array.from({ length: 10 }, (_, i) => `/en/entreprises/rh/page-${i}.html`)
+    );
+    seeds.push({ url: `${baseUrl}/en/entreprises/rh.html`, category: "HR", language: "en" });
+
+    const targets = await discoverGuichetPages(seeds, { ...options, maxPages: 3 });
+
+    expect(targets.filter((t) => t.category === "Employment")).toHaveLength(3);
+    expect(targets.filter((t) => t.category === "HR")).toHaveLength(3);
+  });
+});
+
+describe("scrapeAllGuichetPages", () => {
+  beforeEach(() => {
+    routes = {};
+    requested.length = 0;
+    userAgents.length = 0;
+  });
+
+  it("scrapes seeds as the crawler does, skipping those robots.txt disallows", async () => {
+    routes["/robots.txt"] = "User-agent: workforce-luxembourg\nDisallow: /fr/";
+    routes["/en/citoyens/travail.html"] = links("/en/citoyens/travail/conges.html");
+    routes["/fr/citoyens/travail.html"] = links("/fr/citoyens/travail/conges.html");
+
+    await scrapeAllGuichetPages(
+      [
+        { url: `${baseUrl}/en/citoyens/travail.html`, category: "Employment", language: "en" },
+        { url: `${baseUrl}/fr/citoyens/travail.html`, category: "Employment", language: "fr" },
+      ],
+      { delayMs: 0 }
+    );
+
+    expect(requested).toEqual(["/robots.txt", "/en/citoyens/travail.html"]);
+    expect(userAgents.every((agent) => agent.includes("workforce-luxembourg"))).toBe(true);
+  });
+});
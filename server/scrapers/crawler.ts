@@ -0,0 +1,365 @@
+/**
+ * Guichet.lu page discovery
+ * Expands seed sections into the pages below them using sitemap.xml and
+ * in-domain link following, honouring robots.txt and a politeness delay
+ */
+
+import * as cheerio from "cheerio";
+import { DOMAIN_ALLOWLIST } from "@shared/types-independent";
+import type { GuichetContent } from "./guichet";
+import type { CrawlTarget } from "./scheduler";
+
+/**
+ * A section of the site to crawl
+ * Only pages whose path starts with pathPrefix are collected; it defaults to
+ * the seed URL's path without its extension, i.e. the pages nested below it.
+ */
+export interface CrawlSeed extends CrawlTarget {
+  pathPrefix?: string;
+}
+
+export interface DiscoveryOptions {
+  /** Link hops to follow from a seed */
+  maxDepth?: number;
+  /** Pages collected per seed, so large sections do not crowd out the others */
+  maxPages?: number;
+  /** Minimum delay between requests to the same host; robots.txt Crawl-delay wins if longer */
+  delayMs?: number;
+  timeoutMs?: number;
+  useSitemap?: boolean;
+  allowedDomains?: string[];
+}
+
+export interface RobotsRules {
+  allows(path: string): boolean;
+  crawlDelayMs: number | null;
+  sitemaps: string[];
+}
+
+// Token matched against robots.txt User-agent groups
+const ROBOTS_AGENT = "workforce-luxembourg";
+/** Sent with crawl requests, so site owners can address the crawler in robots.txt */
+export const CRAWLER_USER_AGENT = `Mozilla/5.0 (compatible; ${ROBOTS_AGENT}/1.0)`;
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_PAGES = 50;
+const DEFAULT_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 30_000;
+// Nested sitemap indexes deeper than this are ignored
+const MAX_SITEMAP_DEPTH = 2;
+const NON_HTML_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|zip|docx?|xlsx?|pptx?|xml|txt)$/i;
+
+const ALLOW_ALL: RobotsRules = { allows: () => true, crawlDelayMs: null, sitemaps: [] };
+
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Parse robots.txt, keeping the group for our agent (or "*" when there is none)
+ * Allow/Disallow conflicts resolve to the longest matching rule, Allow on ties.
+ */
+export function parseRobotsTxt(text: string, agent: string = ROBOTS_AGENT): RobotsRules {
+  type Group = { agents: string[]; rules: Array<{ allow: boolean; pattern: string }>; crawlDelay: number | null };
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let current: Group | null = null;
+  let inHeader = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "sitemap") {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+    if (field === "user-agent") {
+      if (!current || !inHeader) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      inHeader = true;
+      continue;
+    }
+    if (!current) continue;
+    inHeader = false;
+
+    if (field === "allow" || field === "disallow") {
+      // An empty Disallow means everything is allowed
+      if (value) current.rules.push({ allow: field === "allow", pattern: value });
+    } else if (field === "crawl-delay") {
+      const seconds = parseFloat(value);
+      if (!Number.isNaN(seconds)) current.crawlDelay = seconds;
+    }
+  }
+
+  const agentLower = agent.toLowerCase();
+  const specific = groups.filter((g) => g.agents.some((a) => a !== "*" && agentLower.includes(a)));
+  const selected = specific.length > 0 ? specific : groups.filter((g) => g.agents.includes("*"));
+
+  const rules = selected.flatMap((g) =>
+    g.rules.map((r) => ({ ...r, regex: robotsPatternToRegExp(r.pattern) }))
+  );
+  const crawlDelay = selected.find((g) => g.crawlDelay !== null)?.crawlDelay ?? null;
+
+  return {
+    allows: (path) => {
+      let best: { allow: boolean; length: number } | null = null;
+      for (const rule of rules) {
+        if (!rule.regex.test(path)) continue;
+        const length = rule.pattern.length;
+        if (!best || length > best.length || (length === best.length && rule.allow)) {
+          best = { allow: rule.allow, length };
+        }
+      }
+      return best ? best.allow : true;
+    },
+    crawlDelayMs: crawlDelay !== null ? crawlDelay * 1000 : null,
+    sitemaps,
+  };
+}
+
+/**
+ * The robots.txt rules of a site for our agent
+ * Everything is allowed when robots.txt is missing or cannot be read.
+ */
+export async function fetchRobotsRules(origin: string, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<RobotsRules> {
+  try {
+    const response = await fetch(new URL("/robots.txt", origin), {
+      headers: { "User-Agent": CRAWLER_USER_AGENT },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    return response.ok ? parseRobotsTxt(await response.text()) : ALLOW_ALL;
+  } catch (error) {
+    console.warn(`[Crawl] Could not read robots.txt of ${origin}:`, error);
+    return ALLOW_ALL;
+  }
+}
+
+/**
+ * Extract <loc> entries from a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): { isIndex: boolean; urls: string[] } {
+  const urls = Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi)).map((m) =>
+    m[1]
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+  );
+  return { isIndex: /<sitemapindex[\s>]/i.test(xml), urls };
+}
+
+/**
+ * Extract absolute http(s) links from a page, without fragments or query strings
+ */
+export function extractLinks(html: string, baseUrl: string): string[] {
+  const $ = cheerio.load(html);
+  const links = new Set<string>();
+
+  $("a[href]").each((_: number, el: any) => {
+    const href = $(el).attr("href");
+    if (!href) return;
+    try {
+      const url = new URL(href, baseUrl);
+      if (url.protocol !== "http:" && url.protocol !== "https:") return;
+      url.hash = "";
+      url.search = "";
+      links.add(url.toString());
+    } catch {
+      // Ignore malformed hrefs
+    }
+  });
+
+  return Array.from(links);
+}
+
+function isAllowedDomain(url: URL, domains: string[]): boolean {
+  const host = url.hostname.toLowerCase();
+  return domains.some((d) => host === d || host.endsWith(`.${d}`));
+}
+
+function seedPrefix(seed: CrawlSeed): string {
+  return seed.pathPrefix ?? new URL(seed.url).pathname.replace(/\.[a-z]+$/i, "");
+}
+
+function languageFromPath(path: string): GuichetContent["language"] | null {
+  const match = path.match(/^\/(en|fr|de)\//);
+  return match ? (match[1] as GuichetContent["language"]) : null;
+}
+
+/**
+ * Discover the pages below a set of seed sections.
+ * Sitemaps are used first since they cost no page fetches; seeds whose section
+ * is not covered by any sitemap are expanded by following links breadth-first.
+ */
+export async function discoverGuichetPages(
+  seeds: CrawlSeed[],
+  options: DiscoveryOptions = {}
+): Promise<CrawlTarget[]> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const delayMs = options.delayMs ?? DEFAULT_DELAY_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const allowedDomains = options.allowedDomains ?? DOMAIN_ALLOWLIST.guichet;
+
+  const robotsByOrigin = new Map<string, RobotsRules>();
+  const lastRequestAt = new Map<string, number>();
+  const found = new Map<string, CrawlTarget>();
+  const foundPerSeed = new Map<CrawlSeed, number>();
+  const allSeedsFull = () => seeds.every((seed) => (foundPerSeed.get(seed) ?? 0) >= maxPages);
+
+  const politeFetch = async (url: URL): Promise<Response | null> => {
+    const robots = robotsByOrigin.get(url.origin);
+    const wait = Math.max(delayMs, robots?.crawlDelayMs ?? 0);
+    const elapsed = Date.now() - (lastRequestAt.get(url.origin) ?? 0);
+    if (elapsed < wait) {
+      await new Promise((resolve) => setTimeout(resolve, wait - elapsed));
+    }
+    lastRequestAt.set(url.origin, Date.now());
+
+    try {
+      const response = await fetch(url, {
+        headers: { "User-Agent": CRAWLER_USER_AGENT },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      return response.ok ? response : null;
+    } catch (error) {
+      console.warn(`[Crawl] Discovery fetch failed for ${url}:`, error);
+      return null;
+    }
+  };
+
+  const getRobots = async (origin: string): Promise<RobotsRules> => {
+    let robots = robotsByOrigin.get(origin);
+    if (!robots) {
+      const response = await politeFetch(new URL("/robots.txt", origin));
+      robots = response ? parseRobotsTxt(await response.text()) : ALLOW_ALL;
+      robotsByOrigin.set(origin, robots);
+    }
+    return robots;
+  };
+
+  // Longest matching seed prefix decides category and default language
+  const matchSeed = (url: URL): CrawlSeed | null => {
+    if (!isAllowedDomain(url, allowedDomains)) return null;
+    if (NON_HTML_EXTENSIONS.test(url.pathname)) return null;
+
+    let best: CrawlSeed | null = null;
+    for (const seed of seeds) {
+      const seedUrl = new URL(seed.url);
+      if (seedUrl.origin !== url.origin || !url.pathname.startsWith(seedPrefix(seed))) continue;
+      if (!best || seedPrefix(seed).length > seedPrefix(best).length) best = seed;
+    }
+    return best;
+  };
+
+  const add = async (url: URL): Promise<boolean> => {
+    const key = url.toString();
+    if (found.has(key)) return false;
+
+    const seed = matchSeed(url);
+    if (!seed || (foundPerSeed.get(seed) ?? 0) >= maxPages) return false;
+    if (!(await getRobots(url.origin)).allows(url.pathname)) return false;
+
+    found.set(key, {
+      url: key,
+      category: seed.category,
+      language: languageFromPath(url.pathname) ?? seed.language,
+    });
+    foundPerSeed.set(seed, (foundPerSeed.get(seed) ?? 0) + 1);
+    return true;
+  };
+
+  const seedUrls = seeds
+    .map((seed) => new URL(seed.url))
+    .filter((url) => isAllowedDomain(url, allowedDomains));
+  for (const url of seedUrls) {
+    await add(url);
+  }
+
+  // Sitemaps
+  const coveredSeeds = new Set<CrawlSeed>();
+  if (options.useSitemap !== false) {
+    const origins = Array.from(new Set(seedUrls.map((u) => u.origin)));
+    for (const origin of origins) {
+      const robots = await getRobots(origin);
+      const queue = (robots.sitemaps.length > 0 ? robots.sitemaps : [`${origin}/sitemap.xml`]).map(
+        (url) => ({ url, depth: 0 })
+      );
+      const visited = new Set<string>();
+
+      while (queue.length > 0 && !allSeedsFull()) {
+        const { url, depth } = queue.shift()!;
+        if (visited.has(url)) continue;
+        visited.add(url);
+
+        let sitemapUrl: URL;
+        try {
+          sitemapUrl = new URL(url);
+        } catch {
+          continue;
+        }
+        if (!isAllowedDomain(sitemapUrl, allowedDomains)) continue;
+
+        const response = await politeFetch(sitemapUrl);
+        if (!response) continue;
+        const sitemap = parseSitemap(await response.text());
+
+        for (const loc of sitemap.urls) {
+          if (sitemap.isIndex) {
+            if (depth < MAX_SITEMAP_DEPTH) queue.push({ url: loc, depth: depth + 1 });
+            continue;
+          }
+          try {
+            const pageUrl = new URL(loc);
+            pageUrl.hash = "";
+            pageUrl.search = "";
+            const seed = matchSeed(pageUrl);
+            if (seed && (await add(pageUrl))) coveredSeeds.add(seed);
+          } catch {
+            // Ignore malformed <loc> entries
+          }
+        }
+      }
+    }
+  }
+
+  // Link following for sections the sitemaps did not cover
+  const queue = seeds
+    .filter((seed) => !coveredSeeds.has(seed))
+    .map((seed) => ({ url: new URL(seed.url), depth: 0 }))
+    .filter(({ url }) => found.has(url.toString()));
+  const expanded = new Set<string>();
+
+  while (queue.length > 0 && !allSeedsFull()) {
+    const { url, depth } = queue.shift()!;
+    if (depth >= maxDepth || expanded.has(url.toString())) continue;
+    expanded.add(url.toString());
+
+    const response = await politeFetch(url);
+    if (!response) continue;
+
+    for (const link of extractLinks(await response.text(), url.toString())) {
+      const linkUrl = new URL(link);
+      if (found.has(link)) continue;
+      if (await add(linkUrl)) {
+        queue.push({ url: linkUrl, depth: depth + 1 });
+      }
+    }
+  }
+
+  console.log(`[Crawl] Discovered ${found.size} pages from ${seeds.length} seeds`);
+  return Array.from(found.values());
+}
@@ -3,9 +3,15 @@
  * Fetches and indexes real HR and employment law content from Guichet.lu
  */
 
-import * as cheerio from "cheerio";
+import { chunkGuichetPage } from "./chunker";
+import { CRAWLER_USER_AGENT, fetchRobotsRules, type RobotsRules } from "./crawler";
 
+/**
+ * A passage of a Guichet.lu page
+ * section is the heading path within the page ("Notice period > Resignation")
+ */
 export interface GuichetContent {
+  /** Content-hash based, stable across scrapes (see passageId) */
   id: string;
   title: string;
   url: string;
@@ -16,8 +22,17 @@ export interface GuichetContent {
   language: "en" | "fr" | "de";
 }
 
-// Key Guichet.lu pages to scrape for HR and employment law content
-const GUICHET_PAGES = [
+/**
+ * Guichet.lu sections covering HR and employment law
+ * The crawler discovers the pages below each seed (see discoverGuichetPages);
+ * pathPrefix defaults to the seed path without ".html".
+ */
+export const GUICHET_SEEDS: Array<{
+  url: string;
+  category: string;
+  language: GuichetContent["language"];
+  pathPrefix?: string;
+}> = [
   {
     url: "https://guichet.public.lu/en/citoyens/emploi-travail.html",
     category: "Employment",
@@ -48,10 +63,20 @@ const GUICHET_PAGES = [
     category: "Employment",
     language: "de" as const,
   },
+  {
+    url: "https://guichet.public.lu/en/entreprises/ressources-humaines.html",
+    category: "Human Resources",
+    language: "en" as const,
+  },
+  {
+    url: "https://guichet.public.lu/fr/entreprises/ressources-humaines.html",
+    category: "Human Resources",
+    language: "fr" as const,
+  },
 ];
 
 /**
- * Fetch and parse a single Guichet.lu page
+ * Fetch a single Guichet.lu page and split it into passages
  */
 export async function scrapeGuichetPage(
   url: string,
@@ -61,8 +86,7 @@ export async function scrapeGuichetPage(
   try {
     const response = await fetch(url, {
       headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+        "User-Agent": CRAWLER_USER_AGENT,
       },
     });
 
@@ -72,45 +96,7 @@ export async function scrapeGuichetPage(
     }
 
     const html = await response.text();
-    const $ = cheerio.load(html);
-
-    const contents: GuichetContent[] = [];
-
-    // Extract main content sections
-    $("article, .content, main").each((index: number, element: any) => {
-      const $element = $(element);
-
-      // Get title
-      const title =
-        $element.find("h1, h2").first().text().trim() ||
-        $("title").text().trim();
-
-      // Get content paragraphs
-      const paragraphs: string[] = [];
-      $element.find("p, li").each((_: number, el: any) => {
-        const text = $(el).text().trim();
-        if (text.length > 20) {
-          paragraphs.push(text);
-        }
-      });
-
-      const content = paragraphs.join("\n\n");
-
-      if (title && content && content.length > 100) {
-        contents.push({
-          id: `guichet-${Date.now()}-${index}`,
-          title,
-          url,
-          content,
-          section: category,
-          category,
-          lastUpdated: new Date(),
-          language,
-        });
-      }
-    });
-
-    return contents;
+    return chunkGuichetPage(html, { url, category, language });
   } catch (error) {
     console.error(`Error scraping ${url}:`, error);
     return [];
@@ -118,12 +104,29 @@ export async function scrapeGuichetPage(
 }
 
 /**
- * Scrape all key Guichet.lu pages
+ * Scrape the seed pages only; the crawl scheduler expands them into their sections
+ * Like the crawler, skips pages robots.txt disallows and waits at least its
+ * Crawl-delay between requests.
  */
-export async function scrapeAllGuichetPages(): Promise<GuichetContent[]> {
+export async function scrapeAllGuichetPages(
+  seeds: typeof GUICHET_SEEDS = GUICHET_SEEDS,
+  options: { delayMs?: number } = {}
+): Promise<GuichetContent[]> {
   const allContents: GuichetContent[] = [];
+  const robotsByOrigin = new Map<string, RobotsRules>();
+
+  for (const page of seeds) {
+    const url = new URL(page.url);
+    let robots = robotsByOrigin.get(url.origin);
+    if (!robots) {
+      robots = await fetchRobotsRules(url.origin);
+      robotsByOrigin.set(url.origin, robots);
+    }
+    if (!robots.allows(url.pathname)) {
+      console.log(`Skipping ${page.url}, disallowed by robots.txt`);
+      continue;
+    }
 
-  for (const page of GUICHET_PAGES) {
     console.log(`Scraping ${page.url}...`);
     const contents = await scrapeGuichetPage(
       page.url,
@@ -133,7 +136,8 @@ export async function scrapeAllGuichetPages(): Promise<GuichetContent[]> {
     allContents.push(...contents);
 
     // Be respectful - add delay between requests
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    const delayMs = Math.max(options.delayMs ?? 1000, robots.crawlDelayMs ?? 0);
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
   }
 
   return allContents;
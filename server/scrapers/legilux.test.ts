@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  formatArticleCitation,
+  formatArticlePath,
+  normalizeArticleNumber,
+  parseLegiluxDocument,
+  parseVersionDate,
+} from "./legilux";
+import { clearLegalCorpus, replaceLegalDocument, searchLegalArticles } from "../legal-corpus";
+import { retrieveLegalEvidence, clearCache } from "../retrieval/index";
+import { getLegalCorpusVersion } from "../db";
+
+vi.mock("../db", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../db")>();
+  return { ...actual, getLegalCorpusVersion: vi.fn(actual.getLegalCorpusVersion) };
+});
+
+const ELI = "https://legilux.public.lu/eli/etat/leg/code/travail/20240101";
+
+const HTML = `
+<html>
+  <head><title>Code du travail</title></head>
+  <body>
+    <nav><p>Art. L. 999-9. Navigation link</p></nav>
+    <main>
+      <p>Version consolidée au 1er janvier 2024</p>
+      <p class="livre">Livre Ier</p>
+      <p>Relations individuelles et collectives de travail</p>
+      <p class="titre">Titre II - Contrat de travail</p>
+      <p class="chapitre">Chapitre Ier - Champ d'application</p>
+      <p class="article"><strong>Art. L. 121-1.</strong></p>
+      <p>Le présent titre s'applique à toute personne liée par un <a href="#">contrat de travail</a>.</p>
+      <p>(2) Il ne s'applique pas aux fonctionnaires.</p>
+      <p class="chapitre">Chapitre II - Conclusion du contrat</p>
+      <p>Art. L. 121-4. Le contrat de travail doit être constaté par écrit pour chaque salarié.</p>
+      <p class="titre">Titre III</p>
+      <p>Salaire social minimum</p>
+      <p>Art. L. 222-1 bis.</p>
+      <p>Le salaire social minimum est fixé par la loi.</p>
+    </main>
+  </body>
+</html>`;
+
+const XML = `<?xml version="1.0" encoding="UTF-8"?>
+<code>
+  <livre><num>Livre II</num><heading>Réglementation et conditions de travail</heading>
+    <titre><num>Titre III - Congés</num>
+      <article><num>Art. L. 233-4.</num>
+        <alinea>Le salarié a droit à un congé annuel payé de vingt-six jours ouvrables.</alinea>
+      </article>
+    </titre>
+  </livre>
+</code>`;
+
+describe("parseLegiluxDocument", () => {
+  it("splits HTML into articles with their Livre/Titre/Chapitre path", () => {
+    const articles = parseLegiluxDocument(HTML, { eliUri: ELI });
+
+    expect(articles.map((a) => a.articleNumber)).toEqual(["L.121-1", "L.121-4", "L.222-1bis"]);
+    expect(articles[0]).toMatchObject({
+      livre: "Livre Ier – Relations individuelles et collectives de travail",
+      titre: "Titre II – Contrat de travail",
+      chapitre: "Chapitre Ier – Champ d'application",
+      documentTitle: "Code du travail",
+      eliUri: ELI,
+      language: "fr",
+    });
+    expect(articles[0]?.content).toBe(
+      "Le présent titre s'applique à toute personne liée par un contrat de travail.\n\n(2) Il ne s'applique pas aux fonctionnaires."
+    );
+    expect(articles[1]).toMatchObject({
+      chapitre: "Chapitre II – Conclusion du contrat",
+      content: "Le contrat de travail doit être constaté par écrit pour chaque salarié.",
+    });
+    expect(articles[2]).toMatchObject({ titre: "Titre III – Salaire social minimum", chapitre: null });
+    expect(articles[0]?.versionDate?.toISOString()).toBe("2024-01-01T00:00:00.000Z");
+  });
+
+  it("parses the XML export", () => {
+    const [article] = parseLegiluxDocument(XML, { eliUri: ELI, documentTitle: "Code du travail" });
+
+    expect(article).toMatchObject({
+      articleNumber: "L.233-4",
+      livre: "Livre II – Réglementation et conditions de travail",
+      titre: "Titre III – Congés",
+    });
+    expect(formatArticlePath(article!)).toBe(
+      "Livre II – Réglementation et conditions de travail > Titre III – Congés"
+    );
+  });
+
+  it("gives unchanged articles the same id across ingestions", () => {
+    const first = parseLegiluxDocument(HTML, { eliUri: ELI });
+    const second = parseLegiluxDocument(HTML.replace("fixé par la loi", "fixé par règlement"), { eliUri: ELI });
+
+    expect(second[0]?.id).toBe(first[0]?.id);
+    expect(second[2]?.id).not.toBe(first[2]?.id);
+  });
+});
+
+describe("article helpers", () => {
+  it("normalises numbers and formats citations", () => {
+    expect(normalizeArticleNumber("L. 121-1")).toBe("L.121-1");
+    expect(normalizeArticleNumber("l 121 - 1")).toBe("L.121-1");
+    expect(formatArticleCitation({ articleNumber: "L.121-1" })).toBe("Art. L.121-1");
+  });
+
+  it("reads the version date from the text when the ELI has none", () => {
+    expect(
+      parseVersionDate("https://legilux.public.lu/eli/etat/leg/code/travail", "Texte coordonné au 15 mars 2023")
+        ?.toISOString()
+    ).toBe("2023-03-15T00:00:00.000Z");
+  });
+});
+
+describe("legal retrieval", () => {
+  beforeEach(async () => {
+    clearLegalCorpus();
+    await clearCache();
+    await replaceLegalDocument(ELI, parseLegiluxDocument(HTML, { eliUri: ELI }), { persist: false });
+  });
+
+  it("returns articles cited by number first", async () => {
+    const [first] = await searchLegalArticles("que dit l'article L.121-4 ?");
+    expect(first?.articleNumber).toBe("L.121-4");
+  });
+
+  it("keeps searching the in-memory snapshot when the database sync fails", async () => {
+    vi.mocked(getLegalCorpusVersion).mockRejectedValueOnce(new Error("Connection lost"));
+
+    const [first] = await searchLegalArticles("que dit l'article L.121-4 ?");
+
+    expect(first?.articleNumber).toBe("L.121-4");
+  });
+
+  it("returns article-level evidence for the legal agent", async () => {
+    const evidence = await retrieveLegalEvidence(["salaire social minimum"], "fr");
+
+    expect(evidence[0]).toMatchObject({
+      title: "Code du travail, Art. L.222-1bis",
+      section: "Livre Ier – Relations individuelles et collectives de travail > Titre III – Salaire social minimum",
+      source: "legal",
+      article_number: "L.222-1bis",
+      eli_uri: ELI,
+      version_date: "2024-01-01",
+    });
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Legilux ELI ingester
+ * Splits consolidated legal texts (Code du travail) published on legilux.public.lu
+ * into articles, keeping their Livre/Titre/Chapitre/Section position
+ */
+
+import * as cheerio from "cheerio";
+import { evidenceId } from "../retrieval/evidence-id";
+
+/**
+ * One article of a consolidated legal text
+ */
+export interface LegalArticle {
+  /** Content-hash based, stable across ingestions (see legalArticleId) */
+  id: string;
+  /** ELI of the consolidated text, e.g. .../eli/etat/leg/code/travail/20240101 */
+  eliUri: string;
+  url: string;
+  documentTitle: string;
+  /** Normalised number, e.g. "L.121-1" */
+  articleNumber: string;
+  livre: string | null;
+  titre: string | null;
+  chapitre: string | null;
+  /** Section and sous-section, joined with " > " */
+  section: string | null;
+  content: string;
+  language: "en" | "fr" | "de";
+  /** Date of the consolidated version, when the document states it */
+  versionDate: Date | null;
+}
+
+export interface LegiluxDocument {
+  eliUri: string;
+  /** Fetched URL when it differs from the ELI (defaults to eliUri) */
+  url?: string;
+  documentTitle?: string;
+  language?: LegalArticle["language"];
+  versionDate?: Date;
+}
+
+// Undated ELI of the Code du travail; Legilux serves the latest consolidation
+export const CODE_DU_TRAVAIL_ELI = "https://legilux.public.lu/eli/etat/leg/code/travail";
+
+export const LEGILUX_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36";
+
+const SECTION_SEPARATOR = " > ";
+// Header lines longer than this are running text that happens to start with "Art."
+const MAX_HEADER_CHARS = 200;
+
+const INLINE_TAGS = new Set([
+  "a", "abbr", "b", "br", "em", "i", "mark", "small", "span", "strong", "sub", "sup", "u",
+]);
+
+const HEADING_PATTERN =
+  /^(livre|titre|chapitre|section|sous-section)\s+(premi(?:er|ère)|[IVXLC]+(?:er|re)?|\d+(?:er|re)?[A-Z]?)\b\.?\s*[-–—:.]?\s*(.*)$/i;
+const ARTICLE_PATTERN =
+  /^art(?:icle)?\.?\s*((?:[LR]\s*\.?\s*)?\d+(?:er)?(?:\s*[-–]\s*\d+)*(?:\s*(?:bis|ter|quater|quinquies|sexies))?)\s*\.?\s*(.*)$/i;
+
+const FRENCH_MONTHS = [
+  "janvier", "février", "mars", "avril", "mai", "juin",
+  "juillet", "août", "septembre", "octobre", "novembre", "décembre",
+];
+
+type HeadingLevel = "livre" | "titre" | "chapitre" | "section" | "sous-section";
+const HEADING_LEVELS: HeadingLevel[] = ["livre", "titre", "chapitre", "section", "sous-section"];
+
+/**
+ * Stable article id: the same wording of the same article in the same text
+ * always produces the same id. Doubles as the evidence_id of the article.
+ */
+export function legalArticleId(eliUri: string, articleNumber: string, content: string): string {
+  return evidenceId("legilux", eliUri, articleNumber, content);
+}
+
+/**
+ * "L. 121-1" -> "L.121-1", "5 bis" -> "5bis"
+ */
+export function normalizeArticleNumber(raw: string): string {
+  return raw
+    .replace(/\s+/g, "")
+    .replace(/–/g, "-")
+    .replace(/^([LR])\.?/i, (_, prefix: string) => `${prefix.toUpperCase()}.`);
+}
+
+/**
+ * Citation form used in answers, e.g. "Art. L.121-1"
+ */
+export function formatArticleCitation(article: Pick<LegalArticle, "articleNumber">): string {
+  return `Art. ${article.articleNumber}`;
+}
+
+/**
+ * "Livre I – ... > Titre II – ... > Chapitre I – ..."
+ */
+export function formatArticlePath(
+  article: Pick<LegalArticle, "livre" | "titre" | "chapitre" | "section">
+): string {
+  return [article.livre, article.titre, article.chapitre, article.section]
+    .filter((part): part is string => !!part)
+    .join(SECTION_SEPARATOR);
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Version date from the ELI (trailing yyyymmdd segment) or a
+ * "version consolidée au 1er janvier 2024" statement in the text
+ */
+export function parseVersionDate(eliUri: string, text: string): Date | null {
+  const eliDate = eliUri.match(/\/(\d{4})(\d{2})(\d{2})(?:\/|$)/);
+  if (eliDate) {
+    return new Date(Date.UTC(+eliDate[1], +eliDate[2] - 1, +eliDate[3]));
+  }
+
+  const statement = text.match(
+    /(?:version consolidée|texte coordonné|consolidé)\s+(?:au|du)\s+(\d{1,2})(?:er)?\s+([a-zéû]+)\s+(\d{4})/i
+  );
+  if (statement) {
+    const month = FRENCH_MONTHS.indexOf(statement[2].toLowerCase());
+    if (month >= 0) return new Date(Date.UTC(+statement[3], month, +statement[1]));
+  }
+
+  return null;
+}
+
+/**
+ * Text of every innermost block element, in document order
+ * Works on both the HTML rendering and the XML export of an ELI document.
+ */
+function extractBlocks($: cheerio.CheerioAPI): string[] {
+  $("script, style, noscript, head, nav, header, footer").remove();
+
+  const tagOf = (el: any): string => (el.tagName || el.name || "").toLowerCase();
+  const isLeaf = (el: any): boolean =>
+    (el.children ?? []).every((child: any) => child.type !== "tag" || INLINE_TAGS.has(tagOf(child)));
+
+  const blocks: string[] = [];
+  $.root()
+    .find("*")
+    .each((_: number, el: any) => {
+      if (!isLeaf(el)) return;
+      // Inline elements are covered by their enclosing block
+      if (INLINE_TAGS.has(tagOf(el)) && el.parent?.type === "tag" && isLeaf(el.parent)) return;
+
+      const text = normalizeWhitespace($(el).text());
+      if (text) blocks.push(text);
+    });
+
+  return blocks;
+}
+
+/**
+ * Split a Legilux ELI document (HTML or XML) into articles
+ */
+export function parseLegiluxDocument(source: string, document: LegiluxDocument): LegalArticle[] {
+  const isXml = /^\s*<\?xml/.test(source) && !/<html[\s>]/i.test(source);
+  const $ = cheerio.load(source, isXml ? { xml: true } : undefined);
+
+  const documentTitle =
+    document.documentTitle ??
+    (normalizeWhitespace($("title").first().text()) || "Code du travail");
+  const blocks = extractBlocks($);
+  const versionDate = document.versionDate ?? parseVersionDate(document.eliUri, blocks.join("\n"));
+  const url = document.url ?? document.eliUri;
+  const language = document.language ?? "fr";
+
+  const headings: Record<HeadingLevel, string | null> = {
+    livre: null,
+    titre: null,
+    chapitre: null,
+    section: null,
+    "sous-section": null,
+  };
+  // Heading whose label ("Titre II") is on its own line, waiting for its title
+  let pendingHeading: HeadingLevel | null = null;
+  type ParsedArticle = { number: string; paragraphs: string[]; headings: typeof headings };
+  let current: ParsedArticle | null = null;
+  const parsed: ParsedArticle[] = [];
+
+  for (const block of blocks) {
+    const heading = block.length <= MAX_HEADER_CHARS ? block.match(HEADING_PATTERN) : null;
+    if (heading) {
+      const level = heading[1].toLowerCase() as HeadingLevel;
+      const label = `${heading[1][0].toUpperCase()}${heading[1].slice(1).toLowerCase()} ${heading[2]}`;
+      headings[level] = heading[3] ? `${label} – ${heading[3]}` : label;
+      // Entering a heading resets everything below it
+      for (const lower of HEADING_LEVELS.slice(HEADING_LEVELS.indexOf(level) + 1)) {
+        headings[lower] = null;
+      }
+      pendingHeading = heading[3] ? null : level;
+      current = null;
+      continue;
+    }
+
+    const article = block.length <= MAX_HEADER_CHARS ? block.match(ARTICLE_PATTERN) : null;
+    if (article) {
+      pendingHeading = null;
+      const parsedArticle: ParsedArticle = {
+        number: normalizeArticleNumber(article[1]),
+        paragraphs: article[2] ? [article[2]] : [],
+        headings: { ...headings },
+      };
+      parsed.push(parsedArticle);
+      current = parsedArticle;
+      continue;
+    }
+
+    if (pendingHeading) {
+      headings[pendingHeading] = `${headings[pendingHeading]} – ${block}`;
+      pendingHeading = null;
+      continue;
+    }
+
+    // Text before the first article (preamble, table of contents) is ignored
+    current?.paragraphs.push(block);
+  }
+
+  return parsed
+    .filter((a) => a.paragraphs.length > 0)
+    .map((a) => {
+      const content = a.paragraphs.join("\n\n");
+      const section = [a.headings.section, a.headings["sous-section"]]
+        .filter((part): part is string => !!part)
+        .join(SECTION_SEPARATOR);
+      return {
+        id: legalArticleId(document.eliUri, a.number, content),
+        eliUri: document.eliUri,
+        url,
+        documentTitle,
+        articleNumber: a.number,
+        livre: a.headings.livre,
+        titre: a.headings.titre,
+        chapitre: a.headings.chapitre,
+        section: section || null,
+        content,
+        language,
+        versionDate,
+      };
+    });
+}
+
+/**
+ * Fetch an ELI document and split it into articles
+ */
+export async function fetchLegiluxDocument(
+  eliUri: string,
+  options: { timeoutMs?: number } = {}
+): Promise<LegalArticle[]> {
+  const response = await fetch(eliUri, {
+    headers: {
+      "User-Agent": LEGILUX_USER_AGENT,
+      Accept: "text/html, application/xml;q=0.9",
+    },
+    signal: AbortSignal.timeout(options.timeoutMs ?? 60_000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${eliUri}: HTTP ${response.status}`);
+  }
+
+  const source = await response.text();
+  return parseLegiluxDocument(source, {
+    eliUri,
+    url: response.url || eliUri,
+    // Redirects to a dated consolidation carry the version in the URL
+    versionDate: parseVersionDate(response.url || "", "") ?? undefined,
+  });
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import {
+  clearCrawlState,
+  removeUndiscoveredPages,
+  runCrawl,
+  startCrawlScheduler,
+  type CrawlTarget,
+} from "./scheduler";
+import { clearKnowledgeBase, getAllKnowledgeBase } from "../knowledge-base";
+
+// Local fixture standing in for guichet.public.lu
+const pages: Record<string, { html: string; etag: string; status?: number }> = {};
+let server: Server;
+let baseUrl: string;
+
+function page(body: string): string {
+  return `<html><body><main><h1>Sick leave</h1>${body}</main></body></html>`;
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const fixture = pages[req.url ?? ""];
+    if (!fixture) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (fixture.status) {
+      res.writeHead(fixture.status).end();
+      return;
+    }
+    if (req.headers["if-none-match"] === fixture.etag) {
+      res.writeHead(304).end();
+      return;
+    }
+    res.writeHead(200, {
+      "content-type": "text/html",
+      etag: fixture.etag,
+      "last-modified": "Mon, 05 Oct 2026 08:00:00 GMT",
+    });
+    res.end(fixture.html);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("crawl scheduler", () => {
+  let targets: CrawlTarget[];
+
+  beforeEach(() => {
+    clearKnowledgeBase();
+    clearCrawlState();
+    pages["/sick-leave.html"] = {
+      etag: '"v1"',
+      html: page(`
+        <h2>Certificate</h2>
+        <p>The employee must send a medical certificate to the employer by the third day of absence.</p>
+        <h2>Continued payment</h2>
+        <p>The employer continues to pay the salary until the end of the month in which the 77th day falls.</p>
+      `),
+    };
+    pages["/telework.html"] = {
+      etag: '"t1"',
+      html: page(`<h2>Telework</h2><p>Telework must be agreed in writing between the employer and the employee.</p>`),
+    };
+    targets = [
+      { url: `${baseUrl}/sick-leave.html`, category: "Sick leave", language: "en" },
+      { url: `${baseUrl}/telework.html`, category: "Telework", language: "en" },
+    ];
+  });
+
+  it("indexes every page on the first run", async () => {
+    const result = await runCrawl(targets, { delayMs: 0 });
+
+    expect(result).toMatchObject({ fetched: 2, changed: 2, unchanged: 0, failed: 0 });
+    expect(getAllKnowledgeBase()).toHaveLength(3);
+    expect(getAllKnowledgeBase()[0]?.lastUpdated.toISOString()).toBe("2026-10-05T08:00:00.000Z");
+  });
+
+  it("uses ETags to skip pages that did not change", async () => {
+    await runCrawl(targets, { delayMs: 0 });
+    const result = await runCrawl(targets, { delayMs: 0 });
+
+    expect(result).toMatchObject({ fetched: 2, changed: 0, unchanged: 2, failed: 0 });
+  });
+
+  it("treats a new ETag with identical passages as unchanged", async () => {
+    await runCrawl(targets, { delayMs: 0 });
+    pages["/telework.html"]!.etag = '"t2"';
+    pages["/telework.html"]!.html = pages["/telework.html"]!.html.replace("<main>", "<main><!-- rebuilt -->");
+
+    const result = await runCrawl(targets, { delayMs: 0 });
+
+    expect(result).toMatchObject({ changed: 0, unchanged: 2 });
+  });
+
+  it("rewrites only the passages that changed", async () => {
+    await runCrawl(targets, { delayMs: 0 });
+    const before = getAllKnowledgeBase().map((c) => c.id);
+
+    pages["/sick-leave.html"]!.etag = '"v2"';
+    pages["/sick-leave.html"]!.html = pages["/sick-leave.html"]!.html.replace("third day", "second day");
+    const result = await runCrawl(targets, { delayMs: 0 });
+
+    expect(result).toMatchObject({ fetched: 2, changed: 1, unchanged: 1 });
+    expect(result.pages[0]).toMatchObject({ outcome: "changed", added: 1, removed: 1 });
+
+    const after = getAllKnowledgeBase().map((c) => c.id);
+    expect(after).toHaveLength(3);
+    expect(after.filter((id) => before.includes(id))).toHaveLength(2);
+    expect(getAllKnowledgeBase().some((c) => c.content.includes("second day"))).toBe(true);
+  });
+
+  it("records failures without touching stored passages", async () => {
+    await runCrawl(targets, { delayMs: 0 });
+    pages["/telework.html"]!.status = 503;
+
+    const result = await runCrawl(targets, { delayMs: 0 });
+
+    expect(result).toMatchObject({ fetched: 1, unchanged: 1, failed: 1 });
+    expect(result.pages[1]?.error).toBe("HTTP 503");
+    expect(getAllKnowledgeBase()).toHaveLength(3);
+  });
+
+  it("removes the passages of pages that are no longer discovered", async () => {
+    await runCrawl(targets, { delayMs: 0 });
+
+    const removed = await removeUndiscoveredPages([targets[0]!]);
+
+    expect(removed).toEqual([targets[1]!.url]);
+    expect(getAllKnowledgeBase()).toHaveLength(2);
+    expect(getAllKnowledgeBase().every((c) => c.url === targets[0]!.url)).toBe(true);
+  });
+
+  it("keeps every page when discovery finds too few of them", async () => {
+    await runCrawl(targets, { delayMs: 0 });
+
+    expect(await removeUndiscoveredPages([])).toEqual([]);
+    expect(getAllKnowledgeBase()).toHaveLength(3);
+  });
+
+  it("does not crawl on start without a record of the last run", async () => {
+    const resolveTargets = vi.fn(async () => targets);
+    const scheduler = startCrawlScheduler({ intervalMs: 60 * 60 * 1000, targets: resolveTargets, runImmediately: true });
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    scheduler.stop();
+
+    expect(resolveTargets).not.toHaveBeenCalled();
+    expect(getAllKnowledgeBase()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Guichet.lu re-crawl scheduler
+ * Periodically re-fetches known pages, detects real changes through HTTP
+ * validators (ETag / Last-Modified) and passage hashes, and only rewrites
+ * the passages that changed
+ */
+
+import { createHash } from "crypto";
+import {
+  createCrawlRun,
+  deleteCrawlPage,
+  finishCrawlRun,
+  getCrawlPage,
+  getCrawlPageUrls,
+  getCrawlRuns,
+  getDb,
+  upsertCrawlPage,
+} from "../db";
+import { replacePagePassages } from "../knowledge-base";
+import { chunkGuichetPage } from "./chunker";
+import { CRAWLER_USER_AGENT, discoverGuichetPages, type DiscoveryOptions } from "./crawler";
+import { GUICHET_SEEDS, type GuichetContent } from "./guichet";
+
+export interface CrawlTarget {
+  url: string;
+  category: string;
+  language: GuichetContent["language"];
+}
+
+export type CrawlOutcome = "changed" | "unchanged" | "failed";
+
+export interface CrawlPageResult {
+  url: string;
+  outcome: CrawlOutcome;
+  added: number;
+  removed: number;
+  error?: string;
+}
+
+export interface CrawlRunResult {
+  fetched: number;
+  unchanged: number;
+  changed: number;
+  failed: number;
+  pages: CrawlPageResult[];
+}
+
+export interface CrawlOptions {
+  /** Politeness delay between requests */
+  delayMs?: number;
+  timeoutMs?: number;
+}
+
+interface PageState {
+  etag: string | null;
+  lastModified: string | null;
+  contentHash: string | null;
+}
+
+const DEFAULT_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+// Page state when running without a database
+const localPageStates = new Map<string, PageState>();
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+async function loadPageState(url: string): Promise<PageState | null> {
+  const db = await getDb();
+  if (!db) return localPageStates.get(url) ?? null;
+
+  const page = await getCrawlPage(sha256(url));
+  return page
+    ? { etag: page.etag, lastModified: page.lastModified, contentHash: page.contentHash }
+    : null;
+}
+
+async function savePageState(
+  target: CrawlTarget,
+  state: PageState,
+  outcome: CrawlOutcome,
+  error?: string
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    localPageStates.set(target.url, state);
+    return;
+  }
+
+  const now = new Date();
+  await upsertCrawlPage({
+    url: target.url,
+    urlHash: sha256(target.url),
+    category: target.category,
+    language: target.language,
+    etag: state.etag,
+    lastModified: state.lastModified,
+    contentHash: state.contentHash,
+    lastStatus: outcome,
+    lastError: error ?? null,
+    lastFetchedAt: now,
+    ...(outcome === "changed" ? { lastChangedAt: now } : {}),
+  });
+}
+
+/**
+ * Re-crawl a single page
+ */
+export async function crawlPage(
+  target: CrawlTarget,
+  options: CrawlOptions = {}
+): Promise<CrawlPageResult> {
+  const previous = await loadPageState(target.url);
+
+  try {
+    const headers: Record<string, string> = { "User-Agent": CRAWLER_USER_AGENT };
+    if (previous?.etag) headers["If-None-Match"] = previous.etag;
+    if (previous?.lastModified) headers["If-Modified-Since"] = previous.lastModified;
+
+    const response = await fetch(target.url, {
+      headers,
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+
+    if (response.status === 304 && previous) {
+      await savePageState(target, previous, "unchanged");
+      return { url: target.url, outcome: "unchanged", added: 0, removed: 0 };
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const html = await response.text();
+    const lastModified = response.headers.get("last-modified");
+    const passages = chunkGuichetPage(html, {
+      ...target,
+      lastUpdated: lastModified ? new Date(lastModified) : new Date(),
+    });
+
+    const state: PageState = {
+      etag: response.headers.get("etag"),
+      lastModified,
+      // Passage ids hash their content, so this changes exactly when an indexed passage does
+      contentHash: sha256(passages.map((p) => p.id).sort().join("\n")),
+    };
+
+    if (previous?.contentHash === state.contentHash) {
+      await savePageState(target, state, "unchanged");
+      return { url: target.url, outcome: "unchanged", added: 0, removed: 0 };
+    }
+
+    // An empty page is far more likely a broken layout than a deleted topic
+    if (passages.length === 0) {
+      throw new Error("No passages extracted");
+    }
+
+    const { added, removed } = await replacePagePassages(target.url, passages);
+    await savePageState(target, state, "changed");
+    return { url: target.url, outcome: "changed", added, removed };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Crawl] Failed to crawl ${target.url}: ${message}`);
+    await savePageState(
+      target,
+      previous ?? { etag: null, lastModified: null, contentHash: null },
+      "failed",
+      message
+    ).catch((saveError) => console.error("[Crawl] Failed to save page state:", saveError));
+    return { url: target.url, outcome: "failed", added: 0, removed: 0, error: message };
+  }
+}
+
+/**
+ * Crawl a list of pages and record the run in the crawl history
+ */
+export async function runCrawl(
+  targets: CrawlTarget[],
+  options: CrawlOptions = {}
+): Promise<CrawlRunResult> {
+  const db = await getDb();
+  const runId = db ? await createCrawlRun() : null;
+  const delayMs = options.delayMs ?? DEFAULT_DELAY_MS;
+
+  const pages: CrawlPageResult[] = [];
+  try {
+    for (let i = 0; i < targets.length; i++) {
+      if (i > 0 && delayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+      pages.push(await crawlPage(targets[i], options));
+    }
+  } catch (error) {
+    if (runId !== null) {
+      await finishCrawlRun(runId, {
+        status: "failed",
+        ...countOutcomes(pages),
+        errors: JSON.stringify([{ error: String(error) }]),
+      });
+    }
+    throw error;
+  }
+
+  const counts = countOutcomes(pages);
+  if (runId !== null) {
+    const errors = pages.filter((p) => p.error).map((p) => ({ url: p.url, error: p.error }));
+    await finishCrawlRun(runId, {
+      status: "completed",
+      ...counts,
+      errors: errors.length > 0 ? JSON.stringify(errors) : null,
+    });
+  }
+
+  console.log(
+    `[Crawl] Done: ${counts.fetched} fetched, ${counts.changed} changed, ${counts.unchanged} unchanged, ${counts.failed} failed`
+  );
+  return { ...counts, pages };
+}
+
+/**
+ * Remove the passages and crawl state of known pages that are not among the targets
+ * Skipped when fewer than half of the known pages are targets, which more
+ * likely means discovery failed than that the pages were taken down.
+ * Returns the URLs of the removed pages.
+ */
+export async function removeUndiscoveredPages(targets: CrawlTarget[]): Promise<string[]> {
+  const db = await getDb();
+  const known = db ? await getCrawlPageUrls() : Array.from(localPageStates.keys());
+  const discovered = new Set(targets.map((t) => t.url));
+  const missing = known.filter((url) => !discovered.has(url));
+
+  if (missing.length === 0) return [];
+  if (known.length - missing.length < known.length / 2) {
+    console.warn(
+      `[Crawl] Only ${known.length - missing.length} of ${known.length} known pages were discovered; keeping them all`
+    );
+    return [];
+  }
+
+  for (const url of missing) {
+    await replacePagePassages(url, []);
+    if (db) {
+      await deleteCrawlPage(sha256(url));
+    } else {
+      localPageStates.delete(url);
+    }
+  }
+  console.log(`[Crawl] Removed ${missing.length} pages that are no longer discovered`);
+  return missing;
+}
+
+function countOutcomes(pages: CrawlPageResult[]) {
+  const changed = pages.filter((p) => p.outcome === "changed").length;
+  const unchanged = pages.filter((p) => p.outcome === "unchanged").length;
+  const failed = pages.filter((p) => p.outcome === "failed").length;
+  return { fetched: changed + unchanged, changed, unchanged, failed };
+}
+
+/**
+ * Start re-crawling on a fixed cadence.
+ * Each run re-discovers the pages under GUICHET_SEEDS unless targets are given,
+ * so new pages are picked up and the passages of removed ones are dropped.
+ * With several instances, a run is skipped when another instance started one
+ * within the last half interval. The immediate run only happens when the last
+ * recorded run is a full interval old, so restarts do not re-crawl.
+ */
+export function startCrawlScheduler(
+  options: CrawlOptions & {
+    intervalMs: number;
+    targets?: CrawlTarget[] | (() => Promise<CrawlTarget[]>);
+    discovery?: DiscoveryOptions;
+    /** Run once right away if a run is due, instead of waiting a full interval */
+    runImmediately?: boolean;
+  }
+): { stop: () => void } {
+  const resolveTargets = async (): Promise<CrawlTarget[]> => {
+    if (Array.isArray(options.targets)) return options.targets;
+    if (options.targets) return options.targets();
+    return discoverGuichetPages(GUICHET_SEEDS, { delayMs: options.delayMs, ...options.discovery });
+  };
+
+  let running = false;
+
+  const tick = async (immediate = false) => {
+    if (running) return;
+    running = true;
+    try {
+      // Without a database there is no record of the last run to tell whether one is due
+      if (immediate && !(await getDb())) return;
+
+      const [latest] = await getCrawlRuns(1);
+      const minAgeMs = immediate ? options.intervalMs : options.intervalMs / 2;
+      if (latest && Date.now() - new Date(latest.startedAt).getTime() < minAgeMs) {
+        return;
+      }
+      const targets = await resolveTargets();
+      await removeUndiscoveredPages(targets);
+      await runCrawl(targets, options);
+    } catch (error) {
+      console.error("[Crawl] Scheduled crawl failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(() => void tick(), options.intervalMs);
+  // Do not keep the process alive just for crawling
+  timer.unref();
+  if (options.runImmediately) void tick(true);
+
+  return { stop: () => clearInterval(timer) };
+}
+
+/**
+ * Forget page state kept without a database (for testing)
+ */
+export function clearCrawlState(): void {
+  localPageStates.clear();
+}
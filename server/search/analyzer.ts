@@ -0,0 +1,166 @@
+/**
+ * Text analysis for knowledge base search
+ * Accent folding, tokenisation, stop words and light stemming for en/fr/de
+ */
+
+export type AnalyzerLanguage = "en" | "fr" | "de";
+
+export const ANALYZER_LANGUAGES: AnalyzerLanguage[] = ["en", "fr", "de"];
+
+// Stop words are stored accent-folded, matching the tokens they are compared against
+const STOP_WORDS: Record<AnalyzerLanguage, Set<string>> = {
+  en: new Set([
+    "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "does",
+    "for", "from", "has", "have", "how", "i", "if", "in", "into", "is", "it",
+    "its", "my", "no", "not", "of", "on", "or", "our", "should", "so", "such",
+    "than", "that", "the", "their", "then", "there", "these", "they", "this",
+    "to", "was", "we", "what", "when", "where", "which", "who", "will", "with",
+    "you", "your",
+  ]),
+  fr: new Set([
+    "a", "au", "aux", "avec", "ce", "ces", "comment", "dans", "de", "des", "du",
+    "elle", "en", "est", "et", "il", "ils", "je", "la", "le", "les", "leur",
+    "lui", "ma", "mais", "me", "mes", "mon", "ne", "nous", "on", "ou", "par",
+    "pas", "pour", "qu", "que", "quel", "quelle", "qui", "sa", "se", "ses",
+    "son", "sont", "sur", "ta", "te", "tu", "un", "une", "vos", "votre", "vous",
+    "d", "l", "j", "s", "c", "n", "m", "t", "y",
+  ]),
+  de: new Set([
+    "aber", "als", "am", "an", "auch", "auf", "aus", "bei", "bin", "bis", "das",
+    "dass", "dem", "den", "der", "des", "die", "doch", "du", "ein", "eine",
+    "einem", "einen", "einer", "eines", "er", "es", "fur", "hat", "ich", "ihr",
+    "im", "in", "ist", "ja", "kann", "mein", "mit", "nach", "nicht", "noch",
+    "oder", "sein", "sich", "sie", "sind", "so", "uber", "um", "und", "uns",
+    "von", "vor", "was", "wer", "wie", "wir", "wird", "zu", "zum", "zur",
+  ]),
+};
+
+/**
+ * Lowercase and strip diacritics so "congé" and "conge" compare equal
+ */
+export function foldAccents(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .replace(/œ/g, "oe")
+    .replace(/æ/g, "ae")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Split folded text into alphanumeric tokens
+ */
+export function tokenize(text: string): string[] {
+  return foldAccents(text)
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 0);
+}
+
+const VOWELS = /[aeiouy]/;
+
+function stripSuffix(word: string, suffixes: string[], minStem: number): string {
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= minStem) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Light English stemmer (plural, -ed/-ing and common derivational suffixes)
+ */
+function stemEnglish(word: string): string {
+  let w = word;
+  if (w.length <= 3) return w;
+
+  if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("ies") && w.length > 4) w = w.slice(0, -3) + "i";
+  else if (w.endsWith("s") && !w.endsWith("ss") && !w.endsWith("us")) w = w.slice(0, -1);
+
+  for (const suffix of ["ing", "ed"]) {
+    if (w.endsWith(suffix) && VOWELS.test(w.slice(0, -suffix.length)) && w.length - suffix.length >= 3) {
+      w = w.slice(0, -suffix.length);
+      // "stopped" -> "stopp" -> "stop"
+      if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+      break;
+    }
+  }
+
+  w = stripSuffix(w, ["ational", "ization", "fulness", "iveness", "ousness", "ation", "ment", "ness", "ful", "ity"], 4);
+
+  if (w.length > 3 && /[^aeiou]y$/.test(w)) w = w.slice(0, -1) + "i";
+  if (w.length > 4 && w.endsWith("e")) w = w.slice(0, -1);
+
+  return w;
+}
+
+/**
+ * Light French stemmer in the spirit of Savoy's: plurals, then common
+ * inflectional and derivational endings (input is already accent-folded)
+ */
+function stemFrench(word: string): string {
+  let w = word;
+  if (w.length <= 3) return w;
+
+  if (w.length > 5 && w.endsWith("aux")) w = w.slice(0, -3) + "al";
+  else if (w.endsWith("x") || w.endsWith("s")) w = w.slice(0, -1);
+
+  w = stripSuffix(
+    w,
+    [
+      "issement", "ements", "ement", "ations", "ation", "euses", "euse",
+      "ances", "ance", "ences", "ence", "ites", "ite", "ives", "ive",
+      "eurs", "eur", "ees", "ee", "er", "ez", "e",
+    ],
+    3
+  );
+
+  // Collapse doubled final consonants ("travaill" / "travail")
+  if (w.length > 4 && /([^aeiouy])\1$/.test(w)) w = w.slice(0, -1);
+
+  return w;
+}
+
+/**
+ * Light German stemmer modelled on CISTEM (input is already accent-folded)
+ */
+function stemGerman(word: string): string {
+  let w = word;
+  while (w.length > 3) {
+    if (w.length > 5 && /(em|er|nd)$/.test(w)) {
+      w = w.slice(0, -2);
+    } else if (/[tesn]$/.test(w)) {
+      w = w.slice(0, -1);
+    } else {
+      break;
+    }
+  }
+  return w;
+}
+
+const STEMMERS: Record<AnalyzerLanguage, (word: string) => string> = {
+  en: stemEnglish,
+  fr: stemFrench,
+  de: stemGerman,
+};
+
+/**
+ * Stem a single folded token for the given language
+ */
+export function stem(token: string, language: AnalyzerLanguage): string {
+  // Leave numbers and very short tokens alone
+  if (/^\d+$/.test(token)) return token;
+  return STEMMERS[language](token);
+}
+
+/**
+ * Full analysis chain: fold, tokenise, drop stop words, stem
+ */
+export function analyze(text: string, language: AnalyzerLanguage): string[] {
+  const stopWords = STOP_WORDS[language];
+  return tokenize(text)
+    .filter((t) => !stopWords.has(t) && (t.length > 1 || /\d/.test(t)))
+    .map((t) => stem(t, language));
+}
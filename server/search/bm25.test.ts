@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { analyze, foldAccents } from "./analyzer";
+import { buildBm25Index, searchBm25, type Bm25Document } from "./bm25";
+
+describe("analyzer", () => {
+  it("folds accents and case", () => {
+    expect(foldAccents("Congé Payé")).toBe("conge paye");
+    expect(foldAccents("Kündigungsfrist Straße")).toBe("kundigungsfrist strasse");
+  });
+
+  it("drops stop words and stems per language", () => {
+    expect(analyze("the employment contracts", "en")).toEqual(analyze("employment contract", "en"));
+    expect(analyze("les congés payés", "fr")).toEqual(analyze("conge paye", "fr"));
+    expect(analyze("die Arbeitsverträge", "de")).toEqual(analyze("Arbeitsvertrag", "de"));
+  });
+
+  it("ignores punctuation and regex metacharacters", () => {
+    expect(analyze("salary (gross) + bonus?", "en")).toEqual(["salari", "gross", "bonus"]);
+  });
+});
+
+describe("BM25 index", () => {
+  const documents: Bm25Document[] = [
+    {
+      id: "leave-fr",
+      language: "fr",
+      title: "Congé de maternité",
+      section: "Congés",
+      content: "La salariée enceinte a droit à un congé de maternité de 20 semaines.",
+    },
+    {
+      id: "leave-en",
+      language: "en",
+      title: "Annual leave",
+      section: "Leave",
+      content: "Every employee is entitled to 26 working days of paid annual leave per year.",
+    },
+    {
+      id: "contract-en",
+      language: "en",
+      title: "Employment contract",
+      section: "Contracts",
+      content: "The contract must state the salary, working hours and notice period. Leave is mentioned briefly.",
+    },
+  ];
+  const index = buildBm25Index(documents);
+
+  it("matches unaccented queries against accented text", () => {
+    const hits = searchBm25(index, "conge maternite", 5);
+    expect(hits[0]?.id).toBe("leave-fr");
+  });
+
+  it("ranks documents with title matches and rarer terms higher", () => {
+    const hits = searchBm25(index, "annual leave", 5);
+    expect(hits.map((h) => h.id)).toEqual(["leave-en", "contract-en"]);
+    expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+  });
+
+  it("returns nothing for stop-word-only queries", () => {
+    expect(searchBm25(index, "what is the", 5)).toEqual([]);
+  });
+
+  it("respects the limit", () => {
+    expect(searchBm25(index, "leave", 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * BM25 inverted index
+ * Field-weighted (BM25F-style) ranking over title, section and body text
+ */
+
+import { analyze, ANALYZER_LANGUAGES, type AnalyzerLanguage } from "./analyzer";
+
+export interface Bm25Document {
+  id: string;
+  language: AnalyzerLanguage;
+  title: string;
+  section: string;
+  content: string;
+}
+
+export interface Bm25Hit {
+  id: string;
+  score: number;
+}
+
+interface Posting {
+  docIndex: number;
+  weightedTf: number;
+}
+
+export interface Bm25Index {
+  documents: Array<{ id: string; language: AnalyzerLanguage; length: number }>;
+  postings: Map<string, Posting[]>;
+  averageLength: number;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Title and section matches count more than body matches
+const FIELD_WEIGHTS = {
+  title: 3,
+  section: 2,
+  content: 1,
+} as const;
+
+/**
+ * Build an inverted index, analysing each document in its own language
+ */
+export function buildBm25Index(documents: Bm25Document[]): Bm25Index {
+  const postings = new Map<string, Posting[]>();
+  const indexed: Bm25Index["documents"] = [];
+  let totalLength = 0;
+
+  documents.forEach((doc, docIndex) => {
+    const termWeights = new Map<string, number>();
+    let length = 0;
+
+    for (const field of ["title", "section", "content"] as const) {
+      const weight = FIELD_WEIGHTS[field];
+      const terms = analyze(doc[field], doc.language);
+      length += terms.length * weight;
+      for (const term of terms) {
+        termWeights.set(term, (termWeights.get(term) ?? 0) + weight);
+      }
+    }
+
+    termWeights.forEach((weightedTf, term) => {
+      const list = postings.get(term);
+      if (list) list.push({ docIndex, weightedTf });
+      else postings.set(term, [{ docIndex, weightedTf }]);
+    });
+
+    indexed.push({ id: doc.id, language: doc.language, length });
+    totalLength += length;
+  });
+
+  return {
+    documents: indexed,
+    postings,
+    averageLength: indexed.length > 0 ? totalLength / indexed.length : 0,
+  };
+}
+
+function inverseDocumentFrequency(index: Bm25Index, documentFrequency: number): number {
+  const n = index.documents.length;
+  return Math.log(1 + (n - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+/**
+ * Rank documents against a query
+ * The query language is unknown, so it is analysed once per language and each
+ * document is scored with the terms produced by its own language's analyser.
+ */
+export function searchBm25(index: Bm25Index, query: string, limit: number): Bm25Hit[] {
+  if (index.documents.length === 0) return [];
+
+  const queryTerms = new Map<AnalyzerLanguage, Set<string>>(
+    ANALYZER_LANGUAGES.map((language) => [language, new Set(analyze(query, language))])
+  );
+
+  const scores = new Map<number, number>();
+
+  queryTerms.forEach((terms, language) => {
+    terms.forEach((term) => {
+      const list = index.postings.get(term);
+      if (!list) return;
+
+      const idf = inverseDocumentFrequency(index, list.length);
+      for (const { docIndex, weightedTf } of list) {
+        const doc = index.documents[docIndex];
+        if (doc.language !== language) continue;
+
+        const norm = 1 - B + (B * doc.length) / (index.averageLength || 1);
+        const score = (idf * weightedTf * (K1 + 1)) / (weightedTf + K1 * norm);
+        scores.set(docIndex, (scores.get(docIndex) ?? 0) + score);
+      }
+    });
+  });
+
+  return Array.from(scores.entries())
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([docIndex, score]) => ({ id: index.documents[docIndex].id, score }));
+}
@@ -0,0 +1,139 @@
+/**
+ * Embedding providers for semantic search
+ * A remote OpenAI-compatible endpoint when configured, otherwise a deterministic
+ * local provider based on hashed word and character n-grams
+ */
+
+import { ENV } from "../_core/env";
+import { tokenize } from "./analyzer";
+
+export interface EmbeddingProvider {
+  /** Identifies the vector space; vectors from different providers are not comparable */
+  name: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * Deterministic local provider for tests and offline development.
+ * Words and their character trigrams are hashed into a fixed number of signed
+ * buckets, so texts sharing vocabulary or word fragments end up close together.
+ */
+export function createHashedNgramProvider(
+  options: { dimensions?: number; ngram?: number } = {}
+): EmbeddingProvider {
+  const dimensions = options.dimensions ?? 256;
+  const ngram = options.ngram ?? 3;
+
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % dimensions] += sign * weight;
+    };
+
+    for (const token of tokenize(text)) {
+      add(`w:${token}`, 1);
+      const padded = ` ${token} `;
+      for (let i = 0; i + ngram <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + ngram)}`, 0.5);
+      }
+    }
+
+    return normalizeVector(vector);
+  };
+
+  return {
+    name: `hashed-ngram-${ngram}x${dimensions}`,
+    dimensions,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+/**
+ * Provider for any OpenAI-compatible /v1/embeddings endpoint
+ */
+export function createOpenAIEmbeddingProvider(options: {
+  apiUrl: string;
+  apiKey: string;
+  model: string;
+  dimensions: number;
+}): EmbeddingProvider {
+  const url = `${options.apiUrl.replace(/\/$/, "")}/v1/embeddings`;
+
+  return {
+    name: `openai:${options.model}`,
+    dimensions: options.dimensions,
+    embed: async (texts) => {
+      if (texts.length === 0) return [];
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${options.apiKey}`,
+        },
+        body: JSON.stringify({ model: options.model, input: texts }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Embedding request failed: ${response.status} ${response.statusText} – ${errorText}`
+        );
+      }
+
+      const json = (await response.json()) as {
+        data: Array<{ index: number; embedding: number[] }>;
+      };
+      return json.data
+        .sort((a, b) => a.index - b.index)
+        .map((d) => normalizeVector(d.embedding));
+    },
+  };
+}
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * Get the configured embedding provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    provider =
+      ENV.embeddingApiUrl && ENV.embeddingApiKey
+        ? createOpenAIEmbeddingProvider({
+            apiUrl: ENV.embeddingApiUrl,
+            apiKey: ENV.embeddingApiKey,
+            model: ENV.embeddingModel,
+            dimensions: ENV.embeddingDimensions,
+          })
+        : createHashedNgramProvider();
+  }
+  return provider;
+}
+
+/**
+ * Override the embedding provider (pass null to fall back to configuration)
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider | null): void {
+  provider = next;
+}
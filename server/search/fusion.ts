@@ -0,0 +1,27 @@
+/**
+ * Reciprocal rank fusion
+ * Combines rankings whose raw scores are not comparable (BM25 vs cosine)
+ */
+
+export interface FusedHit {
+  id: string;
+  score: number;
+}
+
+/**
+ * Each ranking is a list of ids, best first. A document scores
+ * sum(1 / (k + rank)) over the rankings it appears in.
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = 60): FusedHit[] {
+  const scores = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + rank + 1));
+    });
+  }
+
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
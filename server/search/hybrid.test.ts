@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { createHashedNgramProvider } from "./embeddings";
+import { cosineSimilarity, searchVectors } from "./vector";
+import { reciprocalRankFusion } from "./fusion";
+
+describe("hashed n-gram embeddings", () => {
+  const provider = createHashedNgramProvider({ dimensions: 128 });
+
+  it("is deterministic and unit length", async () => {
+    const [a] = await provider.embed(["Notice period for dismissal"]);
+    const [b] = await provider.embed(["Notice period for dismissal"]);
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(128);
+    expect(Math.sqrt(a!.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1, 6);
+  });
+
+  it("places texts sharing word fragments closer together", async () => {
+    const [query, related, unrelated] = await provider.embed([
+      "dismissal notice",
+      "Notice periods when dismissing an employee",
+      "Registering a company with the trade register",
+    ]);
+    expect(cosineSimilarity(query!, related!)).toBeGreaterThan(
+      cosineSimilarity(query!, unrelated!)
+    );
+  });
+});
+
+describe("vector search", () => {
+  it("returns nearest entries above the similarity floor", () => {
+    const index = {
+      provider: "test",
+      entries: [
+        { id: "a", vector: [1, 0] },
+        { id: "b", vector: [0.6, 0.8] },
+        { id: "c", vector: [0, 1] },
+      ],
+    };
+    const hits = searchVectors(index, [1, 0], 5, 0.1);
+    expect(hits.map((h) => h.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("reciprocal rank fusion", () => {
+  it("favours documents ranked well by both lists", () => {
+    const fused = reciprocalRankFusion([
+      ["a", "b", "c"],
+      ["b", "d", "a"],
+    ]);
+    expect(fused[0]?.id).toBe("b");
+    expect(fused.map((h) => h.id)).toContain("d");
+  });
+});
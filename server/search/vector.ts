@@ -0,0 +1,49 @@
+/**
+ * In-memory vector index with cosine similarity search
+ */
+
+export interface VectorEntry {
+  id: string;
+  vector: number[];
+}
+
+export interface VectorIndex {
+  /** Name of the embedding provider that produced the vectors */
+  provider: string;
+  entries: VectorEntry[];
+}
+
+export interface VectorHit {
+  id: string;
+  similarity: number;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Brute-force nearest neighbours; the Guichet corpus is small enough
+ * that an approximate index would not pay for itself
+ */
+export function searchVectors(
+  index: VectorIndex,
+  queryVector: number[],
+  limit: number,
+  minSimilarity: number = 0
+): VectorHit[] {
+  return index.entries
+    .map((entry) => ({ id: entry.id, similarity: cosineSimilarity(queryVector, entry.vector) }))
+    .filter((hit) => hit.similarity > minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
@@ -0,0 +1,37 @@
+/**
+ * tRPC context (for testing)
+ * A signed-in user, or none, for callers created with router.createCaller;
+ * never used in production.
+ */
+
+import { vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+/**
+ * Context of a signed-in user with the given fields, or of a visitor when null
+ */
+export function createTestContext(user: Partial<AuthenticatedUser> | null = {}): TrpcContext {
+  return {
+    user: user && {
+      id: 1,
+      openId: "test-user",
+      email: "test@example.com",
+      name: "Test User",
+      loginMethod: "oauth",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+      ...user,
+    },
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
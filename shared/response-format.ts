@@ -29,6 +29,8 @@ export interface ChatResponse {
   steps: string[];
   citations: Citation[];
   confidence: Confidence;
+  /** Why the answer got its confidence level, for display */
+  confidence_reasons: string[];
   limitations: string[];
   suggested_searches: string[];
   evidence: Evidence[];
@@ -44,6 +46,7 @@ export function createChatResponse(
     steps?: string[];
     citations?: Citation[];
     confidence?: Confidence;
+    confidence_reasons?: string[];
     limitations?: string[];
     suggested_searches?: string[];
     evidence?: Evidence[];
@@ -55,6 +58,7 @@ export function createChatResponse(
     steps: options.steps ?? [],
     citations: options.citations ?? [],
     confidence: options.confidence ?? "medium",
+    confidence_reasons: options.confidence_reasons ?? [],
     limitations: options.limitations ?? [],
     suggested_searches: options.suggested_searches ?? [],
     evidence: options.evidence ?? [],
@@ -63,11 +67,13 @@ export function createChatResponse(
 
 /**
  * Convert a message with sources into the ChatResponse format
+ * Sources with an id (e.g. a knowledge base passage) keep it as their evidence_id
  */
 export function formatChatResponse(
   language: Language,
   messageContent: string,
   sources: Array<{
+    id?: string;
     title: string;
     url: string;
     section?: string;
@@ -76,12 +82,15 @@ export function formatChatResponse(
   options: {
     steps?: string[];
     confidence?: Confidence;
+    confidence_reasons?: string[];
     limitations?: string[];
     suggested_searches?: string[];
   } = {}
 ): ChatResponse {
+  const evidenceIds = sources.map((source, index) => source.id ?? `ev_${index + 1}`);
+
   const evidence: Evidence[] = sources.map((source, index) => ({
-    evidence_id: `ev_${index + 1}`,
+    evidence_id: evidenceIds[index],
     url: source.url,
     title: source.title,
     section: source.section ?? "General",
@@ -94,13 +103,14 @@ export function formatChatResponse(
     url: source.url,
     section: source.section ?? "General",
     retrieved_at: new Date().toISOString().split("T")[0] ?? new Date().toISOString(),
-    evidence_ids: [`ev_${index + 1}`],
+    evidence_ids: [evidenceIds[index]],
   }));
 
   return createChatResponse(language, messageContent, {
     steps: options.steps,
     citations,
     confidence: options.confidence ?? "medium",
+    confidence_reasons: options.confidence_reasons,
     limitations: options.limitations,
     suggested_searches: options.suggested_searches,
     evidence,
@@ -3,6 +3,8 @@
  * Orchestrator + Guichet Agent + Legal Agent
  */
 
+import type { ChatResponse as FormattedChatResponse } from "./response-format";
+
 export type Language = "en" | "fr" | "de";
 export type AgentType = "orchestrator" | "guichet" | "legal";
 export type SourceType = "guichet" | "legal" | "mixed";
@@ -12,6 +14,7 @@ export type ConfidenceLevel = "high" | "medium" | "low";
  * Evidence item with full metadata
  */
 export interface Evidence {
+  /** Stable across requests: the id of the stored passage the evidence comes from */
   evidence_id: string;
   url: string;
   title: string;
@@ -19,6 +22,12 @@ export interface Evidence {
   snippet: string;
   source: SourceType;
   retrieved_at: string; // YYYY-MM-DD
+  /** Retrieval relevance in [0, 1], 1 being the best match */
+  relevance_score?: number;
+  /** Legal evidence only: article number ("L.121-1"), ELI and consolidated version date */
+  article_number?: string;
+  eli_uri?: string;
+  version_date?: string; // YYYY-MM-DD
 }
 
 /**
@@ -42,9 +51,13 @@ export interface ChatResponse {
   steps: string[];
   citations: Citation[];
   confidence: ConfidenceLevel;
+  /** Why the answer got its confidence level, for display */
+  confidence_reasons: string[];
   limitations: string[];
   suggested_searches: string[];
   evidence: Evidence[];
+  /** Guichet and Legilux passages that disagree, by evidence id (their messages are in limitations) */
+  conflicts?: EvidenceConflict[];
 }
 
 /**
@@ -63,12 +76,19 @@ export interface OrchestratorPlan {
  * Retrieval result with metadata
  */
 export interface RetrievalResult {
+  /** Id of the stored passage (knowledge base document or legal article) */
+  id: string;
   url: string;
   title: string;
   section: string;
   snippet: string;
   source: SourceType;
   retrieved_at: string;
+  /** Relevance in [0, 1], 1 being the best match */
+  score: number;
+  article_number?: string;
+  eli_uri?: string;
+  version_date?: string;
 }
 
 /**
@@ -84,6 +104,20 @@ export interface AgentResponse {
   suggested_searches: string[];
 }
 
+/**
+ * Two evidence passages that disagree on a topic
+ */
+export interface EvidenceConflict {
+  /** "notice period", "minimum wage", "Art. L.121-4"... */
+  topic: string;
+  evidence_ids: [string, string];
+  /** What each passage states, in the order of evidence_ids */
+  values: [string, string];
+  /** The passage to follow, or null when neither outranks the other */
+  authoritative_id: string | null;
+  message: string;
+}
+
 /**
  * Cached retrieval for cost optimization
  */
@@ -100,11 +134,18 @@ export interface CachedRetrieval {
  */
 export interface AuditLog {
   id: string;
-  user_id: string;
+  user_id: string | null;
+  conversation_id: string | null;
+  message_id: string | null;
+  site_key: string | null;
+  pipeline: "single" | "agents";
   question: string;
   language: Language;
+  /** Orchestrator intent, or the expertise mode of a single LLM answer */
   intent: string;
-  response: ChatResponse;
+  /** Null for single LLM answers */
+  plan: OrchestratorPlan | null;
+  response: ChatResponse | FormattedChatResponse;
   agents_called: AgentType[];
   cost_tokens: number;
   created_at: string;
@@ -5,6 +5,8 @@
 
 export type * from "../drizzle/schema";
 export * from "./_core/errors";
+import type { ChatResponse as FormattedChatResponse } from "./response-format";
+import type { ChatResponse as AgentChatResponse } from "./types-independent";
 
 
 /**
@@ -17,6 +19,9 @@ export type Language = "en" | "fr" | "de";
 
 export type SourceType = "guichet" | "official" | "other";
 
+/** How a conversation is answered: one LLM call, or the orchestrator and specialist agents */
+export type ChatPipeline = "single" | "agents";
+
 export interface MessageSourceData {
   id: number;
   messageId: number;
@@ -26,6 +31,9 @@ export interface MessageSourceData {
   createdAt: Date;
 }
 
+/** Structured answer saved with an assistant message, from a single LLM call or the agent pipeline */
+export type StoredChatResponse = FormattedChatResponse | AgentChatResponse;
+
 export interface ChatMessageData {
   id: number;
   conversationId: number;
@@ -33,6 +41,19 @@ export interface ChatMessageData {
   content: string;
   mode?: ExpertiseMode;
   sources: MessageSourceData[];
+  /** Assistant messages saved with their structured answer */
+  response?: StoredChatResponse | null;
+  createdAt: Date;
+}
+
+/** A message as shown through a public share link, without who sent it or internal ids */
+export interface SharedMessageData {
+  id: number;
+  sender: "user" | "assistant" | "system";
+  content: string;
+  mode: ExpertiseMode | null;
+  sources: Array<Pick<MessageSourceData, "sourceTitle" | "sourceUrl" | "sourceType">>;
+  response: StoredChatResponse | null;
   createdAt: Date;
 }
 
@@ -48,6 +69,20 @@ export interface IntegrationConfig {
   logo?: string;
   defaultLanguage?: Language;
   defaultMode?: ExpertiseMode;
+  defaultPipeline?: ChatPipeline;
+}
+
+/** A usage limit that is nearly reached (warning) or reached (exceeded) */
+export interface UsageNotice {
+  level: "warning" | "exceeded";
+  scope: "user" | "integration";
+  limit: "monthly_tokens" | "monthly_cost" | "daily_messages";
+  used: number;
+  allowed: number;
+  /** When the period of the limit starts again */
+  resetsAt: Date;
+  /** Localised text for the user */
+  message: string;
 }
 
 export interface EmbedConfig {
@@ -84,3 +119,12 @@ export const DISCLAIMERS = {
   procedural:
     "This information is based on official sources. Procedures and requirements may change. Always verify with the official sources linked below before taking action.",
 };
+
+/** Disclaimer given with the answers of each mode, in their limitations and in exports */
+export const MODE_DISCLAIMERS: Record<ExpertiseMode, string> = {
+  procedural:
+    "This information is based on official Guichet.lu sources and current Luxembourg employment regulations. Always verify with official sources for critical decisions.",
+  legal: "This is not legal advice. For legal matters, please consult with a qualified employment law attorney. Information is based on current Luxembourg law.",
+  ai_innovation:
+    "This response includes AI-generated suggestions and may not be based on official sources. Use for inspiration only and verify all information independently.",
+};